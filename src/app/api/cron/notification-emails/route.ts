@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { runNotificationEmails } from "@/lib/scheduled-reports";
+import { isCronAuthorized } from "@/lib/supabase/cron";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/cron/notification-emails
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runNotificationEmails());
+  } catch (error) {
+    console.error("Notification emails failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
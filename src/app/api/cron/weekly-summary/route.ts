@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { runWeeklySummary } from "@/lib/scheduled-reports";
+import { isCronAuthorized } from "@/lib/supabase/cron";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+// GET /api/cron/weekly-summary[?year=2025][&force=1][&dryRun=1]
+export async function GET(request: Request) {
+  if (!isCronAuthorized(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const year = parseInt(searchParams.get("year") || "");
+
+  try {
+    const result = await runWeeklySummary({
+      year: Number.isNaN(year) ? undefined : year,
+      force: searchParams.get("force") === "1",
+      dryRun: searchParams.get("dryRun") === "1",
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Weekly summary failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unknown error" },
+      { status: 500 }
+    );
+  }
+}
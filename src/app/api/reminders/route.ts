@@ -0,0 +1,212 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { logReminders } from "@/lib/supabase/data";
+import { escapeHtml, getSmtpConfig, sendEmail } from "@/lib/email";
+import {
+  MAX_REMINDER_EMAILS,
+  type ReminderEmailRequest,
+  type ReminderEmailResult,
+} from "@/lib/reminders";
+import { hasPermission, type UserRole } from "@/types/database";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type ServerClient = NonNullable<Awaited<ReturnType<typeof createClient>>>;
+
+function toHtml(body: string): string {
+  return `<div style="font-family:Arial,sans-serif;font-size:14px;color:#333;white-space:pre-line">${escapeHtml(body)}</div>`;
+}
+
+function reminderKey(
+  contractId: unknown,
+  year: unknown,
+  month: unknown,
+  subPeriod: unknown,
+  signatureId: unknown
+): string {
+  return `${contractId}|${year}|${month}|${subPeriod}|${signatureId}`;
+}
+
+/**
+ * Signatures that may be reminded, keyed by reminderKey: the contract is
+ * visible to the user (customer/area scope via RLS, not in Sampah) and the
+ * signature of that period is not signed yet. Values are the signer names
+ * stored in the database.
+ */
+async function loadPendingSignatures(
+  supabase: ServerClient,
+  reminders: ReminderEmailRequest[]
+): Promise<Map<string, string>> {
+  const contractIds = [...new Set(reminders.map((r) => String(r.contractId)))];
+  const years = [...new Set(reminders.map((r) => Number(r.year)))];
+
+  const [contractsResult, progressResult] = await Promise.all([
+    supabase
+      .from("bapp_contracts")
+      .select("id, signatures(id, name)")
+      .in("id", contractIds)
+      .is("deleted_at", null),
+    supabase
+      .from("monthly_progress")
+      .select(
+        "contract_id, month, year, sub_period, signature_progress(signature_id, is_completed)"
+      )
+      .in("contract_id", contractIds)
+      .in("year", years),
+  ]);
+  if (contractsResult.error) throw new Error(contractsResult.error.message);
+  if (progressResult.error) throw new Error(progressResult.error.message);
+
+  const completed = new Set(
+    (progressResult.data || []).flatMap((progress) =>
+      (progress.signature_progress as { signature_id: string; is_completed: boolean }[])
+        .filter((sp) => sp.is_completed)
+        .map((sp) =>
+          reminderKey(
+            progress.contract_id,
+            progress.year,
+            progress.month,
+            progress.sub_period,
+            sp.signature_id
+          )
+        )
+    )
+  );
+
+  const pending = new Map<string, string>();
+  (contractsResult.data || []).forEach((contract) => {
+    (contract.signatures as { id: string; name: string }[]).forEach((signature) => {
+      reminders
+        .filter((r) => r.contractId === contract.id && r.signatureId === signature.id)
+        .forEach((r) => {
+          const key = reminderKey(r.contractId, r.year, r.month, r.subPeriod, r.signatureId);
+          if (!completed.has(key)) pending.set(key, signature.name);
+        });
+    });
+  });
+  return pending;
+}
+
+// POST /api/reminders { reminders: ReminderEmailRequest[] }
+// Dipanggil dari dialog Kirim Pengingat dengan sesi (cookie) user yang login
+export async function POST(request: Request) {
+  if (!getSmtpConfig()) {
+    return NextResponse.json(
+      { error: "SMTP belum dikonfigurasi. Salin pesan dan kirim secara manual." },
+      { status: 503 }
+    );
+  }
+
+  const supabase = await createClient();
+  if (!supabase) {
+    return NextResponse.json({ error: "Supabase belum dikonfigurasi" }, { status: 503 });
+  }
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+  if (!hasPermission(profile?.role as UserRole | undefined, "reminder:send")) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+  }
+
+  const payload = await request.json().catch(() => null);
+  const reminders = payload?.reminders as ReminderEmailRequest[] | undefined;
+  if (!Array.isArray(reminders) || reminders.length === 0) {
+    return NextResponse.json({ error: "Tidak ada pengingat untuk dikirim" }, { status: 400 });
+  }
+  if (reminders.length > MAX_REMINDER_EMAILS) {
+    return NextResponse.json(
+      { error: `Maksimal ${MAX_REMINDER_EMAILS} email per pengiriman` },
+      { status: 400 }
+    );
+  }
+
+  // Cek kontrak & tanda tangan lewat sesi user sebelum ada email yang terkirim,
+  // agar SMTP tidak bisa dipakai untuk kontrak di luar penugasan user
+  let pending: Map<string, string>;
+  try {
+    pending = await loadPendingSignatures(supabase, reminders);
+  } catch (error) {
+    console.error("Error checking reminders:", error);
+    return NextResponse.json({ error: "Gagal memeriksa data pengingat" }, { status: 500 });
+  }
+
+  // Kirim satu per satu agar satu alamat yang ditolak tidak menggagalkan semuanya
+  const results: ReminderEmailResult[] = [];
+  const sent: ReminderEmailRequest[] = [];
+  for (const reminder of reminders) {
+    const recipient = (reminder.recipient || "").trim();
+    const signatureName = pending.get(
+      reminderKey(
+        reminder.contractId,
+        reminder.year,
+        reminder.month,
+        reminder.subPeriod,
+        reminder.signatureId
+      )
+    );
+    if (signatureName === undefined) {
+      results.push({
+        recipient,
+        status: "failed",
+        error: "Kontrak tidak ditemukan atau tanda tangan sudah selesai",
+      });
+      continue;
+    }
+    if (!EMAIL_PATTERN.test(recipient)) {
+      results.push({ recipient, status: "failed", error: "Alamat email tidak valid" });
+      continue;
+    }
+    try {
+      await sendEmail({
+        to: [recipient],
+        subject: reminder.subject,
+        text: reminder.body,
+        html: toHtml(reminder.body),
+      });
+      results.push({ recipient, status: "sent" });
+      sent.push({ ...reminder, recipient, signatureName });
+    } catch (error) {
+      console.error("Reminder email failed:", error);
+      results.push({
+        recipient,
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  try {
+    await logReminders(
+      sent.map((reminder) => ({
+        contract_id: reminder.contractId,
+        month: reminder.month,
+        year: reminder.year,
+        sub_period: reminder.subPeriod,
+        signature_id: reminder.signatureId,
+        signature_name: reminder.signatureName,
+        channel: "email",
+        action: "sent",
+        recipient: reminder.recipient,
+      })),
+      supabase
+    );
+  } catch (error) {
+    // Email sudah terkirim; riwayat yang gagal dicatat tidak membatalkan hasil
+    console.error("Logging reminders failed:", error);
+  }
+
+  return NextResponse.json({ results });
+}
@@ -3,6 +3,7 @@ import { Geist, Geist_Mono } from "next/font/google";
 import { AuthProvider } from "@/components/providers/auth-provider";
 import { SettingsProvider } from "@/components/providers/settings-provider";
 import { NotificationProvider } from "@/components/providers/notification-provider";
+import { InvoiceTypesProvider } from "@/components/providers/invoice-types-provider";
 import { Toaster } from "@/components/ui/sonner";
 import { MobileNotice } from "@/components/ui/mobile-notice";
 import "./globals.css";
@@ -33,9 +34,11 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased pb-12`}
       >
         <SettingsProvider>
-          <NotificationProvider>
-            <AuthProvider>{children}</AuthProvider>
-          </NotificationProvider>
+          <AuthProvider>
+            <InvoiceTypesProvider>
+              <NotificationProvider>{children}</NotificationProvider>
+            </InvoiceTypesProvider>
+          </AuthProvider>
         </SettingsProvider>
         <Toaster richColors position="top-right" />
         <MobileNotice />
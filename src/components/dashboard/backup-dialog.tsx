@@ -0,0 +1,369 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import {
+  DatabaseBackup,
+  Download,
+  Upload,
+  Loader2,
+  AlertCircle,
+  RotateCcw,
+} from "lucide-react";
+import {
+  BACKUP_TABLES,
+  countBackupRows,
+  createBackupDump,
+  downloadBackup,
+  parseBackupFile,
+  type BackupDump,
+  type BackupFormat,
+  type BackupTable,
+  type RestoreMode,
+  type RestoreResult,
+} from "@/lib/backup";
+import { fetchBackupTables, restoreBackupTables } from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast, showInfoToast } from "@/lib/toast";
+
+interface BackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+  canRestore: boolean;
+  onRestoreComplete: () => void;
+}
+
+const TABLE_LABELS: Record<BackupTable, string> = {
+  customers: "Customer",
+  signatories: "Direktori Penandatangan",
+  areas: "Area",
+  bapp_contracts: "Kontrak",
+  signatures: "Penandatangan",
+  monthly_progress: "Progress Bulanan",
+  signature_progress: "Progress Tanda Tangan",
+  period_invoices: "Invoice Periode",
+};
+
+const RESTORE_MODES: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: "missing",
+    label: "Tambahkan data yang belum ada",
+    description: "Data yang sudah ada di database tidak diubah",
+  },
+  {
+    value: "merge",
+    label: "Gabung & timpa",
+    description: "Data yang sudah ada diperbarui sesuai isi backup",
+  },
+];
+
+export function BackupDialog({
+  open,
+  onOpenChange,
+  year,
+  canRestore,
+  onRestoreComplete,
+}: BackupDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [format, setFormat] = useState<BackupFormat>("json");
+  const [downloading, setDownloading] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [dump, setDump] = useState<BackupDump | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("missing");
+  const [restoring, setRestoring] = useState(false);
+  const [restoreStep, setRestoreStep] = useState<string | null>(null);
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null);
+
+  const reset = () => {
+    setFileName(null);
+    setDump(null);
+    setParseError(null);
+    setRestoreStep(null);
+    setRestoreResult(null);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  // Jangan tutup dialog saat restore sedang berjalan
+  const handleOpenChange = (isOpen: boolean) => {
+    if (restoring) return;
+    if (!isOpen) reset();
+    onOpenChange(isOpen);
+  };
+
+  const handleDownload = async () => {
+    if (!isSupabaseConfigured()) {
+      showInfoToast("Backup hanya tersedia saat terhubung ke database");
+      return;
+    }
+
+    setDownloading(true);
+    try {
+      const backup = createBackupDump(year, await fetchBackupTables(year));
+      await downloadBackup(backup, format);
+      showSuccessToast(`Backup tahun ${year} berhasil diunduh`, {
+        description: `${backup.tables.bapp_contracts.length} kontrak, ${backup.tables.monthly_progress.length} progress bulanan`,
+      });
+    } catch (error) {
+      showErrorToast(error, "Gagal membuat backup");
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setDump(null);
+    setParseError(null);
+    setRestoreResult(null);
+    try {
+      setDump(await parseBackupFile(file));
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "File tidak dapat dibaca");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!dump) return;
+
+    if (!isSupabaseConfigured()) {
+      showSuccessToast("Mode Demo: Restore tersimpan", {
+        description: "Perubahan tidak akan disimpan secara permanen",
+      });
+      handleOpenChange(false);
+      return;
+    }
+
+    setRestoring(true);
+    try {
+      const result = await restoreBackupTables(dump.tables, mode, (table, done, total) =>
+        setRestoreStep(`${TABLE_LABELS[table]} ${done}/${total}`)
+      );
+      setRestoreResult(result);
+
+      const inserted = BACKUP_TABLES.reduce((sum, t) => sum + result[t].inserted, 0);
+      const updated = BACKUP_TABLES.reduce((sum, t) => sum + result[t].updated, 0);
+      showSuccessToast(`Backup tahun ${dump.year} berhasil dipulihkan`, {
+        description: `${inserted} data baru, ${updated} data diperbarui`,
+      });
+      onRestoreComplete();
+    } catch (error) {
+      showErrorToast(error, "Restore Gagal");
+    } finally {
+      setRestoring(false);
+      setRestoreStep(null);
+    }
+  };
+
+  const rowCounts = dump ? countBackupRows(dump) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <DatabaseBackup className="h-5 w-5" />
+            Backup & Restore
+          </DialogTitle>
+          <DialogDescription>
+            Salinan lengkap data tahun {year} (customer, area, kontrak, direktori
+            dan progress tanda tangan, serta invoice periode) dengan ID asli, untuk
+            dipulihkan ke database yang kosong maupun yang sudah berisi data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {/* Backup */}
+          <div className="space-y-3">
+            <Label>Format Backup</Label>
+            <RadioGroup
+              value={format}
+              onValueChange={(v) => setFormat(v as BackupFormat)}
+              className="grid grid-cols-2 gap-2"
+            >
+              <div className="flex items-center space-x-3 rounded-lg border p-3 hover:bg-muted/50">
+                <RadioGroupItem value="json" id="backup-json" />
+                <Label htmlFor="backup-json" className="cursor-pointer">
+                  JSON (.json)
+                </Label>
+              </div>
+              <div className="flex items-center space-x-3 rounded-lg border p-3 hover:bg-muted/50">
+                <RadioGroupItem value="csv" id="backup-csv" />
+                <Label htmlFor="backup-csv" className="cursor-pointer">
+                  CSV per tabel (.zip)
+                </Label>
+              </div>
+            </RadioGroup>
+            <Button onClick={handleDownload} disabled={downloading || restoring}>
+              {downloading ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              {downloading ? "Membuat Backup..." : `Download Backup ${year}`}
+            </Button>
+          </div>
+
+          {canRestore && (
+            <>
+              <Separator />
+
+              {/* Restore */}
+              <div className="space-y-3">
+                <Label>Restore dari File Backup</Label>
+                <div className="flex flex-wrap items-center gap-3">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,.zip,application/json,application/zip"
+                    className="hidden"
+                    onChange={handleFileChange}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={restoring}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Pilih File
+                  </Button>
+                  <span className="text-sm text-muted-foreground truncate max-w-xs">
+                    {fileName || "Belum ada file dipilih"}
+                  </span>
+                </div>
+
+                {parseError && (
+                  <p className="flex items-center gap-2 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    {parseError}
+                  </p>
+                )}
+
+                {dump && rowCounts && (
+                  <>
+                    <p className="text-sm text-muted-foreground">
+                      Backup tahun {dump.year}, dibuat{" "}
+                      {new Date(dump.exported_at).toLocaleString("id-ID")}
+                    </p>
+                    <div className="border rounded-lg overflow-hidden">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Tabel</TableHead>
+                            <TableHead className="text-right">Di File</TableHead>
+                            {restoreResult && (
+                              <>
+                                <TableHead className="text-right">Baru</TableHead>
+                                <TableHead className="text-right">Diperbarui</TableHead>
+                                <TableHead className="text-right">Dilewati</TableHead>
+                              </>
+                            )}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {BACKUP_TABLES.map((table) => (
+                            <TableRow key={table}>
+                              <TableCell>{TABLE_LABELS[table]}</TableCell>
+                              <TableCell className="text-right">
+                                {rowCounts[table]}
+                              </TableCell>
+                              {restoreResult && (
+                                <>
+                                  <TableCell className="text-right">
+                                    {restoreResult[table].inserted}
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    {restoreResult[table].updated}
+                                  </TableCell>
+                                  <TableCell className="text-right">
+                                    {restoreResult[table].skipped}
+                                  </TableCell>
+                                </>
+                              )}
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+
+                    <RadioGroup
+                      value={mode}
+                      onValueChange={(v) => setMode(v as RestoreMode)}
+                      className="grid gap-2"
+                    >
+                      {RESTORE_MODES.map((option) => (
+                        <div
+                          key={option.value}
+                          className="flex items-center space-x-3 rounded-lg border p-3 hover:bg-muted/50"
+                        >
+                          <RadioGroupItem
+                            value={option.value}
+                            id={`restore-${option.value}`}
+                          />
+                          <div className="flex-1">
+                            <Label
+                              htmlFor={`restore-${option.value}`}
+                              className="cursor-pointer"
+                            >
+                              {option.label}
+                            </Label>
+                            <p className="text-xs text-muted-foreground mt-0.5">
+                              {option.description}
+                            </p>
+                          </div>
+                        </div>
+                      ))}
+                    </RadioGroup>
+
+                    <div className="flex items-center gap-3">
+                      <Button onClick={handleRestore} disabled={restoring}>
+                        {restoring ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <RotateCcw className="mr-2 h-4 w-4" />
+                        )}
+                        {restoring ? "Memulihkan..." : "Restore"}
+                      </Button>
+                      {restoreStep && (
+                        <span className="text-sm text-muted-foreground">
+                          {restoreStep}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Data dicocokkan berdasarkan ID, lalu nama (customer, area,
+                      kontrak) agar tidak terduplikasi. Jika restore terhenti,
+                      jalankan ulang dengan file yang sama.
+                    </p>
+                  </>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,7 +22,7 @@ import {
 import { ProgressDialog } from "./progress-dialog";
 import { ContainerSpinner } from "@/components/ui/loading";
 import { getProgressColorClass } from "@/lib/placeholder-data";
-import { deleteContract } from "@/lib/supabase/data";
+import { deleteContract, restoreTrashItem } from "@/lib/supabase/data";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
 import { exportCustomerToExcel } from "@/lib/export";
@@ -34,9 +34,10 @@ import type {
 } from "@/types/database";
 import {
   MONTH_NAMES,
-  parsePeriodToNumber,
-  getPeriodMonths,
+  getContractPeriodMonths,
+  getContractMonthsInYear,
   isHalfMonthPeriod,
+  TRASH_RETENTION_DAYS,
 } from "@/types/database";
 import {
   Info,
@@ -47,8 +48,12 @@ import {
   XCircle,
   FileUp,
   Download,
+  BellRing,
 } from "lucide-react";
 import { EditContractDialog } from "./edit-contract-dialog";
+import { ReminderDialog } from "./reminder-dialog";
+import { collectReminderSources } from "@/lib/reminders";
+import { getCellKey } from "@/lib/supabase/realtime";
 
 interface BAPPTableProps {
   data: CustomerWithAreas[];
@@ -59,6 +64,7 @@ interface BAPPTableProps {
   onRefresh?: () => void;
   year?: number;
   showPercentage?: boolean;
+  highlightedCells?: Set<string>; // getCellKey() dari perubahan realtime
 }
 
 export function BAPPTable({
@@ -70,12 +76,18 @@ export function BAPPTable({
   onRefresh,
   year = new Date().getFullYear(),
   showPercentage = true,
+  highlightedCells,
 }: BAPPTableProps) {
   const [selectedProgress, setSelectedProgress] =
     useState<MonthlyProgressDetail | null>(null);
   const [selectedContract, setSelectedContract] =
     useState<ContractWithProgress | null>(null);
+  const [selectedNames, setSelectedNames] = useState({
+    customerName: "",
+    areaName: "",
+  });
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [reminderOpen, setReminderOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [contractToDelete, setContractToDelete] =
     useState<ContractWithProgress | null>(null);
@@ -290,13 +302,22 @@ export function BAPPTable({
     return rows;
   }, [filteredData]);
 
+  // Periode yang sudah berakhir tapi masih menunggu tanda tangan
+  const reminderSources = useMemo(
+    () => collectReminderSources(filteredData),
+    [filteredData],
+  );
+
   // Handle progress cell click
   const handleProgressClick = (
     progress: MonthlyProgressDetail,
     contract: ContractWithProgress,
+    customerName: string,
+    areaName: string,
   ) => {
     setSelectedProgress(progress);
     setSelectedContract(contract);
+    setSelectedNames({ customerName, areaName });
     setDialogOpen(true);
   };
 
@@ -312,11 +333,30 @@ export function BAPPTable({
 
     setIsDeleting(true);
     try {
+      const deleted = contractToDelete;
       if (isSupabaseConfigured()) {
-        await deleteContract(contractToDelete.id);
+        await deleteContract(deleted.id);
       }
-      showSuccessToast("Kontrak berhasil dihapus", {
-        description: contractToDelete.name,
+      showSuccessToast("Kontrak dipindahkan ke Sampah", {
+        description: deleted.name,
+        duration: 8000,
+        force: true, // Undo harus selalu tersedia
+        action: {
+          label: "Batalkan",
+          onClick: async () => {
+            try {
+              if (isSupabaseConfigured()) {
+                await restoreTrashItem("contract", deleted.id);
+              }
+              showSuccessToast("Kontrak dipulihkan", {
+                description: deleted.name,
+              });
+              onProgressUpdate?.();
+            } catch (error) {
+              showErrorToast(error, "Gagal Memulihkan Kontrak");
+            }
+          },
+        },
       });
       setDeleteDialogOpen(false);
       setContractToDelete(null);
@@ -391,7 +431,22 @@ export function BAPPTable({
               <div className="h-3 w-3 rounded bg-neutral-100 dark:bg-neutral-800" />
               <span className="text-xs">0%</span>
             </div>
-            <div className="ml-auto flex items-center gap-1 text-xs text-muted-foreground">
+            {isAdmin && reminderSources.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="ml-auto h-7 text-xs"
+                onClick={() => setReminderOpen(true)}
+              >
+                <BellRing className="mr-1 h-3 w-3" />
+                Kirim Pengingat ({reminderSources.length})
+              </Button>
+            )}
+            <div
+              className={`flex items-center gap-1 text-xs text-muted-foreground ${
+                isAdmin && reminderSources.length > 0 ? "" : "ml-auto"
+              }`}
+            >
               <Info className="h-3 w-3" />
               <span>Kontrak dengan nama sama digabung otomatis</span>
             </div>
@@ -560,13 +615,27 @@ export function BAPPTable({
 
                 {/* Monthly progress cells with merged cell support */}
                 {(() => {
-                  const periodValue = parsePeriodToNumber(row.contract.period);
                   const isHalfMonth = isHalfMonthPeriod(row.contract.period);
                   const activeMonths = isHalfMonth
                     ? Array.from({ length: 12 }, (_, i) => i + 1)
-                    : getPeriodMonths(periodValue);
+                    : getContractPeriodMonths(row.contract);
+                  // Bulan di tahun ini yang masuk masa kontrak (selalu berurutan)
+                  const contractMonths = getContractMonthsInYear(row.contract, year);
+                  const firstMonth = contractMonths[0] ?? 13;
+                  const lastMonth = contractMonths[contractMonths.length - 1] ?? 12;
                   const cells: React.ReactNode[] = [];
 
+                  // Empty cell for months outside the contract dates or of a
+                  // period that ends after this year
+                  const renderEmptyCell = (key: string, colSpan: number, label: string) => (
+                    <td key={key} colSpan={colSpan} className="border-r px-1 py-1">
+                      <div
+                        className="flex h-8 w-full items-center justify-center rounded bg-muted/30 text-xs text-muted-foreground"
+                        title={label}
+                      />
+                    </td>
+                  );
+
                   // Format timestamp helper
                   const formatTimestamp = (dateStr: string | null) => {
                     if (!dateStr) return null;
@@ -589,6 +658,11 @@ export function BAPPTable({
                     const currentSubPeriod = row.subPeriod; // 1 for 1-20, 2 for 21-30
 
                     for (let month = 1; month <= 12; month++) {
+                      if (month < firstMonth || month > lastMonth) {
+                        cells.push(renderEmptyCell(`out-${month}`, 1, "Di luar masa kontrak"));
+                        continue;
+                      }
+
                       // Get progress for the current sub_period only
                       const progress = row.contract.monthly_progress.find(
                         (p) =>
@@ -721,8 +795,13 @@ export function BAPPTable({
                                       {sig.name}
                                     </span>
                                     {sig.is_completed && sig.completed_at && (
-                                      <span className="text-slate text-xs ml-auto">
+                                      <span className="text-slate text-xs ml-auto text-right">
                                         {formatTimestamp(sig.completed_at)}
+                                        {sig.completed_by_name && (
+                                          <span className="block">
+                                            oleh {sig.completed_by_name}
+                                          </span>
+                                        )}
                                       </span>
                                     )}
                                   </li>
@@ -753,13 +832,28 @@ export function BAPPTable({
                               <button
                                 onClick={() => {
                                   if (progress) {
-                                    handleProgressClick(progress, row.contract);
+                                    handleProgressClick(
+                                      progress,
+                                      row.contract,
+                                      row.customer.name,
+                                      row.area.name,
+                                    );
                                   }
                                 }}
                                 className={`flex h-8 w-full items-center justify-center rounded text-xs font-medium transition-all hover:ring-2 hover:ring-primary/50 ${
                                   progress
                                     ? getProgressColorClass(progress.percentage)
                                     : "bg-muted/50 text-muted-foreground"
+                                } ${
+                                  highlightedCells?.has(
+                                    getCellKey(
+                                      row.contract.id,
+                                      month,
+                                      currentSubPeriod,
+                                    ),
+                                  )
+                                    ? "ring-2 ring-blue-500 animate-pulse"
+                                    : ""
                                 }`}
                               >
                                 {progress
@@ -788,9 +882,16 @@ export function BAPPTable({
 
                   // Regular period handling (existing logic)
                   // Track which months we've already rendered
-                  let currentMonth = 1;
+                  if (firstMonth > 1) {
+                    cells.push(
+                      renderEmptyCell("before", Math.min(firstMonth, 13) - 1, "Di luar masa kontrak"),
+                    );
+                  }
+                  let currentMonth = firstMonth;
 
                   for (const activeMonth of activeMonths) {
+                    if (activeMonth < firstMonth || activeMonth > lastMonth) continue;
+
                     // Calculate colspan: from currentMonth to activeMonth
                     const colspan = activeMonth - currentMonth + 1;
 
@@ -827,11 +928,22 @@ export function BAPPTable({
                           <TooltipTrigger asChild>
                             <button
                               onClick={() =>
-                                handleProgressClick(progress, row.contract)
+                                handleProgressClick(
+                                  progress,
+                                  row.contract,
+                                  row.customer.name,
+                                  row.area.name,
+                                )
                               }
                               className={`flex h-8 w-full items-center justify-center rounded text-xs font-medium transition-all hover:ring-2 hover:ring-primary/50 ${getProgressColorClass(
                                 progress.percentage,
-                              )}`}
+                              )} ${
+                                highlightedCells?.has(
+                                  getCellKey(row.contract.id, activeMonth, 1),
+                                )
+                                  ? "ring-2 ring-blue-500 animate-pulse"
+                                  : ""
+                              }`}
                             >
                               {showPercentage
                                 ? `${progress.percentage}%`
@@ -945,8 +1057,13 @@ export function BAPPTable({
                                       {sig.name}
                                     </span>
                                     {sig.is_completed && sig.completed_at && (
-                                      <span className="text-slate text-xs ml-auto">
+                                      <span className="text-slate text-xs ml-auto text-right">
                                         {formatTimestamp(sig.completed_at)}
+                                        {sig.completed_by_name && (
+                                          <span className="block">
+                                            oleh {sig.completed_by_name}
+                                          </span>
+                                        )}
                                       </span>
                                     )}
                                   </li>
@@ -973,6 +1090,20 @@ export function BAPPTable({
                     currentMonth = activeMonth + 1;
                   }
 
+                  // Periode terakhir berakhir setelah tahun ini atau setelah kontrak selesai
+                  if (currentMonth <= lastMonth) {
+                    cells.push(
+                      renderEmptyCell(
+                        "open",
+                        lastMonth - currentMonth + 1,
+                        "Periode berakhir setelah bulan ini",
+                      ),
+                    );
+                  }
+                  if (firstMonth <= 12 && lastMonth < 12) {
+                    cells.push(renderEmptyCell("after", 12 - lastMonth, "Di luar masa kontrak"));
+                  }
+
                   return cells;
                 })()}
 
@@ -1038,8 +1169,21 @@ export function BAPPTable({
         isAdmin={isAdmin}
         year={year}
         onProgressUpdate={onProgressUpdate}
+        customerName={selectedNames.customerName}
+        areaName={selectedNames.areaName}
       />
 
+      {/* Bulk Reminder Dialog */}
+      {isAdmin && (
+        <ReminderDialog
+          open={reminderOpen}
+          onOpenChange={setReminderOpen}
+          sources={reminderSources}
+          year={year}
+          isAdmin={isAdmin}
+        />
+      )}
+
       {/* Edit Contract Dialog */}
       <EditContractDialog
         open={editDialogOpen}
@@ -1057,9 +1201,10 @@ export function BAPPTable({
             <AlertDialogTitle>Hapus Kontrak</AlertDialogTitle>
             <AlertDialogDescription>
               Apakah Anda yakin ingin menghapus kontrak{" "}
-              <strong>&quot;{contractToDelete?.name}&quot;</strong>? Semua data
-              progress dan tanda tangan terkait akan ikut terhapus. Tindakan ini
-              tidak dapat dibatalkan.
+              <strong>&quot;{contractToDelete?.name}&quot;</strong>? Kontrak
+              beserta data progress dan tanda tangannya akan dipindahkan ke
+              Sampah dan dapat dipulihkan oleh Super Admin dalam{" "}
+              {TRASH_RETENTION_DAYS} hari.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
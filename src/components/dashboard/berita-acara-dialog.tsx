@@ -0,0 +1,444 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  ChevronDown,
+  ChevronRight,
+  Download,
+  FileSignature,
+  FileText,
+  FileType,
+  Loader2,
+  RotateCcw,
+  Save,
+} from "lucide-react";
+import type {
+  BeritaAcaraTemplateContent,
+  ContractWithProgress,
+  MonthlyProgressDetail,
+} from "@/types/database";
+import {
+  BERITA_ACARA_PLACEHOLDERS,
+  DEFAULT_BERITA_ACARA_TEMPLATE,
+  downloadBeritaAcara,
+  fillTemplate,
+  getBeritaAcaraFilename,
+  getBeritaAcaraValues,
+  type BeritaAcaraFormat,
+} from "@/lib/berita-acara";
+import {
+  fetchBeritaAcaraTemplate,
+  resetBeritaAcaraTemplate,
+  saveBeritaAcaraTemplate,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+
+interface BeritaAcaraDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contract: ContractWithProgress;
+  progress: MonthlyProgressDetail;
+  customerName: string;
+  areaName: string;
+  year: number;
+  isAdmin?: boolean;
+}
+
+type TemplateSource = "customer" | "default" | "builtin";
+
+const SOURCE_LABELS: Record<TemplateSource, string> = {
+  customer: "Template khusus customer",
+  default: "Template default",
+  builtin: "Template bawaan",
+};
+
+function toContent(template: BeritaAcaraTemplateContent): BeritaAcaraTemplateContent {
+  const { title, number_format, opening_text, closing_text, place } = template;
+  return { title, number_format, opening_text, closing_text, place };
+}
+
+// yyyy-mm-dd untuk <input type="date">, dalam zona waktu lokal
+function toDateInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split("T")[0];
+}
+
+export function BeritaAcaraDialog({
+  open,
+  onOpenChange,
+  contract,
+  progress,
+  customerName,
+  areaName,
+  year,
+  isAdmin = false,
+}: BeritaAcaraDialogProps) {
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{
+    key: string;
+    template: BeritaAcaraTemplateContent;
+    source: TemplateSource;
+  } | null>(null);
+  const [format, setFormat] = useState<BeritaAcaraFormat>("pdf");
+  const [dateValue, setDateValue] = useState(() => toDateInputValue(new Date()));
+  const [numberOverride, setNumberOverride] = useState<string | null>(null);
+  const [draft, setDraft] = useState<BeritaAcaraTemplateContent | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  const requestKey = open ? `${contract.customer_id}-${reloadToken}` : null;
+
+  useEffect(() => {
+    if (!requestKey) return;
+
+    let cancelled = false;
+    fetchBeritaAcaraTemplate(contract.customer_id)
+      .catch((error) => {
+        showErrorToast(error, "Gagal memuat template Berita Acara");
+        return null;
+      })
+      .then((template) => {
+        if (cancelled) return;
+        setResult({
+          key: requestKey,
+          template: template ? toContent(template) : DEFAULT_BERITA_ACARA_TEMPLATE,
+          source: !template
+            ? "builtin"
+            : template.customer_id
+            ? "customer"
+            : "default",
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, contract.customer_id]);
+
+  // Reset isian saat dialog ditutup
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (!open) {
+      setNumberOverride(null);
+      setDraft(null);
+      setDateValue(toDateInputValue(new Date()));
+    }
+  }
+
+  const isLoading = requestKey !== null && result?.key !== requestKey;
+  const template = draft || result?.template || DEFAULT_BERITA_ACARA_TEMPLATE;
+  const date = dateValue ? new Date(`${dateValue}T00:00:00`) : new Date();
+  const values = getBeritaAcaraValues({
+    contract,
+    progress,
+    customerName,
+    areaName,
+    year,
+    date,
+    template,
+  });
+  const documentNumber = numberOverride ?? fillTemplate(template.number_format, values);
+  const filename = getBeritaAcaraFilename(
+    { contract, progress, customerName, areaName, year },
+    format
+  );
+
+  const updateDraft = (field: keyof BeritaAcaraTemplateContent, value: string) => {
+    setDraft({ ...template, [field]: value });
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const savedAs = await downloadBeritaAcara(
+        {
+          contract,
+          progress,
+          customerName,
+          areaName,
+          year,
+          date,
+          number: documentNumber,
+          template,
+        },
+        format
+      );
+      showSuccessToast("Berita Acara berhasil dibuat", { description: savedAs });
+    } catch (error) {
+      showErrorToast(error, "Gagal membuat Berita Acara");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSaveTemplate = async (forCustomer: boolean) => {
+    if (!draft) return;
+    setIsSavingTemplate(true);
+    try {
+      await saveBeritaAcaraTemplate(forCustomer ? contract.customer_id : null, draft);
+      showSuccessToast(
+        forCustomer
+          ? `Template untuk ${customerName} disimpan`
+          : "Template default disimpan"
+      );
+      setDraft(null);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal menyimpan template");
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const handleResetTemplate = async () => {
+    setIsSavingTemplate(true);
+    try {
+      await resetBeritaAcaraTemplate(contract.customer_id);
+      showSuccessToast(`Template ${customerName} kembali ke default`);
+      setDraft(null);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal mereset template");
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSignature className="h-5 w-5" />
+            Buat Berita Acara
+          </DialogTitle>
+          <DialogDescription>
+            {contract.name} - {values.bulan}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <LoadingSpinner text="Memuat template..." />
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            {/* Format */}
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <RadioGroup
+                value={format}
+                onValueChange={(v) => setFormat(v as BeritaAcaraFormat)}
+                className="grid grid-cols-2 gap-2"
+              >
+                <Label
+                  htmlFor="ba-pdf"
+                  className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+                >
+                  <RadioGroupItem value="pdf" id="ba-pdf" />
+                  <FileType className="h-4 w-4 text-red-500" />
+                  PDF (.pdf)
+                </Label>
+                <Label
+                  htmlFor="ba-docx"
+                  className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+                >
+                  <RadioGroupItem value="docx" id="ba-docx" />
+                  <FileText className="h-4 w-4 text-blue-500" />
+                  Word (.docx)
+                </Label>
+              </RadioGroup>
+            </div>
+
+            {/* Tanggal & nomor */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="ba-date">Tanggal Dokumen</Label>
+                <Input
+                  id="ba-date"
+                  type="date"
+                  value={dateValue}
+                  onChange={(e) => setDateValue(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ba-number">Nomor</Label>
+                <Input
+                  id="ba-number"
+                  value={documentNumber}
+                  onChange={(e) => setNumberOverride(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {/* Penandatangan */}
+            <div className="rounded-md border bg-muted/30 p-3 text-sm">
+              <p className="font-medium mb-1">
+                Penandatangan ({contract.signatures.length})
+              </p>
+              {contract.signatures.length === 0 ? (
+                <p className="text-muted-foreground italic">
+                  Kontrak belum memiliki penandatangan
+                </p>
+              ) : (
+                <p className="text-muted-foreground">
+                  {[...contract.signatures]
+                    .sort((a, b) => a.order - b.order)
+                    .map((s) => `${s.name} (${s.role})`)
+                    .join(", ")}
+                </p>
+              )}
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              {result ? SOURCE_LABELS[result.source] : SOURCE_LABELS.builtin}
+              {draft && " (diubah, belum disimpan)"} • File: {filename}
+            </p>
+
+            {/* Template editor (admin) */}
+            {isAdmin && (
+              <>
+                <Separator />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto p-0 text-sm hover:bg-transparent"
+                  onClick={() => setDraft(draft ? null : template)}
+                >
+                  {draft ? (
+                    <ChevronDown className="mr-1 h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="mr-1 h-4 w-4" />
+                  )}
+                  Edit Template
+                </Button>
+
+                {draft && (
+                  <div className="space-y-3">
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-2">
+                        <Label htmlFor="ba-title">Judul</Label>
+                        <Input
+                          id="ba-title"
+                          value={draft.title}
+                          onChange={(e) => updateDraft("title", e.target.value)}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="ba-place">Tempat</Label>
+                        <Input
+                          id="ba-place"
+                          value={draft.place}
+                          onChange={(e) => updateDraft("place", e.target.value)}
+                        />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="ba-number-format">Format Nomor</Label>
+                      <Input
+                        id="ba-number-format"
+                        value={draft.number_format}
+                        onChange={(e) => {
+                          setNumberOverride(null);
+                          updateDraft("number_format", e.target.value);
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="ba-opening">Paragraf Pembuka</Label>
+                      <Textarea
+                        id="ba-opening"
+                        rows={3}
+                        value={draft.opening_text}
+                        onChange={(e) => updateDraft("opening_text", e.target.value)}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="ba-closing">Paragraf Penutup</Label>
+                      <Textarea
+                        id="ba-closing"
+                        rows={3}
+                        value={draft.closing_text}
+                        onChange={(e) => updateDraft("closing_text", e.target.value)}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Placeholder:{" "}
+                      {BERITA_ACARA_PLACEHOLDERS.map((p) => `{{${p.key}}}`).join(", ")}
+                    </p>
+                    {isSupabaseConfigured() && (
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveTemplate(true)}
+                          disabled={isSavingTemplate}
+                        >
+                          {isSavingTemplate ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Save className="mr-2 h-4 w-4" />
+                          )}
+                          Simpan untuk {customerName}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handleSaveTemplate(false)}
+                          disabled={isSavingTemplate}
+                        >
+                          Simpan sebagai Default
+                        </Button>
+                        {result?.source === "customer" && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={handleResetTemplate}
+                            disabled={isSavingTemplate}
+                          >
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                            Pakai Default
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button onClick={handleGenerate} disabled={isLoading || isGenerating}>
+            {isGenerating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="mr-2 h-4 w-4" />
+            )}
+            Unduh {format === "pdf" ? "PDF" : "DOCX"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -24,7 +24,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AutocompleteInput } from "@/components/ui/autocomplete-input";
 import { Loader2, Plus, Trash2, Save, AlertCircle } from "lucide-react";
-import type { ContractFormData } from "@/types/database";
+import type { ContractFormData, Customer, Signatory } from "@/types/database";
+import {
+  DEFAULT_DEADLINE_DAYS,
+  MAX_DEADLINE_DAYS,
+  MONTH_NAMES_FULL,
+  getDefaultContractDates,
+  getSelectableInvoiceTypes,
+  parseAmountInput,
+} from "@/types/database";
 import {
   createContract,
   updateContract,
@@ -33,13 +41,13 @@ import {
   fetchUniqueCustomerNames,
   fetchUniqueAreaNames,
   fetchUniqueContractNames,
+  fetchCustomers,
+  fetchSignatories,
 } from "@/lib/supabase/data";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
-
-// Valid invoice types matching database constraint
-const INVOICE_TYPES = ["Pusat", "Regional 2", "Regional 3"] as const;
-type InvoiceType = (typeof INVOICE_TYPES)[number];
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+import { SignatorySelect } from "./signatory-select";
 
 interface ContractFormDialogProps {
   open: boolean;
@@ -52,6 +60,7 @@ interface SignatureInput {
   id: string;
   name: string;
   role: string;
+  signatory_id: string | null; // null = diisi manual
 }
 
 export function ContractFormDialog({
@@ -60,29 +69,49 @@ export function ContractFormDialog({
   onSave,
   initialData,
 }: ContractFormDialogProps) {
+  const { invoiceTypes } = useInvoiceTypes();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     customer: "",
     area: "",
     name: "",
-    invoice_type: "Pusat" as InvoiceType,
+    invoice_type: "", // Kosong = tipe aktif pertama
     period: "",
     notes: "",
-    year: new Date().getFullYear(),
+    deadline_days: DEFAULT_DEADLINE_DAYS,
+    contract_value: "", // Rupiah; kosong = belum diisi
+    period_amount: "",
+    ...getDefaultContractDates(new Date().getFullYear()),
+    period_anchor_month: null as number | null, // null = bulan tanggal mulai
   });
   const [signatures, setSignatures] = useState<SignatureInput[]>([
-    { id: "sig-1", name: "", role: "" },
-    { id: "sig-2", name: "", role: "" },
+    { id: "sig-1", name: "", role: "", signatory_id: null },
+    { id: "sig-2", name: "", role: "", signatory_id: null },
   ]);
 
   // Autocomplete options
   const [customerOptions, setCustomerOptions] = useState<string[]>([]);
   const [areaOptions, setAreaOptions] = useState<string[]>([]);
   const [contractNameOptions, setContractNameOptions] = useState<string[]>([]);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [signatoryOptions, setSignatoryOptions] = useState<Signatory[]>([]);
 
   const isEditMode = !!initialData?.id;
 
+  // Tipe yang diarsipkan tetap bisa dipertahankan oleh kontrak yang sudah memakainya
+  const invoiceTypeOptions = getSelectableInvoiceTypes(invoiceTypes, initialData?.invoice_type);
+  const invoiceType = formData.invoice_type || invoiceTypeOptions[0] || "";
+  const contractValue = parseAmountInput(formData.contract_value);
+  const periodAmount = parseAmountInput(formData.period_amount);
+  // Tahun kontrak = tahun mulai
+  const year = parseInt(formData.start_date.slice(0, 4)) || 0;
+  // Customer yang sudah ada (dicocokkan lewat nama) untuk menyaring direktori
+  const customerId =
+    customers.find(
+      (c) => c.name.toLowerCase() === formData.customer.trim().toLowerCase()
+    )?.id ?? null;
+
   // Fetch autocomplete options when dialog opens
   useEffect(() => {
     if (open && isSupabaseConfigured()) {
@@ -91,10 +120,14 @@ export function ContractFormDialog({
         fetchUniqueCustomerNames(),
         fetchUniqueAreaNames(),
         fetchUniqueContractNames(),
-      ]).then(([customers, areas, contracts]) => {
-        setCustomerOptions(customers);
+        fetchCustomers(),
+        fetchSignatories().catch(() => [] as Signatory[]),
+      ]).then(([customerNames, areas, contracts, customerList, signatories]) => {
+        setCustomerOptions(customerNames);
         setAreaOptions(areas);
         setContractNameOptions(contracts);
+        setCustomers(customerList);
+        setSignatoryOptions(signatories);
       });
     }
   }, [open]);
@@ -106,16 +139,22 @@ export function ContractFormDialog({
         customer: initialData.customer_id || "",
         area: initialData.area_id || "",
         name: initialData.name,
-        invoice_type: (initialData.invoice_type as InvoiceType) || "Pusat",
+        invoice_type: initialData.invoice_type || "",
         period: initialData.period || "",
         notes: initialData.notes || "",
-        year: new Date().getFullYear(),
+        deadline_days: initialData.deadline_days ?? DEFAULT_DEADLINE_DAYS,
+        contract_value: initialData.contract_value?.toString() ?? "",
+        period_amount: initialData.period_amount?.toString() ?? "",
+        start_date: initialData.start_date,
+        end_date: initialData.end_date,
+        period_anchor_month: initialData.period_anchor_month,
       });
       setSignatures(
         initialData.signatures.map((sig, idx) => ({
           id: `sig-${idx}`,
           name: sig.name,
           role: sig.role,
+          signatory_id: sig.signatory_id ?? null,
         }))
       );
       setError(null);
@@ -125,14 +164,18 @@ export function ContractFormDialog({
         customer: "",
         area: "",
         name: "",
-        invoice_type: "Pusat",
+        invoice_type: "",
         period: "",
         notes: "",
-        year: new Date().getFullYear(),
+        deadline_days: DEFAULT_DEADLINE_DAYS,
+        contract_value: "",
+        period_amount: "",
+        ...getDefaultContractDates(new Date().getFullYear()),
+        period_anchor_month: null,
       });
       setSignatures([
-        { id: "sig-1", name: "", role: "" },
-        { id: "sig-2", name: "", role: "" },
+        { id: "sig-1", name: "", role: "", signatory_id: null },
+        { id: "sig-2", name: "", role: "", signatory_id: null },
       ]);
       setError(null);
     }
@@ -140,7 +183,7 @@ export function ContractFormDialog({
 
   const handleAddSignature = () => {
     const newId = `sig-${Date.now()}`;
-    setSignatures([...signatures, { id: newId, name: "", role: "" }]);
+    setSignatures([...signatures, { id: newId, name: "", role: "", signatory_id: null }]);
   };
 
   const handleRemoveSignature = (id: string) => {
@@ -149,13 +192,33 @@ export function ContractFormDialog({
     }
   };
 
+  // Mengubah nama/jabatan manual melepas tautan ke direktori
   const handleSignatureChange = (
     id: string,
     field: "name" | "role",
     value: string
   ) => {
     setSignatures(
-      signatures.map((s) => (s.id === id ? { ...s, [field]: value } : s))
+      signatures.map((s) =>
+        s.id === id ? { ...s, [field]: value, signatory_id: null } : s
+      )
+    );
+  };
+
+  const handleSignatorySelect = (id: string, signatory: Signatory | null) => {
+    setSignatures(
+      signatures.map((s) =>
+        s.id !== id
+          ? s
+          : signatory
+            ? {
+                ...s,
+                name: signatory.name,
+                role: signatory.position,
+                signatory_id: signatory.id,
+              }
+            : { ...s, signatory_id: null }
+      )
     );
   };
 
@@ -166,11 +229,23 @@ export function ContractFormDialog({
     if (!formData.name.trim()) {
       return "Nama kontrak harus diisi";
     }
-    if (!INVOICE_TYPES.includes(formData.invoice_type)) {
+    if (!invoiceTypeOptions.includes(invoiceType)) {
       return "Jenis invoice tidak valid";
     }
-    if (formData.year < 2000 || formData.year > 2100) {
-      return "Tahun harus antara 2000 dan 2100";
+    if (!formData.start_date || !formData.end_date) {
+      return "Tanggal mulai dan selesai kontrak harus diisi";
+    }
+    if (year < 2000 || year > 2100) {
+      return "Tahun mulai harus antara 2000 dan 2100";
+    }
+    if (formData.end_date < formData.start_date) {
+      return "Tanggal selesai tidak boleh sebelum tanggal mulai";
+    }
+    if (formData.deadline_days < 0 || formData.deadline_days > MAX_DEADLINE_DAYS) {
+      return `Batas waktu harus antara 0 dan ${MAX_DEADLINE_DAYS} hari`;
+    }
+    if (Number.isNaN(contractValue) || Number.isNaN(periodAmount)) {
+      return "Nilai kontrak dan nilai per periode harus berupa angka rupiah";
     }
     if (signatures.length === 0) {
       return "Minimal harus ada 1 tanda tangan";
@@ -216,6 +291,7 @@ export function ContractFormDialog({
           .map((s) => ({
             name: s.name.trim(),
             role: s.role.trim() || "Pejabat",
+            signatory_id: s.signatory_id,
           }));
 
         if (isEditMode && initialData?.id) {
@@ -223,10 +299,16 @@ export function ContractFormDialog({
             customer_id: customer.id,
             area_id: area.id,
             name: formData.name.trim(),
-            invoice_type: formData.invoice_type,
+            invoice_type: invoiceType,
             period: formData.period.trim(),
             notes: formData.notes.trim() || null,
-            year: formData.year,
+            deadline_days: formData.deadline_days,
+            contract_value: contractValue,
+            period_amount: periodAmount,
+            start_date: formData.start_date,
+            end_date: formData.end_date,
+            period_anchor_month: formData.period_anchor_month,
+            year,
           });
           showSuccessToast("Kontrak berhasil diperbarui", {
             description: `${formData.name} telah disimpan`,
@@ -237,10 +319,16 @@ export function ContractFormDialog({
               customer_id: customer.id,
               area_id: area.id,
               name: formData.name.trim(),
-              invoice_type: formData.invoice_type,
+              invoice_type: invoiceType,
               period: formData.period.trim(),
               notes: formData.notes.trim() || undefined,
-              year: formData.year,
+              deadline_days: formData.deadline_days,
+              contract_value: contractValue,
+              period_amount: periodAmount,
+              start_date: formData.start_date,
+              end_date: formData.end_date,
+              period_anchor_month: formData.period_anchor_month,
+              year,
             },
             signaturesList
           );
@@ -351,49 +439,177 @@ export function ContractFormDialog({
           </div>
 
           <div className="grid grid-cols-2 gap-4">
-            {/* Year - Number Input */}
+            {/* Start Date */}
+            <div className="space-y-2">
+              <Label htmlFor="start_date">
+                Tanggal Mulai <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="start_date"
+                type="date"
+                value={formData.start_date}
+                onChange={(e) =>
+                  setFormData({ ...formData, start_date: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Kontrak mulai berlaku tanggal ini
+              </p>
+            </div>
+
+            {/* End Date */}
             <div className="space-y-2">
-              <Label htmlFor="year">
-                Tahun <span className="text-destructive">*</span>
+              <Label htmlFor="end_date">
+                Tanggal Selesai <span className="text-destructive">*</span>
               </Label>
               <Input
-                id="year"
+                id="end_date"
+                type="date"
+                value={formData.end_date}
+                onChange={(e) =>
+                  setFormData({ ...formData, end_date: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Boleh melewati akhir tahun
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Deadline - days after period end */}
+            <div className="space-y-2">
+              <Label htmlFor="deadline_days">Batas Waktu (hari)</Label>
+              <Input
+                id="deadline_days"
                 type="number"
-                min={2000}
-                max={2100}
-                value={formData.year}
+                min={0}
+                max={MAX_DEADLINE_DAYS}
+                value={formData.deadline_days}
                 onChange={(e) =>
                   setFormData({
                     ...formData,
-                    year: parseInt(e.target.value) || new Date().getFullYear(),
+                    deadline_days: parseInt(e.target.value) || 0,
                   })
                 }
               />
+              <p className="text-xs text-muted-foreground">
+                Hari setelah akhir periode (0 = akhir periode)
+              </p>
+            </div>
+
+            {/* Period anchor - first month of the period schedule */}
+            <div className="space-y-2">
+              <Label htmlFor="period_anchor_month">Bulan Awal Periode</Label>
+              <Select
+                value={formData.period_anchor_month?.toString() ?? "auto"}
+                onValueChange={(value) =>
+                  setFormData({
+                    ...formData,
+                    period_anchor_month: value === "auto" ? null : parseInt(value),
+                  })
+                }
+              >
+                <SelectTrigger id="period_anchor_month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Ikuti tanggal mulai</SelectItem>
+                  {MONTH_NAMES_FULL.map((month, index) => (
+                    <SelectItem key={month} value={(index + 1).toString()}>
+                      {month}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Periode 2/3/4/6/12 bulan dihitung mulai bulan ini
+              </p>
             </div>
           </div>
 
-          {/* Period - Select Dropdown */}
-          <div className="space-y-2">
-            <Label htmlFor="period">Periode</Label>
-            <Select
-              value={formData.period}
-              onValueChange={(value) =>
-                setFormData({ ...formData, period: value })
-              }
-            >
-              <SelectTrigger id="period">
-                <SelectValue placeholder="Pilih periode kontrak" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="Per 1/2 Bulan">Per 1/2 Bulan</SelectItem>
-                <SelectItem value="Per 1 Bulan">Per 1 Bulan</SelectItem>
-                <SelectItem value="Per 2 Bulan">Per 2 Bulan</SelectItem>
-                <SelectItem value="Per 3 Bulan">Per 3 Bulan</SelectItem>
-                <SelectItem value="Per 4 Bulan">Per 4 Bulan</SelectItem>
-                <SelectItem value="Per 6 Bulan">Per 6 Bulan</SelectItem>
-                <SelectItem value="Per 12 Bulan">Per 12 Bulan</SelectItem>
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-2 gap-4">
+            {/* Period - Select Dropdown */}
+            <div className="space-y-2">
+              <Label htmlFor="period">Periode</Label>
+              <Select
+                value={formData.period}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, period: value })
+                }
+              >
+                <SelectTrigger id="period">
+                  <SelectValue placeholder="Pilih periode kontrak" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Per 1/2 Bulan">Per 1/2 Bulan</SelectItem>
+                  <SelectItem value="Per 1 Bulan">Per 1 Bulan</SelectItem>
+                  <SelectItem value="Per 2 Bulan">Per 2 Bulan</SelectItem>
+                  <SelectItem value="Per 3 Bulan">Per 3 Bulan</SelectItem>
+                  <SelectItem value="Per 4 Bulan">Per 4 Bulan</SelectItem>
+                  <SelectItem value="Per 6 Bulan">Per 6 Bulan</SelectItem>
+                  <SelectItem value="Per 12 Bulan">Per 12 Bulan</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Invoice Type - Select Dropdown */}
+            <div className="space-y-2">
+              <Label htmlFor="invoice_type">Tipe Invoice</Label>
+              <Select
+                value={invoiceType}
+                onValueChange={(value) =>
+                  setFormData({ ...formData, invoice_type: value })
+                }
+              >
+                <SelectTrigger id="invoice_type">
+                  <SelectValue placeholder="Pilih tipe invoice" />
+                </SelectTrigger>
+                <SelectContent>
+                  {invoiceTypeOptions.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            {/* Contract Value - Rupiah */}
+            <div className="space-y-2">
+              <Label htmlFor="contract_value">Nilai Kontrak (Rp)</Label>
+              <Input
+                id="contract_value"
+                inputMode="numeric"
+                placeholder="mis. 120.000.000"
+                value={formData.contract_value}
+                onChange={(e) =>
+                  setFormData({ ...formData, contract_value: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Nilai setahun (opsional)
+              </p>
+            </div>
+
+            {/* Period Amount - Rupiah */}
+            <div className="space-y-2">
+              <Label htmlFor="period_amount">Nilai per Periode (Rp)</Label>
+              <Input
+                id="period_amount"
+                inputMode="numeric"
+                placeholder="Otomatis dari nilai kontrak"
+                value={formData.period_amount}
+                onChange={(e) =>
+                  setFormData({ ...formData, period_amount: e.target.value })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                Kosongkan untuk membagi rata nilai kontrak
+              </p>
+            </div>
           </div>
 
           {/* Notes - Textarea */}
@@ -441,6 +657,18 @@ export function ContractFormDialog({
                       <span className="text-xs font-medium text-muted-foreground w-6">
                         #{index + 1}
                       </span>
+                      <div className="flex-1">
+                        <SignatorySelect
+                          signatories={signatoryOptions}
+                          customerId={customerId}
+                          value={sig.signatory_id}
+                          onSelect={(signatory) =>
+                            handleSignatorySelect(sig.id, signatory)
+                          }
+                        />
+                      </div>
+                    </div>
+                    <div className="ml-8">
                       <Input
                         placeholder="Nama pejabat *"
                         value={sig.name}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useAuth } from "@/components/providers/auth-provider";
 import { useSettings } from "@/components/providers/settings-provider";
 import { DashboardHeader } from "./header";
@@ -19,8 +19,13 @@ import {
   calculateYearlyStatus,
 } from "@/lib/placeholder-data";
 import { fetchDashboardData } from "@/lib/supabase/data";
+import {
+  subscribeToDashboardChanges,
+  applyDashboardChange,
+} from "@/lib/supabase/realtime";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
 import type { CustomerWithAreas, DashboardFilters } from "@/types/database";
+import { filterByInvoiceType } from "@/types/database";
 import {
   FileText,
   CheckCircle2,
@@ -30,9 +35,16 @@ import {
   Plus,
   Download,
   RefreshCw,
+  FileSpreadsheet,
+  DatabaseBackup,
+  AlarmClock,
+  Wallet,
 } from "lucide-react";
 import { ImportYearDialog } from "./import-year-dialog";
+import { ImportExcelDialog } from "./import-excel-dialog";
 import { ExportDialog } from "./export-dialog";
+import { BackupDialog } from "./backup-dialog";
+import { FinanceDialog } from "./finance-dialog";
 import { logger } from "@/lib/logger";
 import {
   useKeyboardShortcuts,
@@ -41,6 +53,8 @@ import {
   ShortcutHint,
 } from "@/lib/keyboard-shortcuts";
 import { useNotifications } from "@/components/providers/notification-provider";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+import { summarizeOverdue } from "@/lib/notifications";
 import { ProgressCharts, type ChartFilter } from "./progress-charts";
 
 export function DashboardContent() {
@@ -51,15 +65,23 @@ export function DashboardContent() {
     isSuperAdmin,
   } = useAuth();
   const { settings, updateSettings } = useSettings();
-  const { setIsOpen: setNotificationSidebarOpen } = useNotifications();
+  const { invoiceTypeNames } = useInvoiceTypes();
+  const { setIsOpen: setNotificationSidebarOpen, setOverdue } =
+    useNotifications();
   const [data, setData] = useState<CustomerWithAreas[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showContractDialog, setShowContractDialog] = useState(false);
   const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showImportExcelDialog, setShowImportExcelDialog] = useState(false);
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showBackupDialog, setShowBackupDialog] = useState(false);
+  const [showFinanceDialog, setShowFinanceDialog] = useState(false);
   const [showShortcutsDialog, setShowShortcutsDialog] = useState(false);
   const [lastRefresh, setLastRefresh] = useState<Date>(new Date());
   const [chartFilter, setChartFilter] = useState<ChartFilter | null>(null);
+  const [highlightedCells, setHighlightedCells] = useState<Set<string>>(
+    new Set(),
+  );
   const [filters, setFilters] = useState<DashboardFilters>({
     year: new Date().getFullYear(),
     search: "",
@@ -159,6 +181,52 @@ export function DashboardContent() {
     return () => clearInterval(intervalId);
   }, [settings.autoRefresh, settings.refreshInterval, authLoading, loadData]);
 
+  // Realtime sync: patch data in place, highlight changed cells
+  const dataRef = useRef(data);
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    if (authLoading || isPlaceholderMode || !isSupabaseConfigured()) return;
+
+    let reloadTimeout: ReturnType<typeof setTimeout> | null = null;
+    const highlightTimeouts: ReturnType<typeof setTimeout>[] = [];
+
+    const unsubscribe = subscribeToDashboardChanges(filters.year, (change) => {
+      const result = applyDashboardChange(dataRef.current, change, filters.year);
+
+      if (result.needsReload) {
+        // Debounce - satu perubahan besar bisa memicu banyak event
+        if (reloadTimeout) clearTimeout(reloadTimeout);
+        reloadTimeout = setTimeout(() => loadData(true), 1000);
+        return;
+      }
+
+      dataRef.current = result.data;
+      setData(result.data);
+
+      if (result.changedCells.length > 0) {
+        setHighlightedCells((prev) => new Set([...prev, ...result.changedCells]));
+        highlightTimeouts.push(
+          setTimeout(() => {
+            setHighlightedCells((prev) => {
+              const next = new Set(prev);
+              result.changedCells.forEach((key) => next.delete(key));
+              return next;
+            });
+          }, 3000),
+        );
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (reloadTimeout) clearTimeout(reloadTimeout);
+      highlightTimeouts.forEach(clearTimeout);
+    };
+  }, [authLoading, isPlaceholderMode, filters.year, loadData]);
+
   // Keyboard shortcuts handler
   const handleShortcutAction = useCallback(
     (action: string) => {
@@ -234,6 +302,8 @@ export function DashboardContent() {
             ),
           }))
           .filter((customer) => customer.areas.length > 0);
+      case "invoice_type":
+        return filterByInvoiceType(data, chartFilter.value);
       case "status":
         return data
           .map((customer) => ({
@@ -253,6 +323,15 @@ export function DashboardContent() {
     }
   }, [data, chartFilter]);
 
+  // Periode lewat batas waktu, juga ditampilkan di sidebar notifikasi
+  const overdue = useMemo(() => summarizeOverdue(data), [data]);
+
+  useEffect(() => {
+    setOverdue(overdue);
+  }, [overdue, setOverdue]);
+
+  useEffect(() => () => setOverdue(null), [setOverdue]);
+
   // Calculate statistics
   const stats = {
     totalCustomers: data.length,
@@ -343,6 +422,24 @@ export function DashboardContent() {
                 <span className="hidden sm:inline">Export</span>
                 <ShortcutHint shortcut={SHORTCUTS.EXPORT} />
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowBackupDialog(true)}
+                className="flex-1 sm:flex-none"
+              >
+                <DatabaseBackup className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Backup</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowFinanceDialog(true)}
+                className="flex-1 sm:flex-none"
+              >
+                <Wallet className="mr-2 h-4 w-4" />
+                <span className="hidden sm:inline">Keuangan</span>
+              </Button>
               {isAdmin && (
                 <>
                   <Button
@@ -355,6 +452,16 @@ export function DashboardContent() {
                     <span className="hidden sm:inline">Import Tahun</span>
                     <span className="sm:hidden">Import</span>
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowImportExcelDialog(true)}
+                    className="flex-1 sm:flex-none"
+                  >
+                    <FileSpreadsheet className="mr-2 h-4 w-4" />
+                    <span className="hidden sm:inline">Import Excel</span>
+                    <span className="sm:hidden">Excel</span>
+                  </Button>
                   <Button
                     size="sm"
                     onClick={() => setShowContractDialog(true)}
@@ -381,7 +488,7 @@ export function DashboardContent() {
                   className="min-h-20"
                 />
               ) : (
-                <div className="grid gap-2 sm:gap-3 grid-cols-2 sm:grid-cols-3 lg:grid-cols-5">
+                <div className="grid gap-2 sm:gap-3 grid-cols-2 sm:grid-cols-3 lg:grid-cols-6">
                   <div className="flex items-center gap-3 p-2 sm:p-3 rounded-lg bg-muted/50 border">
                     <Building2 className="h-5 w-5 text-muted-foreground shrink-0" />
                     <div>
@@ -422,7 +529,7 @@ export function DashboardContent() {
                     </div>
                   </div>
 
-                  <div className="flex items-center gap-3 p-2 sm:p-3 rounded-lg bg-neutral-100 dark:bg-neutral-800/50 col-span-2 sm:col-span-1 border">
+                  <div className="flex items-center gap-3 p-2 sm:p-3 rounded-lg bg-neutral-100 dark:bg-neutral-800/50 border">
                     <AlertCircle className="h-5 w-5 text-neutral-500 shrink-0" />
                     <div>
                       <p className="text-xs text-muted-foreground">
@@ -433,6 +540,28 @@ export function DashboardContent() {
                       </p>
                     </div>
                   </div>
+
+                  <button
+                    type="button"
+                    onClick={() => setNotificationSidebarOpen(true)}
+                    className="flex items-center gap-3 p-2 sm:p-3 rounded-lg bg-rose-50 dark:bg-rose-950/30 border text-left hover:bg-rose-100 dark:hover:bg-rose-950/50 transition-colors"
+                    title="Lihat periode yang terlambat"
+                  >
+                    <AlarmClock className="h-5 w-5 text-rose-600 shrink-0" />
+                    <div>
+                      <p className="text-xs text-muted-foreground">
+                        Terlambat
+                      </p>
+                      <p className="text-lg sm:text-xl font-bold text-rose-600">
+                        {overdue.periods}
+                      </p>
+                      {overdue.contracts > 0 && (
+                        <p className="text-[10px] text-muted-foreground">
+                          {overdue.contracts} kontrak
+                        </p>
+                      )}
+                    </div>
+                  </button>
                 </div>
               )}
             </Card>
@@ -444,6 +573,7 @@ export function DashboardContent() {
               onFilterChange={setChartFilter}
               activeFilter={chartFilter}
               onRefresh={() => loadData()}
+              invoiceTypes={invoiceTypeNames}
             />
           </div>
 
@@ -472,6 +602,7 @@ export function DashboardContent() {
                 onRefresh={() => loadData()}
                 year={filters.year}
                 showPercentage={settings.showProgressPercentage}
+                highlightedCells={highlightedCells}
               />
             </div>
           </div>
@@ -491,6 +622,14 @@ export function DashboardContent() {
             onImportComplete={loadData}
           />
 
+          {/* Import Excel Dialog */}
+          <ImportExcelDialog
+            open={showImportExcelDialog}
+            onOpenChange={setShowImportExcelDialog}
+            currentYear={filters.year}
+            onImportComplete={loadData}
+          />
+
           {/* Export Dialog */}
           <ExportDialog
             open={showExportDialog}
@@ -499,6 +638,23 @@ export function DashboardContent() {
             year={filters.year}
           />
 
+          {/* Backup & Restore Dialog */}
+          <BackupDialog
+            open={showBackupDialog}
+            onOpenChange={setShowBackupDialog}
+            year={filters.year}
+            canRestore={isAdmin}
+            onRestoreComplete={loadData}
+          />
+
+          {/* Finance Dialog */}
+          <FinanceDialog
+            open={showFinanceDialog}
+            onOpenChange={setShowFinanceDialog}
+            data={data}
+            year={filters.year}
+          />
+
           {/* Keyboard Shortcuts Dialog */}
           <KeyboardShortcutsDialog
             open={showShortcutsDialog}
@@ -42,10 +42,18 @@ import {
 import type {
   ContractWithProgress,
   MonthlyProgressDetail,
+  Signatory,
 } from "@/types/database";
 import {
+  DEFAULT_DEADLINE_DAYS,
+  MAX_DEADLINE_DAYS,
+  MONTH_NAMES_FULL,
   PERIOD_OPTIONS,
+  getContractPeriodMonths,
+  getPeriodAnchorMonth,
   getPeriodMonths,
+  getPeriodRanges,
+  parseAmountInput,
   parsePeriodToNumber,
 } from "@/types/database";
 import {
@@ -56,11 +64,14 @@ import {
   fetchUniqueCustomerNames,
   fetchUniqueAreaNames,
   fetchUniqueContractNames,
+  fetchSignatories,
   migrateContractPeriod,
+  previewPeriodMigration,
   type PeriodMigrationConfig,
 } from "@/lib/supabase/data";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
+import { SignatorySelect } from "./signatory-select";
 
 // Short month names
 const SHORT_MONTH_NAMES = [
@@ -91,6 +102,7 @@ interface SignatureInput {
   id: string;
   name: string;
   role: string;
+  signatory_id: string | null; // null = diisi manual
 }
 
 // Helper to get month range label
@@ -103,11 +115,6 @@ function getMonthRangeLabel(startMonth: number, endMonth: number): string {
   }`;
 }
 
-// Helper to get the start month of a period given the end month
-function getPeriodStartMonth(endMonth: number, periodValue: number): number {
-  return endMonth - periodValue + 1;
-}
-
 // Generate progress options based on total signatures
 function generateProgressOptions(
   totalSignatures: number
@@ -151,6 +158,12 @@ export function EditContractDialog({
 
   // Period edit state
   const [selectedPeriod, setSelectedPeriod] = useState<number>(1);
+  const [deadlineDays, setDeadlineDays] = useState<number>(DEFAULT_DEADLINE_DAYS);
+  const [contractValue, setContractValue] = useState("");
+  const [periodAmount, setPeriodAmount] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [periodAnchorMonth, setPeriodAnchorMonth] = useState<number | null>(null);
   const [periodStep, setPeriodStep] = useState<"select" | "configure">(
     "select"
   );
@@ -179,6 +192,7 @@ export function EditContractDialog({
   const [customerOptions, setCustomerOptions] = useState<string[]>([]);
   const [areaOptions, setAreaOptions] = useState<string[]>([]);
   const [contractNameOptions, setContractNameOptions] = useState<string[]>([]);
+  const [signatoryOptions, setSignatoryOptions] = useState<Signatory[]>([]);
 
   // Get current period value from contract
   const currentPeriodValue = useMemo(() => {
@@ -192,17 +206,22 @@ export function EditContractDialog({
     return generateProgressOptions(contract.total_signatures);
   }, [contract]);
 
+  // First month of the new schedule, from the edited start date / anchor
+  const anchorMonth = contract
+    ? getPeriodAnchorMonth({
+        start_date: startDate || contract.start_date,
+        period_anchor_month: periodAnchorMonth,
+      })
+    : 1;
+
   // Calculate new active months based on selected period
   const newActiveMonths = useMemo(() => {
-    return getPeriodMonths(selectedPeriod);
-  }, [selectedPeriod]);
+    return getPeriodMonths(selectedPeriod, anchorMonth);
+  }, [selectedPeriod, anchorMonth]);
 
   // Calculate active month ranges for display
   const activeMonthRanges = useMemo(() => {
-    return newActiveMonths.map((endMonth) => ({
-      start: getPeriodStartMonth(endMonth, selectedPeriod),
-      end: endMonth,
-    }));
+    return getPeriodRanges(newActiveMonths, selectedPeriod);
   }, [newActiveMonths, selectedPeriod]);
 
   // Determine conversion direction
@@ -210,6 +229,11 @@ export function EditContractDialog({
   const isConvertingDown = selectedPeriod < currentPeriodValue && selectedPeriod !== 0.5;
   const isConvertingToHalfMonth = selectedPeriod === 0.5 && currentPeriodValue !== 0.5;
   const isPeriodChanged = selectedPeriod !== currentPeriodValue;
+  // Period end months move when the period, the anchor month or (without an
+  // anchor) the start month changes; stored progress has to be migrated
+  const isScheduleChanged =
+    isPeriodChanged ||
+    (!!contract && newActiveMonths.join() !== getContractPeriodMonths(contract).join());
 
   // Get months with data
   const monthsWithData = useMemo(() => {
@@ -283,7 +307,10 @@ export function EditContractDialog({
   const splitAffectedData = useMemo(() => {
     if (!contract || !isConvertingDown) return [];
 
-    const currentActiveMonths = getPeriodMonths(currentPeriodValue);
+    const currentRanges = getPeriodRanges(
+      getContractPeriodMonths(contract),
+      currentPeriodValue
+    );
     const affected: {
       sourceRange: { start: number; end: number };
       sourcePercentage: number;
@@ -291,11 +318,7 @@ export function EditContractDialog({
       targetRanges: { start: number; end: number }[];
     }[] = [];
 
-    for (const sourceEndMonth of currentActiveMonths) {
-      const sourceStartMonth = getPeriodStartMonth(
-        sourceEndMonth,
-        currentPeriodValue
-      );
+    for (const { start: sourceStartMonth, end: sourceEndMonth } of currentRanges) {
       const sourceProgress = contract.monthly_progress.find(
         (p) => p.month === sourceEndMonth
       );
@@ -332,10 +355,12 @@ export function EditContractDialog({
         fetchUniqueCustomerNames(),
         fetchUniqueAreaNames(),
         fetchUniqueContractNames(),
-      ]).then(([customers, areas, contracts]) => {
+        fetchSignatories().catch(() => [] as Signatory[]),
+      ]).then(([customers, areas, contracts, signatories]) => {
         setCustomerOptions(customers);
         setAreaOptions(areas);
         setContractNameOptions(contracts);
+        setSignatoryOptions(signatories);
       });
     }
   }, [open]);
@@ -355,9 +380,16 @@ export function EditContractDialog({
           id: sig.id || `sig-${idx}`,
           name: sig.name,
           role: sig.role,
+          signatory_id: sig.signatory_id ?? null,
         }))
       );
       setSelectedPeriod(currentPeriodValue);
+      setDeadlineDays(contract.deadline_days ?? DEFAULT_DEADLINE_DAYS);
+      setContractValue(contract.contract_value?.toString() ?? "");
+      setPeriodAmount(contract.period_amount?.toString() ?? "");
+      setStartDate(contract.start_date);
+      setEndDate(contract.end_date);
+      setPeriodAnchorMonth(contract.period_anchor_month);
       setPeriodStep("select");
       setMergeMode("highest");
       setManualMergeValue(0);
@@ -393,13 +425,28 @@ export function EditContractDialog({
     if (validSignatures.length === 0) {
       return "Minimal harus ada 1 tanda tangan dengan nama yang diisi";
     }
+    if (deadlineDays < 0 || deadlineDays > MAX_DEADLINE_DAYS) {
+      return `Batas waktu harus antara 0 dan ${MAX_DEADLINE_DAYS} hari`;
+    }
+    if (
+      Number.isNaN(parseAmountInput(contractValue)) ||
+      Number.isNaN(parseAmountInput(periodAmount))
+    ) {
+      return "Nilai kontrak dan nilai per periode harus berupa angka rupiah";
+    }
+    if (!startDate || !endDate) {
+      return "Tanggal mulai dan selesai kontrak harus diisi";
+    }
+    if (endDate < startDate) {
+      return "Tanggal selesai tidak boleh sebelum tanggal mulai";
+    }
     return null;
   };
 
   // Signature handlers
   const handleAddSignature = () => {
     const newId = `sig-new-${Date.now()}`;
-    setSignatures([...signatures, { id: newId, name: "", role: "" }]);
+    setSignatures([...signatures, { id: newId, name: "", role: "", signatory_id: null }]);
   };
 
   const handleRemoveSignature = (id: string) => {
@@ -408,13 +455,33 @@ export function EditContractDialog({
     }
   };
 
+  // Mengubah nama/jabatan manual melepas tautan ke direktori
   const handleSignatureChange = (
     id: string,
     field: "name" | "role",
     value: string
   ) => {
     setSignatures(
-      signatures.map((s) => (s.id === id ? { ...s, [field]: value } : s))
+      signatures.map((s) =>
+        s.id === id ? { ...s, [field]: value, signatory_id: null } : s
+      )
+    );
+  };
+
+  const handleSignatorySelect = (id: string, signatory: Signatory | null) => {
+    setSignatures(
+      signatures.map((s) =>
+        s.id !== id
+          ? s
+          : signatory
+            ? {
+                ...s,
+                name: signatory.name,
+                role: signatory.position,
+                signatory_id: signatory.id,
+              }
+            : { ...s, signatory_id: null }
+      )
     );
   };
 
@@ -422,6 +489,100 @@ export function EditContractDialog({
   const currentYear =
     contract?.monthly_progress[0]?.year || new Date().getFullYear();
 
+  // Build migration config based on user selections
+  const buildMigrationConfig = (contractId: string): PeriodMigrationConfig => {
+    const migrationConfig: PeriodMigrationConfig = {
+      contractId,
+      year: currentYear,
+      newPeriod: selectedPeriod,
+      halfMonthMode: isConvertingToHalfMonth ? halfMonthMode : undefined,
+      mergeMode: mergeMode === "manual" ? "highest" : mergeMode,
+      splitMode: splitMode === "manual" ? "duplicate" : splitMode,
+      schedule: {
+        start_date: startDate,
+        end_date: endDate,
+        period_anchor_month: periodAnchorMonth,
+      },
+    };
+
+    // Configure merge (converting UP)
+    if (isConvertingUp && mergeAffectedData.length > 0) {
+      migrationConfig.mergeConfig = mergeAffectedData.map((data) => {
+        let sourceMonth: number;
+
+        if (mergeMode === "highest") {
+          const highestMonth = data.sourceMonths.reduce(
+            (highest, current) =>
+              current.percentage > highest.percentage ? current : highest
+          );
+          sourceMonth = highestMonth.month;
+        } else if (mergeMode === "last") {
+          sourceMonth = data.targetRange.end;
+        } else {
+          const matchingMonth = data.sourceMonths.find(
+            (m) => m.percentage === manualMergeValue
+          );
+          sourceMonth =
+            matchingMonth?.month || data.sourceMonths[0].month;
+        }
+
+        // Get notes from selected months in this range
+        const rangeNotes = selectedNotes
+          .filter(
+            (month) =>
+              month >= data.targetRange.start &&
+              month <= data.targetRange.end
+          )
+          .map((month) => {
+            const monthData = data.sourceMonths.find(
+              (m) => m.month === month
+            );
+            return monthData?.notes || "";
+          })
+          .filter((note) => note.trim() !== "");
+
+        return {
+          targetMonth: data.targetRange.end,
+          sourceMonth,
+          notes: rangeNotes,
+        };
+      });
+    }
+
+    // Configure split (converting DOWN)
+    if (isConvertingDown && splitAffectedData.length > 0) {
+      migrationConfig.splitConfig = splitAffectedData.map((data) => {
+        const targetMonths = data.targetRanges.map((targetRange) => {
+          let targetPercentage: number;
+
+          if (splitMode === "duplicate") {
+            targetPercentage = data.sourcePercentage;
+          } else if (splitMode === "last") {
+            targetPercentage =
+              targetRange.end === data.sourceRange.end
+                ? data.sourcePercentage
+                : 0;
+          } else {
+            targetPercentage =
+              manualSplitValues[targetRange.end] ?? data.sourcePercentage;
+          }
+
+          return {
+            month: targetRange.end,
+            percentage: targetPercentage,
+          };
+        });
+
+        return {
+          sourceMonth: data.sourceRange.end,
+          targetMonths,
+        };
+      });
+    }
+
+    return migrationConfig;
+  };
+
   const handleSave = async () => {
     if (!contract) return;
 
@@ -437,6 +598,13 @@ export function EditContractDialog({
 
     try {
       if (isSupabaseConfigured()) {
+        // Migrasi periode dicoba dulu (dry run) sebelum menyimpan apa pun, agar
+        // kontrak tidak setengah tersimpan jika migrasi ditolak
+        const migrationConfig = isScheduleChanged ? buildMigrationConfig(contract.id) : null;
+        if (migrationConfig) {
+          await previewPeriodMigration(migrationConfig);
+        }
+
         // Get or create customer by name
         const customer = await getOrCreateCustomer(formData.customer.trim());
         if (!customer) {
@@ -456,8 +624,19 @@ export function EditContractDialog({
           area_id: area.id,
           name: formData.name.trim(),
           notes: formData.notes.trim() || null,
-          year: currentYear,
-        });
+          deadline_days: deadlineDays,
+          contract_value: parseAmountInput(contractValue),
+          period_amount: parseAmountInput(periodAmount),
+          // Jadwal yang menggeser akhir periode disimpan oleh migrasi di bawah
+          ...(migrationConfig
+            ? {}
+            : {
+                start_date: startDate,
+                end_date: endDate,
+                period_anchor_month: periodAnchorMonth,
+                year: parseInt(startDate.slice(0, 4)), // Tahun kontrak = tahun mulai
+              }),
+        }, contract.updated_at);
 
         // Update signatures
         const validSignatures = signatures
@@ -466,93 +645,12 @@ export function EditContractDialog({
             id: s.id.startsWith("sig-new-") ? undefined : s.id, // Keep existing IDs, undefined for new ones
             name: s.name.trim(),
             role: s.role.trim() || "Pejabat",
+            signatory_id: s.signatory_id,
           }));
         await updateContractSignatures(contract.id, validSignatures);
 
-        // Handle period migration if changed
-        if (isPeriodChanged) {
-          const migrationConfig: PeriodMigrationConfig = {
-            contractId: contract.id,
-            year: currentYear,
-            newPeriod: selectedPeriod,
-            halfMonthMode: isConvertingToHalfMonth ? halfMonthMode : undefined,
-          };
-
-          // Configure merge (converting UP)
-          if (isConvertingUp && mergeAffectedData.length > 0) {
-            migrationConfig.mergeConfig = mergeAffectedData.map((data) => {
-              let sourceMonth: number;
-
-              if (mergeMode === "highest") {
-                const highestMonth = data.sourceMonths.reduce(
-                  (highest, current) =>
-                    current.percentage > highest.percentage ? current : highest
-                );
-                sourceMonth = highestMonth.month;
-              } else if (mergeMode === "last") {
-                sourceMonth = data.targetRange.end;
-              } else {
-                const matchingMonth = data.sourceMonths.find(
-                  (m) => m.percentage === manualMergeValue
-                );
-                sourceMonth =
-                  matchingMonth?.month || data.sourceMonths[0].month;
-              }
-
-              // Get notes from selected months in this range
-              const rangeNotes = selectedNotes
-                .filter(
-                  (month) =>
-                    month >= data.targetRange.start &&
-                    month <= data.targetRange.end
-                )
-                .map((month) => {
-                  const monthData = data.sourceMonths.find(
-                    (m) => m.month === month
-                  );
-                  return monthData?.notes || "";
-                })
-                .filter((note) => note.trim() !== "");
-
-              return {
-                targetMonth: data.targetRange.end,
-                sourceMonth,
-                notes: rangeNotes,
-              };
-            });
-          }
-
-          // Configure split (converting DOWN)
-          if (isConvertingDown && splitAffectedData.length > 0) {
-            migrationConfig.splitConfig = splitAffectedData.map((data) => {
-              const targetMonths = data.targetRanges.map((targetRange) => {
-                let targetPercentage: number;
-
-                if (splitMode === "duplicate") {
-                  targetPercentage = data.sourcePercentage;
-                } else if (splitMode === "last") {
-                  targetPercentage =
-                    targetRange.end === data.sourceRange.end
-                      ? data.sourcePercentage
-                      : 0;
-                } else {
-                  targetPercentage =
-                    manualSplitValues[targetRange.end] ?? data.sourcePercentage;
-                }
-
-                return {
-                  month: targetRange.end,
-                  percentage: targetPercentage,
-                };
-              });
-
-              return {
-                sourceMonth: data.sourceRange.end,
-                targetMonths,
-              };
-            });
-          }
-
+        // Handle period/schedule migration if changed
+        if (migrationConfig) {
           await migrateContractPeriod(migrationConfig);
         }
 
@@ -634,7 +732,7 @@ export function EditContractDialog({
             <span className="flex items-center gap-2">
               <Calendar className="h-4 w-4" />
               Periode
-              {isPeriodChanged && (
+              {isScheduleChanged && (
                 <Badge variant="secondary" className="ml-1 text-xs">
                   Berubah
                 </Badge>
@@ -732,6 +830,19 @@ export function EditContractDialog({
                           <span className="text-xs font-medium text-muted-foreground w-6">
                             #{index + 1}
                           </span>
+                          <div className="flex-1">
+                            <SignatorySelect
+                              signatories={signatoryOptions}
+                              customerId={contract.customer_id}
+                              value={sig.signatory_id}
+                              onSelect={(signatory) =>
+                                handleSignatorySelect(sig.id, signatory)
+                              }
+                            />
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground w-6"></span>
                           <Input
                             placeholder="Nama penanda tangan"
                             value={sig.name}
@@ -821,8 +932,108 @@ export function EditContractDialog({
                 </Select>
               </div>
 
+              {/* Contract dates */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="start_date">Tanggal Mulai</Label>
+                  <Input
+                    id="start_date"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="end_date">Tanggal Selesai</Label>
+                  <Input
+                    id="end_date"
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Kontrak tampil di setiap tahun yang dilewatinya.
+              </p>
+
+              {/* Period anchor */}
+              <div className="space-y-2">
+                <Label htmlFor="period_anchor_month">Bulan Awal Periode</Label>
+                <Select
+                  value={periodAnchorMonth?.toString() ?? "auto"}
+                  onValueChange={(value) =>
+                    setPeriodAnchorMonth(value === "auto" ? null : parseInt(value))
+                  }
+                >
+                  <SelectTrigger id="period_anchor_month">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Ikuti tanggal mulai</SelectItem>
+                    {MONTH_NAMES_FULL.map((month, index) => (
+                      <SelectItem key={month} value={(index + 1).toString()}>
+                        {month}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Jadwal periode dihitung dari bulan ini. Mengubahnya (atau
+                  tanggal mulai) menggeser bulan aktif; progress yang sudah ada
+                  dipindah ke akhir periode baru saat disimpan.
+                </p>
+              </div>
+
+              {/* Deadline */}
+              <div className="space-y-2">
+                <Label htmlFor="deadline_days">Batas Waktu (hari)</Label>
+                <Input
+                  id="deadline_days"
+                  type="number"
+                  min={0}
+                  max={MAX_DEADLINE_DAYS}
+                  value={deadlineDays}
+                  onChange={(e) => setDeadlineDays(parseInt(e.target.value) || 0)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Setiap periode jatuh tempo sekian hari setelah periode
+                  berakhir (P1 kontrak per 1/2 bulan berakhir tanggal 20).
+                  Periode di bawah 100% setelah jatuh tempo dihitung terlambat.
+                </p>
+              </div>
+
+              {/* Billing values */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="contract_value">Nilai Kontrak (Rp)</Label>
+                  <Input
+                    id="contract_value"
+                    inputMode="numeric"
+                    placeholder="mis. 120.000.000"
+                    value={contractValue}
+                    onChange={(e) => setContractValue(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="period_amount">Nilai per Periode (Rp)</Label>
+                  <Input
+                    id="period_amount"
+                    inputMode="numeric"
+                    placeholder="Otomatis dari nilai kontrak"
+                    value={periodAmount}
+                    onChange={(e) => setPeriodAmount(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Nilai tagihan setiap periode yang BAPP-nya selesai. Jika nilai
+                per periode kosong, nilai kontrak dibagi rata ke semua periode
+                dalam setahun.
+              </p>
+
               {/* Period Change Preview */}
-              {isPeriodChanged && (
+              {isScheduleChanged && (
                 <div className="rounded-lg border p-4 space-y-3">
                   <div className="flex items-center gap-2 text-sm font-medium">
                     <AlertTriangle className="h-4 w-4 text-amber-500" />
@@ -880,7 +1091,8 @@ export function EditContractDialog({
 
                     <p className="text-xs text-muted-foreground">
                       Data dari beberapa bulan akan digabung. Pilih cara
-                      penggabungan:
+                      penggabungan (tahun lain dalam masa kontrak memakai cara
+                      yang sama):
                     </p>
 
                     <div className="space-y-2">
@@ -997,7 +1209,8 @@ export function EditContractDialog({
                     </div>
 
                     <p className="text-xs text-muted-foreground">
-                      Data akan dibagi ke beberapa bulan. Pilih cara pembagian:
+                      Data akan dibagi ke beberapa bulan. Pilih cara pembagian
+                      (tahun lain dalam masa kontrak memakai cara yang sama):
                     </p>
 
                     <div className="space-y-2">
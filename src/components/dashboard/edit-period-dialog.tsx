@@ -21,17 +21,25 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
-import { Loader2, AlertTriangle, ArrowRight, FileText } from "lucide-react";
+import { Loader2, AlertTriangle, ArrowRight, FileText, Eye } from "lucide-react";
 import {
   PERIOD_OPTIONS,
+  getContractPeriodMonths,
+  getPeriodAnchorMonth,
   getPeriodMonths,
+  getPeriodRanges,
   parsePeriodToNumber,
+  isHalfMonthPeriod,
+  calculateProgress,
 } from "@/types/database";
 import type { ContractWithProgress } from "@/types/database";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
 import {
   migrateContractPeriod,
+  previewPeriodMigration,
+  type PeriodMigrationCell,
   type PeriodMigrationConfig,
+  type PeriodMigrationPreview,
 } from "@/lib/supabase/data";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
 
@@ -68,11 +76,6 @@ function getMonthRangeLabel(startMonth: number, endMonth: number): string {
   }`;
 }
 
-// Helper to get the start month of a period given the end month
-function getPeriodStartMonth(endMonth: number, periodValue: number): number {
-  return endMonth - periodValue + 1;
-}
-
 // Generate progress options based on total signatures
 function generateProgressOptions(
   totalSignatures: number
@@ -91,6 +94,19 @@ function generateProgressOptions(
   return options;
 }
 
+// Summary of one cell in the migration preview
+function describeMigrationCell(
+  cell: PeriodMigrationCell,
+  totalSignatures: number
+): string {
+  const { percentage } = calculateProgress(
+    Math.min(cell.completed_signatures, totalSignatures),
+    totalSignatures,
+    cell.is_upload_completed
+  );
+  return cell.notes ? `${percentage}% + catatan` : `${percentage}%`;
+}
+
 export function EditPeriodDialog({
   open,
   onOpenChange,
@@ -99,7 +115,11 @@ export function EditPeriodDialog({
 }: EditPeriodDialogProps) {
   const [selectedPeriod, setSelectedPeriod] = useState<number>(1);
   const [isUpdating, setIsUpdating] = useState(false);
-  const [step, setStep] = useState<"select" | "configure">("select");
+  const [step, setStep] = useState<"select" | "configure" | "preview">(
+    "select"
+  );
+  const [preview, setPreview] = useState<PeriodMigrationPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   // Configuration for merge (converting UP)
   const [mergeMode, setMergeMode] = useState<"highest" | "last" | "manual">(
@@ -133,17 +153,15 @@ export function EditPeriodDialog({
     return generateProgressOptions(contract.total_signatures);
   }, [contract]);
 
-  // Calculate new active months based on selected period
+  // Calculate new active months based on selected period, from the
+  // contract's period anchor
   const newActiveMonths = useMemo(() => {
-    return getPeriodMonths(selectedPeriod);
-  }, [selectedPeriod]);
+    return getPeriodMonths(selectedPeriod, contract ? getPeriodAnchorMonth(contract) : 1);
+  }, [selectedPeriod, contract]);
 
   // Calculate active month ranges for display
   const activeMonthRanges = useMemo(() => {
-    return newActiveMonths.map((endMonth) => ({
-      start: getPeriodStartMonth(endMonth, selectedPeriod),
-      end: endMonth,
-    }));
+    return getPeriodRanges(newActiveMonths, selectedPeriod);
   }, [newActiveMonths, selectedPeriod]);
 
   // Determine conversion direction
@@ -225,7 +243,10 @@ export function EditPeriodDialog({
   const splitAffectedData = useMemo(() => {
     if (!contract || !isConvertingDown) return [];
 
-    const currentActiveMonths = getPeriodMonths(currentPeriodValue);
+    const currentRanges = getPeriodRanges(
+      getContractPeriodMonths(contract),
+      currentPeriodValue
+    );
     const affected: {
       sourceRange: { start: number; end: number };
       sourcePercentage: number;
@@ -233,11 +254,7 @@ export function EditPeriodDialog({
       targetRanges: { start: number; end: number }[];
     }[] = [];
 
-    for (const sourceEndMonth of currentActiveMonths) {
-      const sourceStartMonth = getPeriodStartMonth(
-        sourceEndMonth,
-        currentPeriodValue
-      );
+    for (const { start: sourceStartMonth, end: sourceEndMonth } of currentRanges) {
       const sourceProgress = contract.monthly_progress.find(
         (p) => p.month === sourceEndMonth
       );
@@ -278,6 +295,7 @@ export function EditPeriodDialog({
       setSelectedNotes([]);
       setSplitMode("duplicate");
       setManualSplitValues({});
+      setPreview(null);
     }
   }, [open, contract, currentPeriodValue]);
 
@@ -294,19 +312,131 @@ export function EditPeriodDialog({
     }
   }, [splitMode, splitAffectedData]);
 
-  // Handle next step
+  // Handle next step: select -> configure (if needed) -> preview -> save
   const handleNext = () => {
     if (hasAffectedData && step === "select") {
       setStep("configure");
+    } else if (step !== "preview" && isSupabaseConfigured()) {
+      handlePreview();
     } else {
       handleSave();
     }
   };
 
+  const handleBack = () => {
+    setStep(step === "preview" && hasAffectedData ? "configure" : "select");
+  };
+
   // Get year from contract's monthly progress
   const currentYear =
     contract?.monthly_progress[0]?.year || new Date().getFullYear();
 
+  // Build migration config based on user selections
+  const buildMigrationConfig = (contractId: string): PeriodMigrationConfig => {
+    const migrationConfig: PeriodMigrationConfig = {
+      contractId,
+      year: currentYear,
+      newPeriod: selectedPeriod,
+      halfMonthMode: isConvertingToHalfMonth ? halfMonthMode : undefined,
+      mergeMode: mergeMode === "manual" ? "highest" : mergeMode,
+      splitMode: splitMode === "manual" ? "duplicate" : splitMode,
+    };
+
+    // Configure merge (converting UP)
+    if (isConvertingUp && mergeAffectedData.length > 0) {
+      migrationConfig.mergeConfig = mergeAffectedData.map((data) => {
+        // Determine which source month to use based on mode
+        let sourceMonth: number;
+
+        if (mergeMode === "highest") {
+          // Find month with highest percentage
+          const highestMonth = data.sourceMonths.reduce(
+            (highest, current) =>
+              current.percentage > highest.percentage ? current : highest
+          );
+          sourceMonth = highestMonth.month;
+        } else if (mergeMode === "last") {
+          // Use last month of the period
+          sourceMonth = data.targetRange.end;
+        } else {
+          // Manual - find a month with that percentage, or use highest
+          const matchingMonth = data.sourceMonths.find(
+            (m) => m.percentage === manualMergeValue
+          );
+          sourceMonth = matchingMonth?.month || data.sourceMonths[0].month;
+        }
+
+        // Get selected notes for this range
+        const notesForRange = monthsWithNotes
+          .filter(
+            (m) =>
+              m.month >= data.targetRange.start &&
+              m.month <= data.targetRange.end &&
+              selectedNotes.includes(m.month)
+          )
+          .map((m) => `[${SHORT_MONTH_NAMES[m.month - 1]}] ${m.notes}`);
+
+        return {
+          targetMonth: data.targetRange.end,
+          sourceMonth,
+          notes: notesForRange,
+        };
+      });
+    }
+
+    // Configure split (converting DOWN)
+    if (isConvertingDown && splitAffectedData.length > 0) {
+      migrationConfig.splitConfig = splitAffectedData.map((data) => {
+        const targetMonths = data.targetRanges.map((range) => {
+          let percentage: number;
+
+          if (splitMode === "duplicate") {
+            percentage = data.sourcePercentage;
+          } else if (splitMode === "last") {
+            // Only last range gets the percentage
+            const isLast =
+              range.end ===
+              data.targetRanges[data.targetRanges.length - 1].end;
+            percentage = isLast ? data.sourcePercentage : 0;
+          } else {
+            // Manual
+            percentage =
+              manualSplitValues[range.end] ?? data.sourcePercentage;
+          }
+
+          return {
+            month: range.end,
+            percentage,
+          };
+        });
+
+        return {
+          sourceMonth: data.sourceRange.end,
+          targetMonths,
+        };
+      });
+    }
+
+    return migrationConfig;
+  };
+
+  // Dry-run the migration on the server and show the resulting changes
+  const handlePreview = async () => {
+    if (!contract) return;
+
+    setIsPreviewing(true);
+    try {
+      const result = await previewPeriodMigration(buildMigrationConfig(contract.id));
+      setPreview(result);
+      setStep("preview");
+    } catch (error) {
+      console.error("Failed to preview period migration:", error);
+      showErrorToast(error, "Gagal memuat preview perubahan periode");
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   // Handle save
   const handleSave = async () => {
     if (!contract) return;
@@ -315,90 +445,8 @@ export function EditPeriodDialog({
 
     try {
       if (isSupabaseConfigured()) {
-        // Build migration config based on user selections
-        const migrationConfig: PeriodMigrationConfig = {
-          contractId: contract.id,
-          year: currentYear,
-          newPeriod: selectedPeriod,
-          halfMonthMode: isConvertingToHalfMonth ? halfMonthMode : undefined,
-        };
-
-        // Configure merge (converting UP)
-        if (isConvertingUp && mergeAffectedData.length > 0) {
-          migrationConfig.mergeConfig = mergeAffectedData.map((data) => {
-            // Determine which source month to use based on mode
-            let sourceMonth: number;
-
-            if (mergeMode === "highest") {
-              // Find month with highest percentage
-              const highestMonth = data.sourceMonths.reduce(
-                (highest, current) =>
-                  current.percentage > highest.percentage ? current : highest
-              );
-              sourceMonth = highestMonth.month;
-            } else if (mergeMode === "last") {
-              // Use last month of the period
-              sourceMonth = data.targetRange.end;
-            } else {
-              // Manual - find a month with that percentage, or use highest
-              const matchingMonth = data.sourceMonths.find(
-                (m) => m.percentage === manualMergeValue
-              );
-              sourceMonth = matchingMonth?.month || data.sourceMonths[0].month;
-            }
-
-            // Get selected notes for this range
-            const notesForRange = monthsWithNotes
-              .filter(
-                (m) =>
-                  m.month >= data.targetRange.start &&
-                  m.month <= data.targetRange.end &&
-                  selectedNotes.includes(m.month)
-              )
-              .map((m) => `[${SHORT_MONTH_NAMES[m.month - 1]}] ${m.notes}`);
-
-            return {
-              targetMonth: data.targetRange.end,
-              sourceMonth,
-              notes: notesForRange,
-            };
-          });
-        }
-
-        // Configure split (converting DOWN)
-        if (isConvertingDown && splitAffectedData.length > 0) {
-          migrationConfig.splitConfig = splitAffectedData.map((data) => {
-            const targetMonths = data.targetRanges.map((range) => {
-              let percentage: number;
-
-              if (splitMode === "duplicate") {
-                percentage = data.sourcePercentage;
-              } else if (splitMode === "last") {
-                // Only last range gets the percentage
-                const isLast =
-                  range.end ===
-                  data.targetRanges[data.targetRanges.length - 1].end;
-                percentage = isLast ? data.sourcePercentage : 0;
-              } else {
-                // Manual
-                percentage =
-                  manualSplitValues[range.end] ?? data.sourcePercentage;
-              }
-
-              return {
-                month: range.end,
-                percentage,
-              };
-            });
-
-            return {
-              sourceMonth: data.sourceRange.end,
-              targetMonths,
-            };
-          });
-        }
-
-        // Execute migration
+        // Execute migration (one transaction on the server)
+        const migrationConfig = buildMigrationConfig(contract.id);
         await migrateContractPeriod(migrationConfig);
 
         console.log("Period migrated:", migrationConfig);
@@ -421,7 +469,7 @@ export function EditPeriodDialog({
       onPeriodUpdate?.();
     } catch (error) {
       console.error("Failed to update period:", error);
-      showErrorToast("Gagal mengubah periode");
+      showErrorToast(error, "Gagal mengubah periode");
     } finally {
       setIsUpdating(false);
     }
@@ -504,8 +552,78 @@ export function EditPeriodDialog({
                 </div>
               )}
             </div>
+          ) : step === "preview" ? (
+            <div className="space-y-4">
+              {/* Dry-run result from the server */}
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="outline">{preview?.periodBefore}</Badge>
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                <Badge>{preview?.periodAfter}</Badge>
+                <span className="text-muted-foreground">
+                  {preview?.changes.length || 0} cell berubah
+                </span>
+              </div>
+
+              {!preview || preview.changes.length === 0 ? (
+                <p className="rounded-lg border p-4 text-center text-sm text-muted-foreground">
+                  Tidak ada data progress yang berubah, hanya periode kontrak.
+                </p>
+              ) : (
+                <div className="rounded-lg border divide-y">
+                  <div className="grid grid-cols-3 gap-2 px-3 py-2 text-xs font-medium text-muted-foreground">
+                    <span>Bulan</span>
+                    <span>Sebelum</span>
+                    <span>Sesudah</span>
+                  </div>
+                  {preview.changes.map((change) => (
+                    <div
+                      key={`${change.year}-${change.month}-${change.subPeriod}`}
+                      className="grid grid-cols-3 gap-2 px-3 py-2 text-sm"
+                    >
+                      <span className="font-medium">
+                        {SHORT_MONTH_NAMES[change.month - 1]} {change.year}
+                        {(change.subPeriod === 2 ||
+                          isHalfMonthPeriod(preview.periodAfter)) &&
+                          ` (P${change.subPeriod})`}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {describeMigrationCell(
+                          change.before,
+                          contract.total_signatures
+                        )}
+                      </span>
+                      <span
+                        className={
+                          change.after.completed_signatures === 0 &&
+                          !change.after.is_upload_completed &&
+                          !change.after.notes
+                            ? "text-rose-600"
+                            : "text-emerald-600"
+                        }
+                      >
+                        {describeMigrationCell(
+                          change.after,
+                          contract.total_signatures
+                        )}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                <Eye className="h-3 w-3" />
+                Preview dihitung di server tanpa menyimpan. Perubahan baru
+                diterapkan setelah Anda menekan Simpan Perubahan.
+              </p>
+            </div>
           ) : (
             <div className="space-y-6 py-4">
+              <p className="text-xs text-muted-foreground">
+                Pilihan di bawah berlaku untuk tahun {currentYear}; tahun lain
+                dalam masa kontrak dimigrasi dengan cara yang sama.
+              </p>
+
               {/* Configure Merge (Converting UP) */}
               {isConvertingUp &&
                 mergeAffectedData.map((data, idx) => (
@@ -800,7 +918,7 @@ export function EditPeriodDialog({
           )}
 
           {/* Half-Month Configuration */}
-          {isConvertingToHalfMonth && (
+          {isConvertingToHalfMonth && step !== "preview" && (
             <div className="space-y-4 rounded-lg border p-4 bg-amber-50/50 dark:bg-amber-950/20">
               <div className="flex items-center gap-2">
                 <AlertTriangle className="h-4 w-4 text-amber-500" />
@@ -847,8 +965,8 @@ export function EditPeriodDialog({
         </div>
 
         <DialogFooter className="px-6 pb-6 pt-4 border-t">
-          {step === "configure" && (
-            <Button variant="outline" onClick={() => setStep("select")}>
+          {step !== "select" && (
+            <Button variant="outline" onClick={handleBack}>
               Kembali
             </Button>
           )}
@@ -857,13 +975,21 @@ export function EditPeriodDialog({
           </Button>
           <Button
             onClick={handleNext}
-            disabled={isUpdating || selectedPeriod === currentPeriodValue}
+            disabled={
+              isUpdating ||
+              isPreviewing ||
+              selectedPeriod === currentPeriodValue
+            }
           >
-            {isUpdating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {(isUpdating || isPreviewing) && (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            )}
             {step === "select" &&
             hasAffectedData &&
             selectedPeriod !== currentPeriodValue
               ? "Lanjutkan"
+              : step !== "preview" && isSupabaseConfigured()
+              ? "Lihat Preview"
               : "Simpan Perubahan"}
           </Button>
         </DialogFooter>
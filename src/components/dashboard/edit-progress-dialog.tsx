@@ -15,14 +15,135 @@ import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Save, FileText, PenTool, StickyNote, CheckCircle, XCircle } from "lucide-react";
-import type { ContractWithProgress } from "@/types/database";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Save, FileText, PenTool, StickyNote, CheckCircle, XCircle, AlertTriangle } from "lucide-react";
+import type {
+  ContractWithProgress,
+  MonthlyProgressDetail,
+  MonthlyProgressSnapshot,
+  SignatureDetail,
+} from "@/types/database";
 import { MONTH_NAMES_FULL, isHalfMonthPeriod } from "@/types/database";
 import { updateMonthlyProgress } from "@/lib/supabase/data";
 import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { ConflictError } from "@/lib/error-translator";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
 import { parseFileUrl, type FilePreviewInfo } from "@/lib/file-preview";
 
+type ProgressValues = Omit<MonthlyProgressSnapshot, "updated_at">;
+
+// Satu field yang diubah user lain sejak form dibuka
+interface ConflictChange {
+  key: string;
+  label: string;
+  before: string;
+  theirs: string;
+  mine: string | null; // Nilai dari form jika bentrok dengan perubahan user lain
+}
+
+function toSnapshot(progress: MonthlyProgressDetail): MonthlyProgressSnapshot {
+  return {
+    updated_at: progress.updated_at,
+    upload_link: progress.upload_link || null,
+    is_upload_completed: progress.is_upload_completed,
+    notes: progress.notes || null,
+    signatures: Object.fromEntries(
+      progress.signatures.map((sig) => [sig.id, sig.is_completed])
+    ),
+  };
+}
+
+const formatText = (value: string | null) => value || "(kosong)";
+const formatDone = (value: boolean) => (value ? "Selesai" : "Belum");
+
+function describeConflict(
+  base: ProgressValues,
+  mine: ProgressValues,
+  theirs: ProgressValues,
+  signatures: SignatureDetail[]
+): ConflictChange[] {
+  const fields = [
+    {
+      key: "notes",
+      label: "Catatan",
+      get: (v: ProgressValues) => formatText(v.notes || null),
+    },
+    {
+      key: "is_upload_completed",
+      label: "Upload Dokumen",
+      get: (v: ProgressValues) => formatDone(v.is_upload_completed),
+    },
+    {
+      key: "upload_link",
+      label: "Link Dokumen",
+      get: (v: ProgressValues) => formatText(v.upload_link || null),
+    },
+    ...signatures.map((sig) => ({
+      key: sig.id,
+      label: `TTD ${sig.name}`,
+      get: (v: ProgressValues) => formatDone(v.signatures[sig.id] || false),
+    })),
+  ];
+
+  return fields
+    .filter((field) => field.get(theirs) !== field.get(base))
+    .map((field) => {
+      const mineChanged = field.get(mine) !== field.get(base);
+      return {
+        key: field.key,
+        label: field.label,
+        before: field.get(base),
+        theirs: field.get(theirs),
+        mine:
+          mineChanged && field.get(mine) !== field.get(theirs)
+            ? field.get(mine)
+            : null,
+      };
+    });
+}
+
+// Ambil perubahan dari form, sisanya dari data terbaru di server
+function mergeValues(
+  base: ProgressValues,
+  mine: ProgressValues,
+  theirs: ProgressValues
+): ProgressValues {
+  const pick = <T,>(b: T, m: T, t: T) => (m !== b ? m : t);
+  const signatureIds = new Set([
+    ...Object.keys(mine.signatures),
+    ...Object.keys(theirs.signatures),
+  ]);
+
+  return {
+    upload_link: pick(base.upload_link, mine.upload_link, theirs.upload_link),
+    is_upload_completed: pick(
+      base.is_upload_completed,
+      mine.is_upload_completed,
+      theirs.is_upload_completed
+    ),
+    notes: pick(base.notes, mine.notes, theirs.notes),
+    signatures: Object.fromEntries(
+      [...signatureIds].map((id) => [
+        id,
+        pick(
+          base.signatures[id] || false,
+          mine.signatures[id] || false,
+          theirs.signatures[id] || false
+        ),
+      ])
+    ),
+  };
+}
+
 interface EditProgressDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -108,19 +229,54 @@ export function EditProgressDialog({
     (p) => p.month === month && p.sub_period === subPeriod
   );
 
-  // Initialize form state when dialog opens
-  useEffect(() => {
-    if (open && monthProgress) {
-      setUploadLink(monthProgress.upload_link || "");
-      setIsUploadCompleted(monthProgress.is_upload_completed);
-      setNotes(monthProgress.notes || "");
-      const statuses: Record<string, boolean> = {};
-      monthProgress.signatures.forEach((sig) => {
-        statuses[sig.id] = sig.is_completed;
-      });
-      setSignatureStatuses(statuses);
-    }
-  }, [open, monthProgress]);
+  // Data saat form dibuka - dasar pengecekan konflik & merge
+  const [baseline, setBaseline] = useState<MonthlyProgressSnapshot | null>(null);
+  const [conflict, setConflict] =
+    useState<ConflictError<MonthlyProgressSnapshot> | null>(null);
+
+  const applyValues = (values: ProgressValues) => {
+    setUploadLink(values.upload_link || "");
+    setIsUploadCompleted(values.is_upload_completed);
+    setNotes(values.notes || "");
+    setSignatureStatuses({ ...values.signatures });
+  };
+
+  // Initialize form state when dialog opens. Realtime updates while the
+  // dialog is open must not overwrite the user's edits, so only sync once.
+  const [syncedOpen, setSyncedOpen] = useState(false);
+  if (open && !syncedOpen && monthProgress) {
+    const snapshot = toSnapshot(monthProgress);
+    setSyncedOpen(true);
+    setBaseline(snapshot);
+    setConflict(null);
+    applyValues(snapshot);
+  }
+  if (!open && syncedOpen) {
+    setSyncedOpen(false);
+  }
+
+  const currentValues: ProgressValues = {
+    upload_link: uploadLink || null,
+    is_upload_completed: isUploadCompleted,
+    notes: notes || null,
+    signatures: signatureStatuses,
+  };
+
+  // Data terbaru di server; null = record sudah tidak ada
+  const theirs: MonthlyProgressSnapshot | null = conflict
+    ? conflict.current || {
+        updated_at: null,
+        upload_link: null,
+        is_upload_completed: false,
+        notes: null,
+        signatures: {},
+      }
+    : null;
+
+  const conflictChanges =
+    theirs && baseline && monthProgress
+      ? describeConflict(baseline, currentValues, theirs, monthProgress.signatures)
+      : [];
 
   const handleSignatureChange = (signatureId: string, checked: boolean) => {
     setSignatureStatuses((prev) => ({
@@ -129,12 +285,15 @@ export function EditProgressDialog({
     }));
   };
 
-  const handleSave = async () => {
+  const saveValues = async (
+    values: ProgressValues,
+    expectedUpdatedAt: string | null
+  ) => {
     setIsLoading(true);
     try {
       if (isSupabaseConfigured()) {
         // Save to Supabase
-        const sigStatuses = Object.entries(signatureStatuses).map(
+        const sigStatuses = Object.entries(values.signatures).map(
           ([id, isCompleted]) => ({
             signatureId: id,
             isCompleted,
@@ -145,11 +304,12 @@ export function EditProgressDialog({
           contract.id,
           month,
           year,
-          uploadLink || null,
-          isUploadCompleted,
-          notes || null,
+          values.upload_link,
+          values.is_upload_completed,
+          values.notes,
           sigStatuses,
-          subPeriod
+          subPeriod,
+          expectedUpdatedAt
         );
       } else {
         // Simulate delay for placeholder mode
@@ -163,6 +323,11 @@ export function EditProgressDialog({
       });
       onSave();
     } catch (error) {
+      if (error instanceof ConflictError) {
+        // Tampilkan perubahan user lain, biarkan user memilih gabung/timpa
+        setConflict(error as ConflictError<MonthlyProgressSnapshot>);
+        return;
+      }
       console.error("Error saving progress:", error);
       showErrorToast(error, "Gagal Menyimpan Progress");
     } finally {
@@ -170,6 +335,24 @@ export function EditProgressDialog({
     }
   };
 
+  const handleSave = () =>
+    saveValues(currentValues, baseline?.updated_at ?? null);
+
+  // Resolve conflict: rebase on the server version, then save again
+  const handleResolveConflict = (mode: "merge" | "overwrite") => {
+    if (!theirs || !baseline) return;
+
+    const values =
+      mode === "merge"
+        ? mergeValues(baseline, currentValues, theirs)
+        : currentValues;
+
+    setBaseline(theirs);
+    setConflict(null);
+    applyValues(values);
+    saveValues(values, theirs.updated_at);
+  };
+
   // Calculate new percentage
   const calculateNewPercentage = () => {
     const completedSigs =
@@ -334,6 +517,68 @@ export function EditProgressDialog({
           </Button>
         </DialogFooter>
       </DialogContent>
+
+      {/* Edit Conflict Prompt */}
+      <AlertDialog
+        open={!!conflict}
+        onOpenChange={(isOpen) => !isOpen && setConflict(null)}
+      >
+        <AlertDialogContent className="max-w-lg">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Progress Diubah Pengguna Lain
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {conflict?.changedBy || "Pengguna lain"} menyimpan perubahan
+              pada bulan ini setelah Anda membuka form.
+              {conflict && !conflict.current &&
+                " Data progress bulan ini sudah tidak ada di server."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+
+          <div className="max-h-[40vh] overflow-y-auto space-y-2">
+            {conflictChanges.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Tidak ada perbedaan pada field yang Anda ubah.
+              </p>
+            ) : (
+              conflictChanges.map((change) => (
+                <div key={change.key} className="rounded-md border p-2 text-sm">
+                  <p className="font-medium">{change.label}</p>
+                  <p className="text-xs text-muted-foreground break-all">
+                    {change.before} → <span className="text-foreground">{change.theirs}</span>
+                  </p>
+                  {change.mine !== null && (
+                    <p className="text-xs text-amber-600 break-all">
+                      Perubahan Anda: {change.mine}
+                    </p>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            <strong>Gabungkan</strong> menyimpan perubahan Anda dan
+            mempertahankan perubahan lain dari server.{" "}
+            <strong>Timpa</strong> menyimpan seluruh isi form Anda.
+          </p>
+
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => handleResolveConflict("overwrite")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Timpa
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => handleResolveConflict("merge")}>
+              Gabungkan
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Dialog>
   );
 }
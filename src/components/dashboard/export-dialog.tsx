@@ -10,6 +10,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import {
@@ -26,10 +27,61 @@ import {
   Download,
   Loader2,
   FileDown,
+  FileType,
 } from "lucide-react";
 import type { CustomerWithAreas } from "@/types/database";
-import { exportToExcel, exportToTxt, type ExportFormat } from "@/lib/export";
+import { filterByInvoiceType } from "@/types/database";
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  exportToExcel,
+  exportToPdf,
+  exportToTxt,
+  type ExportColumn,
+  type ExportFormat,
+  type ExportOptions,
+} from "@/lib/export";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+
+type IncludeOption =
+  | "includeTimeline"
+  | "includeSignatures"
+  | "includeNotes"
+  | "includeInvoiceSummary";
+
+// Detail tambahan yang bisa dipilih dan format yang mendukungnya
+const INCLUDE_OPTIONS: {
+  key: IncludeOption;
+  label: string;
+  description: string;
+  formats: ExportFormat[];
+}[] = [
+  {
+    key: "includeTimeline",
+    label: "Timeline",
+    description: "Status, TTD, upload, dan waktu update per bulan",
+    formats: ["excel", "txt", "pdf"],
+  },
+  {
+    key: "includeSignatures",
+    label: "Tanda Tangan",
+    description: "Penandatangan dan tanggal selesai per bulan",
+    formats: ["excel", "txt"],
+  },
+  {
+    key: "includeNotes",
+    label: "Catatan",
+    description: "Catatan progress bulanan",
+    formats: ["excel", "txt"],
+  },
+  {
+    key: "includeInvoiceSummary",
+    label: "Ringkasan per Tipe Invoice",
+    description: "Jumlah kontrak, status, dan rata-rata progress per tipe invoice",
+    formats: ["excel"],
+  },
+];
 
 interface ExportDialogProps {
   open: boolean;
@@ -44,9 +96,26 @@ export function ExportDialog({
   data,
   year,
 }: ExportDialogProps) {
+  const { invoiceTypes, invoiceTypeNames } = useInvoiceTypes();
   const [isExporting, setIsExporting] = useState(false);
   const [format, setFormat] = useState<ExportFormat>("excel");
   const [selectedCustomerId, setSelectedCustomerId] = useState<string>("all");
+  const [selectedInvoiceType, setSelectedInvoiceType] = useState<string>("all");
+  const [includes, setIncludes] = useState<Record<IncludeOption, boolean>>({
+    includeTimeline: true,
+    includeSignatures: false,
+    includeNotes: false,
+    includeInvoiceSummary: false,
+  });
+  const [columns, setColumns] = useState<ExportColumn[]>(DEFAULT_EXPORT_COLUMNS);
+
+  const toggleColumn = (key: ExportColumn, checked: boolean) => {
+    setColumns((prev) =>
+      checked
+        ? EXPORT_COLUMNS.map((c) => c.key).filter((k) => k === key || prev.includes(k))
+        : prev.filter((k) => k !== key)
+    );
+  };
 
   const handleExport = async () => {
     setIsExporting(true);
@@ -56,23 +125,26 @@ export function ExportDialog({
           ? data.find((c) => c.id === selectedCustomerId)
           : null;
 
-      const customerName = selectedCustomer?.name;
+      const options: ExportOptions = {
+        format,
+        scope: selectedCustomerId === "all" ? "all" : "customer",
+        year,
+        customerName: selectedCustomer?.name,
+        ...includes,
+        invoiceTypes: invoiceTypeNames,
+        columns,
+      };
+      const exportData =
+        selectedInvoiceType === "all" ? data : filterByInvoiceType(data, selectedInvoiceType);
 
       if (format === "excel") {
-        await exportToExcel(data, {
-          format: "excel",
-          scope: selectedCustomerId === "all" ? "all" : "customer",
-          year,
-          customerName,
-        });
+        await exportToExcel(exportData, options);
         showSuccessToast("Data berhasil diekspor ke Excel");
+      } else if (format === "pdf") {
+        exportToPdf(exportData, options);
+        showSuccessToast("Data berhasil diekspor ke PDF");
       } else {
-        exportToTxt(data, {
-          format: "txt",
-          scope: selectedCustomerId === "all" ? "all" : "customer",
-          year,
-          customerName,
-        });
+        exportToTxt(exportData, options);
         showSuccessToast("Data berhasil diekspor ke TXT");
       }
       onOpenChange(false);
@@ -86,7 +158,7 @@ export function ExportDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileDown className="h-5 w-5" />
@@ -123,6 +195,23 @@ export function ExportDialog({
                 </div>
               </div>
 
+              <div className="flex items-center space-x-3 rounded-lg border p-3 hover:bg-muted/50">
+                <RadioGroupItem value="pdf" id="pdf" />
+                <div className="flex-1">
+                  <Label
+                    htmlFor="pdf"
+                    className="flex items-center gap-2 cursor-pointer"
+                  >
+                    <FileType className="h-4 w-4 text-red-500" />
+                    PDF (.pdf)
+                  </Label>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    Laporan siap cetak dengan sampul, ringkasan, tabel per
+                    customer, dan timeline kontrak
+                  </p>
+                </div>
+              </div>
+
               <div className="flex items-center space-x-3 rounded-lg border p-3 hover:bg-muted/50">
                 <RadioGroupItem value="txt" id="txt" />
                 <div className="flex-1">
@@ -166,13 +255,116 @@ export function ExportDialog({
               Pilih customer tertentu atau ekspor semua data sekaligus.
             </p>
           </div>
+
+          {/* Invoice Type Selection */}
+          <div className="space-y-3">
+            <Label>Tipe Invoice</Label>
+            <Select
+              value={selectedInvoiceType}
+              onValueChange={setSelectedInvoiceType}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Pilih tipe invoice" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Semua Tipe Invoice</SelectItem>
+                {invoiceTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.name}>
+                    {type.name}
+                    {type.archived_at && " (arsip)"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Separator />
+
+          {/* Detail Options */}
+          <div className="space-y-3">
+            <Label>Detail Tambahan</Label>
+            <div className="space-y-2">
+              {INCLUDE_OPTIONS.filter((option) =>
+                option.formats.includes(format)
+              ).map((option) => (
+                <div key={option.key} className="flex items-start gap-3">
+                  <Checkbox
+                    id={option.key}
+                    checked={includes[option.key]}
+                    onCheckedChange={(checked) =>
+                      setIncludes((prev) => ({
+                        ...prev,
+                        [option.key]: checked === true,
+                      }))
+                    }
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <Label htmlFor={option.key} className="cursor-pointer">
+                      {option.label}
+                    </Label>
+                    <p className="text-xs text-muted-foreground">
+                      {option.description}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {format === "excel" && (
+              <p className="text-xs text-muted-foreground">
+                Setiap detail ditambahkan sebagai sheet terpisah.
+              </p>
+            )}
+          </div>
+
+          {/* Column Picker */}
+          {format === "excel" && (
+            <>
+              <Separator />
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label>Kolom</Label>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => setColumns(DEFAULT_EXPORT_COLUMNS)}
+                  >
+                    Reset
+                  </Button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  {EXPORT_COLUMNS.map((column) => (
+                    <div key={column.key} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`column-${column.key}`}
+                        checked={columns.includes(column.key)}
+                        onCheckedChange={(checked) =>
+                          toggleColumn(column.key, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`column-${column.key}`}
+                        className="text-sm font-normal cursor-pointer"
+                      >
+                        {column.label}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
         </div>
 
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Batal
           </Button>
-          <Button onClick={handleExport} disabled={isExporting}>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || (format === "excel" && columns.length === 0)}
+          >
             {isExporting ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
@@ -17,6 +17,7 @@ import {
 } from "@/components/ui/popover";
 import { Search, X, Filter, Calendar, ChevronLeft, ChevronRight } from "lucide-react";
 import type { DashboardFilters, CustomerWithAreas } from "@/types/database";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
 
 // Install select component
 // We'll create a simple select for now
@@ -32,6 +33,7 @@ export function DashboardFiltersBar({
   onFiltersChange,
   customers,
 }: DashboardFiltersProps) {
+  const { invoiceTypes } = useInvoiceTypes();
   const currentYear = new Date().getFullYear();
   const [yearPickerOpen, setYearPickerOpen] = useState(false);
   const [displayYearRange, setDisplayYearRange] = useState(currentYear);
@@ -285,6 +287,25 @@ export function DashboardFiltersBar({
           </SelectContent>
         </Select>
 
+        {/* Tipe Invoice (termasuk yang diarsipkan, untuk data lama) */}
+        <Select
+          value={filters.invoice_type || "all"}
+          onValueChange={handleInvoiceTypeChange}
+        >
+          <SelectTrigger className="w-full sm:w-auto">
+            <SelectValue placeholder="Semua Invoice" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Semua Invoice</SelectItem>
+            {invoiceTypes.map((type) => (
+              <SelectItem key={type.id} value={type.name}>
+                {type.name}
+                {type.archived_at && " (arsip)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
         {/* Status (hidden) */}
         <div className="hidden">
           <Select value={filters.status} onValueChange={handleStatusChange}>
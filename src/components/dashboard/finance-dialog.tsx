@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertCircle, Building2, Loader2, Receipt, Wallet } from "lucide-react";
+import type { CustomerWithAreas, PeriodInvoice } from "@/types/database";
+import { formatRupiah } from "@/types/database";
+import { fetchPeriodInvoices } from "@/lib/supabase/data";
+import { summarizeBilling, type BillingGroupBy, type BillingTotals } from "@/lib/billing";
+import { showErrorToast } from "@/lib/toast";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+
+interface FinanceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  data: CustomerWithAreas[];
+  year: number;
+}
+
+function AmountCell({ amount, count }: { amount: number; count: number }) {
+  return (
+    <TableCell className="text-right">
+      <div className="font-medium">{formatRupiah(amount)}</div>
+      <div className="text-xs text-muted-foreground">{count} periode</div>
+    </TableCell>
+  );
+}
+
+function TotalsCells({ totals }: { totals: BillingTotals }) {
+  return (
+    <>
+      <AmountCell amount={totals.uninvoicedAmount} count={totals.uninvoicedCount} />
+      <AmountCell amount={totals.unpaidAmount} count={totals.unpaidCount} />
+      <AmountCell amount={totals.paidAmount} count={totals.paidCount} />
+    </>
+  );
+}
+
+export function FinanceDialog({ open, onOpenChange, data, year }: FinanceDialogProps) {
+  const { invoiceTypeNames } = useInvoiceTypes();
+  const [groupBy, setGroupBy] = useState<BillingGroupBy>("customer");
+  const [result, setResult] = useState<{ year: number; invoices: PeriodInvoice[] } | null>(
+    null
+  );
+
+  // Muat ulang setiap kali dialog dibuka agar invoice terbaru ikut dihitung
+  const [openCount, setOpenCount] = useState(0);
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (open) setOpenCount((count) => count + 1);
+  }
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    fetchPeriodInvoices(year)
+      .catch((error) => {
+        showErrorToast(error, "Gagal memuat data invoice");
+        return [] as PeriodInvoice[];
+      })
+      .then((invoices) => {
+        if (!cancelled) setResult({ year, invoices });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, year, openCount]);
+
+  const isLoading = open && result?.year !== year;
+  const invoices = useMemo(() => result?.invoices ?? [], [result]);
+
+  const summary = useMemo(
+    () => summarizeBilling(data, invoices, groupBy, invoiceTypeNames),
+    [data, invoices, groupBy, invoiceTypeNames]
+  );
+
+  const cards = [
+    {
+      label: "BAPP selesai, belum ditagih",
+      amount: summary.total.uninvoicedAmount,
+      count: summary.total.uninvoicedCount,
+      className: "text-amber-600",
+    },
+    {
+      label: "Sudah ditagih, belum dibayar",
+      amount: summary.total.unpaidAmount,
+      count: summary.total.unpaidCount,
+      className: "text-blue-600",
+    },
+    {
+      label: "Sudah dibayar",
+      amount: summary.total.paidAmount,
+      count: summary.total.paidCount,
+      className: "text-emerald-600",
+    },
+  ];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Keuangan {year}
+          </DialogTitle>
+          <DialogDescription>
+            Periode dengan progress BAPP 100% siap ditagih. Nilai diambil dari
+            invoice, atau dari nilai kontrak jika invoice belum dicatat.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-3">
+              {cards.map((card) => (
+                <div key={card.label} className="rounded-lg border p-3">
+                  <p className="text-xs text-muted-foreground">{card.label}</p>
+                  <p className={`text-lg font-semibold ${card.className}`}>
+                    {formatRupiah(card.amount)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{card.count} periode</p>
+                </div>
+              ))}
+            </div>
+
+            {summary.total.unvaluedCount > 0 && (
+              <div className="flex items-center gap-2 rounded-md border border-amber-500/50 bg-amber-500/10 p-2 text-xs text-amber-700 dark:text-amber-400">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {summary.total.unvaluedCount} periode belum memiliki nilai kontrak
+                dan tidak ikut dijumlahkan. Isi nilai kontrak di menu Edit Kontrak.
+              </div>
+            )}
+
+            <div className="flex gap-1">
+              <Button
+                variant={groupBy === "customer" ? "default" : "outline"}
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => setGroupBy("customer")}
+              >
+                <Building2 className="h-3 w-3 mr-1" />
+                Per Customer
+              </Button>
+              <Button
+                variant={groupBy === "invoice_type" ? "default" : "outline"}
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => setGroupBy("invoice_type")}
+              >
+                <Receipt className="h-3 w-3 mr-1" />
+                Per Tipe Invoice
+              </Button>
+            </div>
+
+            {summary.rows.length === 0 ? (
+              <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+                Belum ada periode BAPP yang selesai pada tahun {year}
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>
+                      {groupBy === "customer" ? "Customer" : "Tipe Invoice"}
+                    </TableHead>
+                    <TableHead className="text-right">Belum Ditagih</TableHead>
+                    <TableHead className="text-right">Belum Dibayar</TableHead>
+                    <TableHead className="text-right">Sudah Dibayar</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.rows.map((row) => (
+                    <TableRow key={row.key}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TotalsCells totals={row} />
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell className="font-semibold">Total</TableCell>
+                    <TotalsCells totals={summary.total} />
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,11 +22,19 @@ import {
   Users,
   Shield,
   ShieldCheck,
+  Trash2,
+  Zap,
+  Receipt,
+  PenLine,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
 import { SettingsDialog } from "./settings-dialog";
 import { LogViewerDialog } from "./log-viewer-dialog";
 import { UserManagementDialog } from "./user-management-dialog";
+import { TrashDialog } from "./trash-dialog";
+import { NotificationRulesDialog } from "./notification-rules-dialog";
+import { InvoiceTypesDialog } from "./invoice-types-dialog";
+import { SignatoryDirectoryDialog } from "./signatory-directory-dialog";
 import { NotificationBell, NotificationSidebar } from "./notification-sidebar";
 
 // Role badge config
@@ -51,12 +59,16 @@ const ROLE_BADGES = {
 };
 
 export function DashboardHeader() {
-  const { user, userProfile, signOut, isPlaceholderMode, isSuperAdmin } =
+  const { user, userProfile, signOut, isPlaceholderMode, isAdmin, isSuperAdmin } =
     useAuth();
   const router = useRouter();
   const [showSettings, setShowSettings] = useState(false);
   const [showLogViewer, setShowLogViewer] = useState(false);
   const [showUserManagement, setShowUserManagement] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showNotificationRules, setShowNotificationRules] = useState(false);
+  const [showInvoiceTypes, setShowInvoiceTypes] = useState(false);
+  const [showSignatories, setShowSignatories] = useState(false);
 
   const handleSignOut = async () => {
     await signOut();
@@ -139,6 +151,22 @@ export function DashboardHeader() {
                   <ScrollText className="mr-2 h-4 w-4" />
                   <span>Lihat Log</span>
                 </DropdownMenuItem>
+                {isAdmin && (
+                  <>
+                    <DropdownMenuItem onClick={() => setShowNotificationRules(true)}>
+                      <Zap className="mr-2 h-4 w-4" />
+                      <span>Aturan Notifikasi</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowInvoiceTypes(true)}>
+                      <Receipt className="mr-2 h-4 w-4" />
+                      <span>Tipe Invoice</span>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowSignatories(true)}>
+                      <PenLine className="mr-2 h-4 w-4" />
+                      <span>Direktori Penandatangan</span>
+                    </DropdownMenuItem>
+                  </>
+                )}
                 {isSuperAdmin && (
                   <>
                     <DropdownMenuSeparator />
@@ -148,6 +176,10 @@ export function DashboardHeader() {
                       <Users className="mr-2 h-4 w-4" />
                       <span>Kelola Pengguna</span>
                     </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setShowTrash(true)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      <span>Sampah</span>
+                    </DropdownMenuItem>
                   </>
                 )}
                 <DropdownMenuSeparator />
@@ -177,6 +209,21 @@ export function DashboardHeader() {
         onOpenChange={setShowUserManagement}
       />
 
+      {/* Trash Dialog - Super Admin Only */}
+      <TrashDialog open={showTrash} onOpenChange={setShowTrash} />
+
+      {/* Notification Rules Dialog - Admin Only */}
+      <NotificationRulesDialog
+        open={showNotificationRules}
+        onOpenChange={setShowNotificationRules}
+      />
+
+      {/* Invoice Types Dialog - Admin Only */}
+      <InvoiceTypesDialog open={showInvoiceTypes} onOpenChange={setShowInvoiceTypes} />
+
+      {/* Signatory Directory Dialog - Admin Only */}
+      <SignatoryDirectoryDialog open={showSignatories} onOpenChange={setShowSignatories} />
+
       {/* Notification Sidebar */}
       <NotificationSidebar />
     </>
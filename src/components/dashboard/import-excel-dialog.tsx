@@ -0,0 +1,423 @@
+"use client";
+
+import { useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  FileSpreadsheet,
+  Upload,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  SkipForward,
+} from "lucide-react";
+import { MONTH_NAMES } from "@/types/database";
+import { parseImportWorkbook, type WorkbookImportRow } from "@/lib/import";
+import {
+  fetchContractsForYear,
+  importContractsFromWorkbook,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast, showInfoToast } from "@/lib/toast";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+
+interface ImportExcelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentYear: number;
+  onImportComplete: () => void;
+}
+
+type RowStatus = "valid" | "warning" | "exists" | "error";
+
+const STATUS_CONFIG: Record<
+  RowStatus,
+  {
+    label: string;
+    icon: React.ComponentType<{ className?: string }>;
+    className: string;
+  }
+> = {
+  valid: { label: "Siap", icon: CheckCircle2, className: "text-emerald-600" },
+  warning: { label: "Peringatan", icon: AlertTriangle, className: "text-amber-600" },
+  exists: { label: "Sudah ada", icon: SkipForward, className: "text-muted-foreground" },
+  error: { label: "Error", icon: AlertCircle, className: "text-destructive" },
+};
+
+function getRowKey(customer: string, area: string | null, contract: string): string {
+  return [customer, area || "Default", contract]
+    .map((part) => part.toLowerCase())
+    .join("|");
+}
+
+function getRowStatus(row: WorkbookImportRow, existingKeys: Set<string>): RowStatus {
+  if (row.errors.length > 0) return "error";
+  if (existingKeys.has(getRowKey(row.customerName, row.areaName, row.contractName))) {
+    return "exists";
+  }
+  return row.warnings.length > 0 ? "warning" : "valid";
+}
+
+function describeProgress(row: WorkbookImportRow): string {
+  const entries = row.progress.filter((p) => p.subPeriod === 1);
+  if (entries.length === 0) return "-";
+  return entries
+    .map((p) => `${MONTH_NAMES[p.month - 1]} ${p.percentage}%`)
+    .join(", ");
+}
+
+export function ImportExcelDialog({
+  open,
+  onOpenChange,
+  currentYear,
+  onImportComplete,
+}: ImportExcelDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<WorkbookImportRow[] | null>(null);
+  const [existingKeys, setExistingKeys] = useState<Set<string>>(new Set());
+  const [parsing, setParsing] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const { activeInvoiceTypes } = useInvoiceTypes();
+  // Kosong = tipe aktif pertama
+  const [selectedInvoiceType, setSelectedInvoiceType] = useState("");
+  const [importing, setImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState({ done: 0, total: 0 });
+
+  const invoiceType = selectedInvoiceType || activeInvoiceTypes[0]?.name || "";
+
+  const reset = () => {
+    setFileName(null);
+    setRows(null);
+    setExistingKeys(new Set());
+    setParseError(null);
+    setImportProgress({ done: 0, total: 0 });
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  // Jangan tutup dialog saat import sedang berjalan
+  const handleOpenChange = (isOpen: boolean) => {
+    if (importing) return;
+    if (isOpen) onOpenChange(true);
+    else close();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setRows(null);
+    setParseError(null);
+    setParsing(true);
+    try {
+      const [parsedRows, existing] = await Promise.all([
+        file.arrayBuffer().then(parseImportWorkbook),
+        fetchContractsForYear(currentYear),
+      ]);
+      setRows(parsedRows);
+      setExistingKeys(
+        new Set(existing.map((c) => getRowKey(c.customerName, c.areaName, c.name)))
+      );
+    } catch (error) {
+      setParseError(error instanceof Error ? error.message : "File tidak dapat dibaca");
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const statuses = (rows || []).map((row) => getRowStatus(row, existingKeys));
+  const counts = statuses.reduce(
+    (acc, status) => ({ ...acc, [status]: acc[status] + 1 }),
+    { valid: 0, warning: 0, exists: 0, error: 0 } as Record<RowStatus, number>
+  );
+  const importableRows = (rows || []).filter(
+    (_, i) => statuses[i] === "valid" || statuses[i] === "warning"
+  );
+
+  const handleImport = async () => {
+    if (importableRows.length === 0) {
+      showInfoToast("Tidak ada baris valid untuk diimport");
+      return;
+    }
+
+    if (!isSupabaseConfigured()) {
+      showSuccessToast("Mode Demo: Import tersimpan", {
+        description: "Perubahan tidak akan disimpan secara permanen",
+      });
+      close();
+      return;
+    }
+
+    setImporting(true);
+    setImportProgress({ done: 0, total: importableRows.length });
+    try {
+      const result = await importContractsFromWorkbook(
+        currentYear,
+        importableRows,
+        invoiceType,
+        (done, total) => setImportProgress({ done, total })
+      );
+
+      if (result.success > 0) {
+        showSuccessToast(
+          `${result.success} kontrak berhasil diimport ke tahun ${currentYear}`,
+          result.skipped > 0
+            ? { description: `${result.skipped} dilewati (sudah ada)` }
+            : undefined
+        );
+      } else if (result.skipped > 0 && result.failed === 0) {
+        showInfoToast(`Semua ${result.skipped} kontrak sudah ada di tahun ${currentYear}`);
+      }
+
+      if (result.failed > 0) {
+        showErrorToast(
+          `${result.failed} kontrak gagal: ${result.errors.slice(0, 3).join(", ")}`,
+          result.success > 0 ? "Sebagian Gagal" : "Import Gagal"
+        );
+      }
+
+      if (result.success > 0) {
+        onImportComplete();
+        close();
+      }
+    } catch (error) {
+      showErrorToast(error, "Import Gagal");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import dari Excel
+          </DialogTitle>
+          <DialogDescription>
+            Import kontrak dan progress bulanan ke tahun {currentYear} dari file
+            .xlsx dengan format yang sama seperti hasil Export (Customer /
+            Kontrak / Area / Periode / JAN..DES).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 flex-1 min-h-0 flex flex-col">
+          {/* File picker */}
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={parsing || importing}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Pilih File
+            </Button>
+            <span className="text-sm text-muted-foreground truncate max-w-xs">
+              {fileName || "Belum ada file dipilih"}
+            </span>
+            {rows && (
+              <div className="flex flex-wrap gap-1.5 ml-auto">
+                {(Object.keys(STATUS_CONFIG) as RowStatus[]).map((status) =>
+                  counts[status] > 0 ? (
+                    <Badge key={status} variant="outline" className="gap-1">
+                      <span className={STATUS_CONFIG[status].className}>
+                        {counts[status]}
+                      </span>
+                      {STATUS_CONFIG[status].label}
+                    </Badge>
+                  ) : null
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Preview */}
+          <div className="flex-1 min-h-[300px] max-h-[450px] border rounded-lg overflow-hidden">
+            <div className="h-full overflow-y-auto">
+              {parsing ? (
+                <div className="flex items-center justify-center h-48">
+                  <LoadingSpinner text="Membaca file..." />
+                </div>
+              ) : parseError ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center text-destructive">
+                  <AlertCircle className="h-10 w-10 mb-3" />
+                  <p className="font-medium">Gagal membaca file</p>
+                  <p className="text-sm">{parseError}</p>
+                </div>
+              ) : !rows ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                  <FileSpreadsheet className="h-12 w-12 mb-4 opacity-50" />
+                  <p className="font-medium">Pilih file Excel untuk melihat preview</p>
+                  <p className="text-sm">
+                    Setiap baris akan divalidasi sebelum diimport
+                  </p>
+                </div>
+              ) : rows.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                  <AlertCircle className="h-10 w-10 mb-3 opacity-50" />
+                  <p className="font-medium">Tidak ada data di bawah header</p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-14">Baris</TableHead>
+                      <TableHead>Customer / Area</TableHead>
+                      <TableHead>Kontrak</TableHead>
+                      <TableHead className="w-28">Periode</TableHead>
+                      <TableHead>Progress</TableHead>
+                      <TableHead className="w-64">Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row, index) => {
+                      const status = statuses[index];
+                      const { label, icon: Icon, className } = STATUS_CONFIG[status];
+                      const messages =
+                        status === "exists"
+                          ? [`Sudah ada di tahun ${currentYear}, akan dilewati`]
+                          : [...row.errors, ...row.warnings];
+
+                      return (
+                        <TableRow
+                          key={row.rowNumber}
+                          className={status === "error" ? "bg-destructive/5" : undefined}
+                        >
+                          <TableCell className="text-muted-foreground">
+                            {row.rowNumber}
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{row.customerName || "-"}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {row.areaName}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            <p>{row.contractName || "-"}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {row.signatureCount} TTD
+                            </p>
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {row.period || "-"}
+                            {row.periodAnchorMonth &&
+                              ` - mulai ${MONTH_NAMES[row.periodAnchorMonth - 1]}`}
+                          </TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {describeProgress(row)}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`flex items-center gap-1 text-sm ${className}`}>
+                              <Icon className="h-4 w-4 shrink-0" />
+                              {label}
+                            </span>
+                            {messages.length > 0 && (
+                              <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                                {messages.map((message, i) => (
+                                  <li key={i}>• {message}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t">
+          <div className="flex items-center gap-2">
+            <Label htmlFor="import-invoice-type" className="whitespace-nowrap">
+              Tipe Invoice:
+            </Label>
+            <Select
+              value={invoiceType}
+              onValueChange={setSelectedInvoiceType}
+              disabled={importing}
+            >
+              <SelectTrigger id="import-invoice-type" className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {activeInvoiceTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.name}>
+                    {type.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleOpenChange(false)}
+              disabled={importing}
+            >
+              Batal
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={importing || parsing || importableRows.length === 0}
+            >
+              {importing ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Mengimport {importProgress.done}/{importProgress.total}...
+                </>
+              ) : (
+                <>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import {importableRows.length} Kontrak
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Archive,
+  ArchiveRestore,
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Loader2,
+  Pencil,
+  Plus,
+  Receipt,
+  X,
+} from "lucide-react";
+import type { InvoiceType } from "@/types/database";
+import {
+  createInvoiceType,
+  renameInvoiceType,
+  reorderInvoiceTypes,
+  setInvoiceTypeArchived,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+
+interface InvoiceTypesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function InvoiceTypesDialog({ open, onOpenChange }: InvoiceTypesDialogProps) {
+  const { invoiceTypes, refresh } = useInvoiceTypes();
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  // id tipe yang sedang disimpan; "new" = tipe baru, "order" = urutan
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const serverMode = isSupabaseConfigured();
+
+  // Batalkan edit saat dialog ditutup
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (!open) {
+      setEditingId(null);
+      setNewName("");
+    }
+  }
+
+  const isDuplicate = (name: string, exceptId?: string) =>
+    invoiceTypes.some(
+      (type) => type.id !== exceptId && type.name.toLowerCase() === name.trim().toLowerCase()
+    );
+
+  const run = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      refresh();
+    } catch (error) {
+      showErrorToast(error, failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = newName.trim();
+    if (!name) return;
+    if (isDuplicate(name)) {
+      showErrorToast(`Tipe invoice "${name}" sudah ada`);
+      return;
+    }
+    run(
+      "new",
+      async () => {
+        await createInvoiceType(name);
+        setNewName("");
+        showSuccessToast(`Tipe invoice "${name}" ditambahkan`);
+      },
+      "Gagal menambah tipe invoice"
+    );
+  };
+
+  const handleRename = (type: InvoiceType) => {
+    const name = editName.trim();
+    if (!name || name === type.name) {
+      setEditingId(null);
+      return;
+    }
+    if (isDuplicate(name, type.id)) {
+      showErrorToast(`Tipe invoice "${name}" sudah ada`);
+      return;
+    }
+    run(
+      type.id,
+      async () => {
+        await renameInvoiceType(type.id, name);
+        setEditingId(null);
+        showSuccessToast(`"${type.name}" diganti menjadi "${name}"`, {
+          description: "Kontrak yang memakai tipe ini ikut diperbarui",
+        });
+      },
+      "Gagal mengganti nama tipe invoice"
+    );
+  };
+
+  const handleArchive = (type: InvoiceType) => {
+    const archived = !type.archived_at;
+    run(
+      type.id,
+      async () => {
+        await setInvoiceTypeArchived(type.id, archived);
+        showSuccessToast(
+          archived ? `"${type.name}" diarsipkan` : `"${type.name}" diaktifkan kembali`
+        );
+      },
+      "Gagal mengubah status tipe invoice"
+    );
+  };
+
+  const handleMove = (index: number, offset: -1 | 1) => {
+    const ids = invoiceTypes.map((type) => type.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    run("order", () => reorderInvoiceTypes(ids), "Gagal mengubah urutan");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Tipe Invoice
+          </DialogTitle>
+          <DialogDescription>
+            Daftar unit penagihan untuk kontrak. Urutan di sini dipakai pada filter,
+            grafik, dan export. Tipe yang diarsipkan tidak bisa dipilih untuk kontrak
+            baru, tetapi kontrak lama tetap memakainya.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!serverMode ? (
+          <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+            Tipe invoice hanya bisa diubah saat terhubung ke database
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            <div className="space-y-2">
+              {invoiceTypes.map((type, index) => (
+                <div
+                  key={type.id}
+                  className={`flex items-center gap-2 rounded-lg border p-2 ${
+                    type.archived_at ? "opacity-60" : ""
+                  }`}
+                >
+                  <div className="flex flex-col">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => handleMove(index, -1)}
+                      disabled={index === 0 || busyId !== null}
+                      title="Naikkan"
+                    >
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-5 w-5"
+                      onClick={() => handleMove(index, 1)}
+                      disabled={index === invoiceTypes.length - 1 || busyId !== null}
+                      title="Turunkan"
+                    >
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+
+                  {editingId === type.id ? (
+                    <>
+                      <Input
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") handleRename(type);
+                          if (e.key === "Escape") setEditingId(null);
+                        }}
+                        className="h-8 flex-1"
+                        autoFocus
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRename(type)}
+                        disabled={busyId === type.id}
+                        title="Simpan"
+                      >
+                        {busyId === type.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Check className="h-4 w-4" />
+                        )}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setEditingId(null)}
+                        title="Batal"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 text-sm font-medium">{type.name}</span>
+                      {type.archived_at && (
+                        <Badge variant="outline" className="text-[10px]">
+                          Arsip
+                        </Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => {
+                          setEditingId(type.id);
+                          setEditName(type.name);
+                        }}
+                        title="Ganti nama"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleArchive(type)}
+                        disabled={busyId === type.id}
+                        title={type.archived_at ? "Aktifkan kembali" : "Arsipkan"}
+                      >
+                        {type.archived_at ? (
+                          <ArchiveRestore className="h-4 w-4" />
+                        ) : (
+                          <Archive className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="mis. Regional 4"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") handleCreate();
+                }}
+              />
+              <Button onClick={handleCreate} disabled={!newName.trim() || busyId === "new"}>
+                {busyId === "new" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Tambah
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
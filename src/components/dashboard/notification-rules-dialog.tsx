@@ -0,0 +1,491 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { Loader2, Pencil, Plus, Save, Trash2, Zap } from "lucide-react";
+import type { Customer, UserProfile } from "@/types/database";
+import { getSelectableInvoiceTypes } from "@/types/database";
+import {
+  DEFAULT_NOTIFICATION_RULE,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_RULE_EVENTS,
+  describeNotificationRule,
+  priorityColors,
+  priorityLabels,
+  validateNotificationRule,
+  type NotificationChannel,
+  type NotificationPriority,
+  type NotificationRule,
+  type NotificationRuleEvent,
+  type NotificationRuleInput,
+} from "@/lib/notifications";
+import {
+  deleteNotificationRule,
+  fetchCustomers,
+  fetchNotificationRules,
+  fetchUserProfiles,
+  saveNotificationRule,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+import { useInvoiceTypes } from "@/components/providers/invoice-types-provider";
+
+interface NotificationRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL = "all";
+
+function toInput(rule: NotificationRule): NotificationRuleInput {
+  return {
+    name: rule.name,
+    event: rule.event,
+    threshold: rule.threshold,
+    after_day: rule.after_day,
+    invoice_type: rule.invoice_type,
+    customer_id: rule.customer_id,
+    priority: rule.priority,
+    channel: rule.channel,
+    target_user_ids: rule.target_user_ids,
+    enabled: rule.enabled,
+  };
+}
+
+export function NotificationRulesDialog({ open, onOpenChange }: NotificationRulesDialogProps) {
+  const { invoiceTypes } = useInvoiceTypes();
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{
+    key: number;
+    rules: NotificationRule[];
+    customers: Customer[];
+    users: UserProfile[];
+  } | null>(null);
+  // id aturan yang diedit; "new" = aturan baru
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<NotificationRuleInput>(DEFAULT_NOTIFICATION_RULE);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const serverMode = isSupabaseConfigured();
+  const requestKey = open && serverMode ? reloadToken : null;
+
+  useEffect(() => {
+    if (requestKey === null) return;
+
+    let cancelled = false;
+    Promise.all([fetchNotificationRules(), fetchCustomers(), fetchUserProfiles()])
+      .catch((error) => {
+        showErrorToast(error, "Gagal memuat aturan notifikasi");
+        return [[], [], []] as [NotificationRule[], Customer[], UserProfile[]];
+      })
+      .then(([rules, customers, users]) => {
+        if (!cancelled) setResult({ key: requestKey, rules, customers, users });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  // Tutup form saat dialog ditutup
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (!open) {
+      setEditingId(null);
+      setFormError(null);
+    }
+  }
+
+  const isLoading = requestKey !== null && result === null;
+  const rules = result?.rules || [];
+  const customers = result?.customers || [];
+  const users = result?.users || [];
+  const customerName = (id: string | null) => customers.find((c) => c.id === id)?.name;
+
+  const updateDraft = <K extends keyof NotificationRuleInput>(
+    key: K,
+    value: NotificationRuleInput[K]
+  ) => {
+    setDraft((prev) => ({ ...prev, [key]: value }));
+    setFormError(null);
+  };
+
+  const toggleTarget = (userId: string, checked: boolean) => {
+    updateDraft(
+      "target_user_ids",
+      checked
+        ? [...draft.target_user_ids, userId]
+        : draft.target_user_ids.filter((id) => id !== userId)
+    );
+  };
+
+  const startEdit = (rule: NotificationRule | null) => {
+    setEditingId(rule ? rule.id : "new");
+    setDraft(rule ? toInput(rule) : DEFAULT_NOTIFICATION_RULE);
+    setFormError(null);
+  };
+
+  const handleSave = async () => {
+    const error = validateNotificationRule(draft);
+    if (error) {
+      setFormError(error);
+      return;
+    }
+
+    setBusyId(editingId);
+    try {
+      await saveNotificationRule(draft, editingId === "new" ? undefined : editingId!);
+      showSuccessToast(`Aturan "${draft.name.trim()}" disimpan`);
+      setEditingId(null);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal menyimpan aturan");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleToggle = async (rule: NotificationRule, enabled: boolean) => {
+    setBusyId(rule.id);
+    try {
+      await saveNotificationRule({ ...toInput(rule), enabled }, rule.id);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal mengubah aturan");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rule: NotificationRule) => {
+    setBusyId(rule.id);
+    try {
+      await deleteNotificationRule(rule.id);
+      showSuccessToast(`Aturan "${rule.name}" dihapus`);
+      if (editingId === rule.id) setEditingId(null);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal menghapus aturan");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            Aturan Notifikasi
+          </DialogTitle>
+          <DialogDescription>
+            Kirim notifikasi otomatis saat data memenuhi kondisi tertentu. Aturan
+            dievaluasi di server setiap kali data berubah dan sekali sehari.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!serverMode ? (
+          <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+            Aturan notifikasi hanya tersedia saat terhubung ke database
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <LoadingSpinner text="Memuat aturan..." />
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            {/* Daftar aturan */}
+            {rules.length === 0 && editingId === null && (
+              <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+                Belum ada aturan notifikasi
+              </div>
+            )}
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className={`flex items-start gap-3 rounded-lg border p-3 ${
+                  rule.enabled ? "" : "opacity-60"
+                }`}
+              >
+                <Switch
+                  checked={rule.enabled}
+                  disabled={busyId === rule.id}
+                  onCheckedChange={(v) => handleToggle(rule, v)}
+                  className="mt-0.5"
+                />
+                <div className="flex-1 min-w-0 space-y-1">
+                  <p className="font-medium text-sm">{rule.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {describeNotificationRule(rule, customerName(rule.customer_id))}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge className={`text-[10px] ${priorityColors[rule.priority]}`}>
+                      {priorityLabels[rule.priority]}
+                    </Badge>
+                    <Badge variant="outline" className="text-[10px]">
+                      {NOTIFICATION_CHANNEL_LABELS[rule.channel]}
+                    </Badge>
+                    <Badge variant="outline" className="text-[10px]">
+                      {rule.target_user_ids.length === 0
+                        ? "Semua user"
+                        : `${rule.target_user_ids.length} user`}
+                    </Badge>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => startEdit(rule)}
+                  title="Edit aturan"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                  onClick={() => handleDelete(rule)}
+                  disabled={busyId === rule.id}
+                  title="Hapus aturan"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+
+            {/* Form aturan */}
+            {editingId === null ? (
+              <Button variant="outline" size="sm" onClick={() => startEdit(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Tambah Aturan
+              </Button>
+            ) : (
+              <div className="space-y-4 rounded-lg border bg-muted/30 p-4">
+                <p className="text-sm font-medium">
+                  {editingId === "new" ? "Aturan Baru" : "Edit Aturan"}
+                </p>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rule-name">Nama</Label>
+                  <Input
+                    id="rule-name"
+                    placeholder="mis. Regional 3 di bawah 50%"
+                    value={draft.name}
+                    onChange={(e) => updateDraft("name", e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Kondisi</Label>
+                  <Select
+                    value={draft.event}
+                    onValueChange={(v) => updateDraft("event", v as NotificationRuleEvent)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(NOTIFICATION_RULE_EVENTS) as NotificationRuleEvent[]).map(
+                        (event) => (
+                          <SelectItem key={event} value={event}>
+                            {NOTIFICATION_RULE_EVENTS[event].label}
+                          </SelectItem>
+                        )
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {NOTIFICATION_RULE_EVENTS[draft.event].description}
+                  </p>
+                </div>
+
+                {draft.event === "progress_below" && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-threshold">Progress di bawah (%)</Label>
+                      <Input
+                        id="rule-threshold"
+                        type="number"
+                        min={1}
+                        max={100}
+                        value={draft.threshold ?? ""}
+                        onChange={(e) =>
+                          updateDraft("threshold", e.target.value ? Number(e.target.value) : null)
+                        }
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-after-day">Mulai tanggal</Label>
+                      <Input
+                        id="rule-after-day"
+                        type="number"
+                        min={1}
+                        max={31}
+                        placeholder="1"
+                        value={draft.after_day ?? ""}
+                        onChange={(e) =>
+                          updateDraft("after_day", e.target.value ? Number(e.target.value) : null)
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Tipe Invoice</Label>
+                    <Select
+                      value={draft.invoice_type ?? ALL}
+                      onValueChange={(v) => updateDraft("invoice_type", v === ALL ? null : v)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Semua</SelectItem>
+                        {getSelectableInvoiceTypes(invoiceTypes, draft.invoice_type).map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {type}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Customer</Label>
+                    <Select
+                      value={draft.customer_id ?? ALL}
+                      onValueChange={(v) => updateDraft("customer_id", v === ALL ? null : v)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ALL}>Semua</SelectItem>
+                        {customers.map((customer) => (
+                          <SelectItem key={customer.id} value={customer.id}>
+                            {customer.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>Prioritas</Label>
+                    <Select
+                      value={draft.priority}
+                      onValueChange={(v) => updateDraft("priority", v as NotificationPriority)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(priorityLabels) as NotificationPriority[]).map(
+                          (priority) => (
+                            <SelectItem key={priority} value={priority}>
+                              {priorityLabels[priority]}
+                            </SelectItem>
+                          )
+                        )}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Kanal</Label>
+                    <RadioGroup
+                      value={draft.channel}
+                      onValueChange={(v) => updateDraft("channel", v as NotificationChannel)}
+                      className="flex gap-4 pt-2"
+                    >
+                      {(Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[]).map(
+                        (channel) => (
+                          <div key={channel} className="flex items-center gap-2">
+                            <RadioGroupItem value={channel} id={`rule-channel-${channel}`} />
+                            <Label htmlFor={`rule-channel-${channel}`} className="cursor-pointer">
+                              {NOTIFICATION_CHANNEL_LABELS[channel]}
+                            </Label>
+                          </div>
+                        )
+                      )}
+                    </RadioGroup>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Penerima</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Kosongkan untuk mengirim ke semua user yang boleh melihat kontrak.
+                    Penerima tetap dibatasi penugasan customer/area masing-masing.
+                  </p>
+                  <div className="max-h-40 overflow-y-auto rounded-md border bg-background p-2 space-y-1">
+                    {users.map((user) => (
+                      <label
+                        key={user.id}
+                        className="flex items-center gap-2 rounded px-1 py-0.5 text-sm cursor-pointer hover:bg-muted/50"
+                      >
+                        <Checkbox
+                          checked={draft.target_user_ids.includes(user.id)}
+                          onCheckedChange={(checked) => toggleTarget(user.id, checked === true)}
+                        />
+                        <span className="truncate">{user.full_name || user.email}</span>
+                        {user.full_name && (
+                          <span className="text-xs text-muted-foreground truncate">
+                            {user.email}
+                          </span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                {formError && <p className="text-sm text-destructive">{formError}</p>}
+
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={handleSave} disabled={busyId === editingId}>
+                    {busyId === editingId ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Simpan
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                    Batal
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
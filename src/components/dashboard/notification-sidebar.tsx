@@ -23,6 +23,8 @@ import {
   Info,
   XCircle,
   ChevronRight,
+  AlarmClock,
+  Zap,
 } from "lucide-react";
 import {
   priorityColors,
@@ -30,6 +32,7 @@ import {
   typeLabels,
   type Notification,
   type NotificationType,
+  type OverdueSummary,
 } from "@/lib/notifications";
 import { formatDistanceToNow } from "date-fns";
 import { id } from "date-fns/locale";
@@ -41,6 +44,7 @@ const typeIcons: Record<NotificationType, React.ReactNode> = {
   contract_created: <FileText className="h-4 w-4" />,
   contract_deleted: <XCircle className="h-4 w-4" />,
   reminder: <Bell className="h-4 w-4" />,
+  rule_alert: <Zap className="h-4 w-4" />,
   system: <Info className="h-4 w-4" />,
 };
 
@@ -140,6 +144,43 @@ function NotificationItem({
   );
 }
 
+// Jumlah periode terlambat yang dirinci di sidebar
+const OVERDUE_PREVIEW_LIMIT = 5;
+
+function OverdueSection({ overdue }: { overdue: OverdueSummary }) {
+  const hidden = overdue.periods - OVERDUE_PREVIEW_LIMIT;
+
+  return (
+    <div className="border-b bg-rose-50 dark:bg-rose-950 px-4 py-3 space-y-2">
+      <p className="text-xs font-medium text-rose-700 dark:text-rose-300 flex items-center gap-1">
+        <AlarmClock className="h-3 w-3" />
+        Terlambat: {overdue.periods} periode dari {overdue.contracts} kontrak
+      </p>
+      <ul className="space-y-1">
+        {overdue.items.slice(0, OVERDUE_PREVIEW_LIMIT).map((item) => (
+          <li
+            key={`${item.contractId}-${item.periodLabel}`}
+            className="flex items-center justify-between gap-2 text-xs"
+          >
+            <span className="truncate">
+              {item.contractName}{" "}
+              <span className="text-muted-foreground">
+                ({item.customerName}, {item.periodLabel}, {item.percentage}%)
+              </span>
+            </span>
+            <span className="shrink-0 font-medium text-rose-700 dark:text-rose-300">
+              {item.daysOverdue} hari
+            </span>
+          </li>
+        ))}
+      </ul>
+      {hidden > 0 && (
+        <p className="text-xs text-muted-foreground">dan {hidden} periode lainnya</p>
+      )}
+    </div>
+  );
+}
+
 export function NotificationSidebar() {
   const {
     notifications,
@@ -150,6 +191,7 @@ export function NotificationSidebar() {
     markAllAsRead,
     deleteNotification,
     clearNotifications,
+    overdue,
   } = useNotifications();
 
   // Group notifications by priority
@@ -204,6 +246,8 @@ export function NotificationSidebar() {
           )}
         </SheetHeader>
 
+        {overdue && overdue.periods > 0 && <OverdueSection overdue={overdue} />}
+
         <ScrollArea className="flex-1">
           {notifications.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-64 text-center p-4">
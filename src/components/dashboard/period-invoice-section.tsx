@@ -0,0 +1,319 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Receipt, Save, Trash2 } from "lucide-react";
+import type {
+  ContractWithProgress,
+  MonthlyProgressDetail,
+  PaymentStatus,
+  PeriodInvoice,
+} from "@/types/database";
+import { formatRupiah, getBillableAmount, parseAmountInput } from "@/types/database";
+import {
+  deletePeriodInvoice,
+  fetchPeriodInvoices,
+  savePeriodInvoice,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+
+interface PeriodInvoiceSectionProps {
+  contract: ContractWithProgress;
+  progress: MonthlyProgressDetail;
+  canEdit: boolean;
+}
+
+interface InvoiceDraft {
+  invoice_number: string;
+  invoice_date: string;
+  amount: string; // Kosong = nilai per periode dari kontrak
+  payment_status: PaymentStatus;
+  paid_at: string;
+}
+
+// yyyy-mm-dd untuk <input type="date">, dalam zona waktu lokal
+function toDateInputValue(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split("T")[0];
+}
+
+function toDraft(invoice: PeriodInvoice | null): InvoiceDraft {
+  return {
+    invoice_number: invoice?.invoice_number ?? "",
+    invoice_date: invoice?.invoice_date ?? toDateInputValue(new Date()),
+    amount: invoice?.amount?.toString() ?? "",
+    payment_status: invoice?.payment_status ?? "unpaid",
+    paid_at: invoice?.paid_at ?? "",
+  };
+}
+
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00`).toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+/**
+ * Invoice of one completed BAPP period: read-only for users, editable for
+ * roles with billing:manage. Rendered by ProgressDialog once the period is 100%.
+ */
+export function PeriodInvoiceSection({ contract, progress, canEdit }: PeriodInvoiceSectionProps) {
+  const serverMode = isSupabaseConfigured();
+  const requestKey = `${contract.id}-${progress.year}-${progress.month}-${progress.sub_period}`;
+
+  const [result, setResult] = useState<{ key: string; invoice: PeriodInvoice | null } | null>(
+    null
+  );
+  const [draft, setDraft] = useState<InvoiceDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!serverMode) return;
+
+    let cancelled = false;
+    fetchPeriodInvoices(progress.year, [contract.id])
+      .then((invoices) => {
+        if (cancelled) return;
+        const invoice = invoices.find(
+          (i) => i.month === progress.month && i.sub_period === progress.sub_period
+        );
+        setResult({ key: requestKey, invoice: invoice ?? null });
+      })
+      .catch((error) => showErrorToast(error, "Gagal memuat data invoice"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [serverMode, requestKey, contract.id, progress.year, progress.month, progress.sub_period]);
+
+  const isLoading = serverMode && result?.key !== requestKey;
+  const invoice = result?.key === requestKey ? result.invoice : null;
+  const values = draft ?? toDraft(invoice);
+  const amount = parseAmountInput(values.amount);
+  const billable = getBillableAmount(contract, Number.isNaN(amount) ? null : { amount });
+
+  const update = (changes: Partial<InvoiceDraft>) => setDraft({ ...values, ...changes });
+
+  const handleSave = async () => {
+    if (!values.invoice_number.trim() || !values.invoice_date) {
+      showErrorToast("Nomor dan tanggal invoice wajib diisi", "Validasi Gagal");
+      return;
+    }
+    if (Number.isNaN(amount)) {
+      showErrorToast("Nilai invoice harus berupa angka rupiah", "Validasi Gagal");
+      return;
+    }
+    if (values.payment_status === "paid" && !values.paid_at) {
+      showErrorToast("Tanggal pembayaran wajib diisi", "Validasi Gagal");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await savePeriodInvoice(contract.id, progress, {
+        invoice_number: values.invoice_number,
+        invoice_date: values.invoice_date,
+        amount,
+        payment_status: values.payment_status,
+        paid_at: values.paid_at || null,
+      });
+      setResult({ key: requestKey, invoice: saved });
+      setDraft(null);
+      showSuccessToast("Invoice disimpan", {
+        description: `${values.invoice_number.trim()} - ${contract.name}`,
+      });
+    } catch (error) {
+      showErrorToast(error, "Gagal menyimpan invoice");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!invoice) return;
+    setIsSaving(true);
+    try {
+      await deletePeriodInvoice(invoice.id);
+      setResult({ key: requestKey, invoice: null });
+      setDraft(null);
+      showSuccessToast("Invoice dihapus");
+    } catch (error) {
+      showErrorToast(error, "Gagal menghapus invoice");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const statusBadge = !invoice ? (
+    <Badge variant="outline" className="border-amber-500 text-amber-600">
+      Belum ditagih
+    </Badge>
+  ) : invoice.payment_status === "paid" ? (
+    <Badge className="bg-emerald-500 text-white">Lunas</Badge>
+  ) : (
+    <Badge variant="outline" className="border-blue-500 text-blue-600">
+      Belum dibayar
+    </Badge>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Receipt className="h-4 w-4 text-muted-foreground" />
+          <h4 className="text-sm font-medium">Penagihan</h4>
+        </div>
+        {serverMode && !isLoading && statusBadge}
+      </div>
+
+      <div className="flex items-center justify-between rounded-md border p-3 text-sm">
+        <span className="text-muted-foreground">Nilai tagihan periode ini</span>
+        <span className="font-medium">
+          {billable != null ? formatRupiah(billable) : "Nilai kontrak belum diisi"}
+        </span>
+      </div>
+
+      {!serverMode ? (
+        <p className="text-xs text-muted-foreground italic">
+          Invoice hanya bisa dicatat saat terhubung ke database
+        </p>
+      ) : isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : !canEdit ? (
+        invoice ? (
+          <div className="rounded-md border p-3 text-sm space-y-1">
+            <p>
+              <span className="text-muted-foreground">No. Invoice:</span>{" "}
+              {invoice.invoice_number}
+            </p>
+            <p>
+              <span className="text-muted-foreground">Tanggal:</span>{" "}
+              {formatDate(invoice.invoice_date)}
+            </p>
+            {invoice.paid_at && (
+              <p>
+                <span className="text-muted-foreground">Dibayar:</span>{" "}
+                {formatDate(invoice.paid_at)}
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground italic">
+            Invoice untuk periode ini belum dicatat
+          </p>
+        )
+      ) : (
+        <div className="rounded-md border p-3 space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="invoice_number" className="text-xs">
+                No. Invoice
+              </Label>
+              <Input
+                id="invoice_number"
+                className="h-8"
+                value={values.invoice_number}
+                onChange={(e) => update({ invoice_number: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice_date" className="text-xs">
+                Tanggal Invoice
+              </Label>
+              <Input
+                id="invoice_date"
+                type="date"
+                className="h-8"
+                value={values.invoice_date}
+                onChange={(e) => update({ invoice_date: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="invoice_amount" className="text-xs">
+                Nilai Invoice (Rp)
+              </Label>
+              <Input
+                id="invoice_amount"
+                inputMode="numeric"
+                className="h-8"
+                placeholder="Sesuai nilai kontrak"
+                value={values.amount}
+                onChange={(e) => update({ amount: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment_status" className="text-xs">
+                Status Pembayaran
+              </Label>
+              <Select
+                value={values.payment_status}
+                onValueChange={(value) =>
+                  update({
+                    payment_status: value as PaymentStatus,
+                    paid_at:
+                      value === "paid" && !values.paid_at
+                        ? toDateInputValue(new Date())
+                        : values.paid_at,
+                  })
+                }
+              >
+                <SelectTrigger id="payment_status" className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unpaid">Belum dibayar</SelectItem>
+                  <SelectItem value="paid">Sudah dibayar</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {values.payment_status === "paid" && (
+              <div className="space-y-1">
+                <Label htmlFor="paid_at" className="text-xs">
+                  Tanggal Pembayaran
+                </Label>
+                <Input
+                  id="paid_at"
+                  type="date"
+                  className="h-8"
+                  value={values.paid_at}
+                  onChange={(e) => update({ paid_at: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex justify-end gap-2">
+            {invoice && (
+              <Button variant="outline" size="sm" onClick={handleDelete} disabled={isSaving}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Hapus
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Simpan Invoice
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -25,9 +25,11 @@ import {
   TrendingUp,
   MousePointerClick,
   RefreshCw,
+  Receipt,
 } from "lucide-react";
 import { ContainerSpinner } from "@/components/ui/loading";
 import type { CustomerWithAreas, ContractWithProgress } from "@/types/database";
+import { getAverageProgress } from "@/types/database";
 
 // =============================================================================
 // CONFIGURATION - Easily adjustable settings for maintenance and scalability
@@ -82,7 +84,7 @@ type StatusType = keyof typeof STATUS_CONFIG;
 // =============================================================================
 
 export interface ChartFilter {
-  type: "customer" | "area" | "status";
+  type: "customer" | "area" | "invoice_type" | "status";
   value: string;
   label: string;
 }
@@ -93,6 +95,7 @@ interface ProgressChartsProps {
   onFilterChange: (filter: ChartFilter | null) => void;
   activeFilter: ChartFilter | null;
   onRefresh?: () => void;
+  invoiceTypes?: string[]; // Urutan bar pada tampilan per tipe invoice
 }
 
 interface BarDataItem {
@@ -138,64 +141,11 @@ function getProgressColor(progress: number, isSelected: boolean): string {
   return COLORS.muted;
 }
 
-/**
- * Get relevant month indices for a contract period
- * Per 12 Bulan → [11] (December only)
- * Per 6 Bulan → [5, 11] (June, December)
- * Per 3 Bulan → [2, 5, 8, 11] (March, June, September, December)
- * Per 2 Bulan → [1, 3, 5, 7, 9, 11] (Feb, Apr, Jun, Aug, Oct, Dec)
- * Per 1 Bulan → [0-11] (all months)
- */
-function getRelevantMonthIndices(period: string): number[] {
-  const p = period.toLowerCase();
-
-  if (p.includes("12 bulan") || p.includes("per 12")) {
-    return [11]; // December
-  }
-  if (p.includes("6 bulan") || p.includes("per 6")) {
-    return [5, 11]; // June, December
-  }
-  if (p.includes("3 bulan") || p.includes("per 3")) {
-    return [2, 5, 8, 11]; // March, June, September, December
-  }
-  if (p.includes("2 bulan") || p.includes("per 2")) {
-    return [1, 3, 5, 7, 9, 11]; // Feb, Apr, Jun, Aug, Oct, Dec
-  }
-  // Default: monthly - all months
-  return [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
-}
-
-/**
- * Calculate progress for a single contract based on its period
- * Only counts relevant months based on the contract period
- * Returns average percentage of relevant month entries
- */
-function calculateContractProgress(contract: ContractWithProgress): number {
-  const relevantMonths = getRelevantMonthIndices(contract.period);
-
-  // Get monthly progress for relevant months only
-  const relevantProgress = contract.monthly_progress.filter((mp) =>
-    relevantMonths.includes(mp.month - 1),
-  );
-
-  if (relevantProgress.length === 0) {
-    return 0;
-  }
-
-  // Sum all percentages from relevant months
-  const totalPercentage = relevantProgress.reduce(
-    (sum, mp) => sum + mp.percentage,
-    0,
-  );
-
-  // Average = total / expected number of entries
-  return totalPercentage / relevantMonths.length;
-}
-
 /**
  * Calculates contract statistics and overall progress for a group of contracts
  * Progress = average of all contracts' individual progress
- * Each contract's progress is calculated based on its period and relevant months
+ * Each contract's progress averages its active periods (getAverageProgress:
+ * period schedule from the contract's anchor month, within its dates)
  */
 function calculateContractStats(contracts: ContractWithProgress[]): {
   progress: number;
@@ -226,10 +176,9 @@ function calculateContractStats(contracts: ContractWithProgress[]): {
   );
 
   // Calculate progress as average of all contracts' progress
-  // Each contract progress considers only its relevant period months
   let totalProgress = 0;
   contracts.forEach((contract) => {
-    totalProgress += calculateContractProgress(contract);
+    totalProgress += getAverageProgress(contract);
   });
 
   // Average progress across all contracts
@@ -392,8 +341,11 @@ export function ProgressCharts({
   onFilterChange,
   activeFilter,
   onRefresh,
+  invoiceTypes = [],
 }: ProgressChartsProps) {
-  const [chartView, setChartView] = useState<"customer" | "area">("customer");
+  const [chartView, setChartView] = useState<"customer" | "area" | "invoice_type">(
+    "customer",
+  );
 
   // Calculate customer progress data - show ALL customers, sorted by progress
   const customerData = useMemo((): BarDataItem[] => {
@@ -440,6 +392,42 @@ export function ProgressCharts({
     return areas.sort((a, b) => b.progress - a.progress);
   }, [data]);
 
+  // Calculate invoice type progress data - ordered like the invoice type list
+  const invoiceTypeData = useMemo((): BarDataItem[] => {
+    const contractsByType = new Map<string, ContractWithProgress[]>();
+    data.forEach((customer) => {
+      customer.areas.forEach((area) => {
+        area.contracts.forEach((contract) => {
+          const contracts = contractsByType.get(contract.invoice_type) || [];
+          contracts.push(contract);
+          contractsByType.set(contract.invoice_type, contracts);
+        });
+      });
+    });
+
+    // Tipe yang tidak ada di daftar (mis. belum dimuat) ditaruh di akhir
+    const rank = (name: string) => {
+      const index = invoiceTypes.indexOf(name);
+      return index === -1 ? invoiceTypes.length : index;
+    };
+
+    return Array.from(contractsByType.entries())
+      .sort(([a], [b]) => rank(a) - rank(b) || a.localeCompare(b))
+      .map(([name, contracts]) => {
+        const stats = calculateContractStats(contracts);
+        return {
+          id: name,
+          name: truncateText(name, CHART_CONFIG.bar.labelMaxChars),
+          fullName: name,
+          progress: stats.progress,
+          contracts: stats.total,
+          completedContracts: stats.completed,
+          inProgressContracts: stats.inProgress,
+          notStartedContracts: stats.notStarted,
+        };
+      });
+  }, [data, invoiceTypes]);
+
   // Get the selected bar data for pie chart context
   const selectedBarData = useMemo((): BarDataItem | null => {
     if (!activeFilter) return null;
@@ -449,8 +437,11 @@ export function ProgressCharts({
     if (activeFilter.type === "area") {
       return areaData.find((a) => a.id === activeFilter.value) || null;
     }
+    if (activeFilter.type === "invoice_type") {
+      return invoiceTypeData.find((t) => t.id === activeFilter.value) || null;
+    }
     return null;
-  }, [activeFilter, customerData, areaData]);
+  }, [activeFilter, customerData, areaData, invoiceTypeData]);
 
   // Calculate status distribution - dynamic based on selected filter
   const statusData = useMemo((): StatusDataItem[] => {
@@ -562,7 +553,12 @@ export function ProgressCharts({
   }, [data, selectedBarData]);
 
   // Current chart data based on view
-  const currentChartData = chartView === "customer" ? customerData : areaData;
+  const currentChartData =
+    chartView === "customer"
+      ? customerData
+      : chartView === "area"
+        ? areaData
+        : invoiceTypeData;
 
   // Dynamic height based on number of bars - allow scrolling if too many
   const chartContentHeight = Math.max(
@@ -649,7 +645,11 @@ export function ProgressCharts({
                 <CardTitle className="text-base font-medium flex items-center gap-2">
                   <BarChart3 className="h-4 w-4" />
                   Progress{" "}
-                  {chartView === "customer" ? "per Customer" : "per Area"}
+                  {chartView === "customer"
+                    ? "per Customer"
+                    : chartView === "area"
+                      ? "per Area"
+                      : "per Tipe Invoice"}
                 </CardTitle>
                 <div className="flex items-center gap-1.5 mt-1">
                   <MousePointerClick className="h-3 w-3 text-primary animate-pulse" />
@@ -680,6 +680,15 @@ export function ProgressCharts({
                   <MapPin className="h-3 w-3 mr-1" />
                   Area
                 </Button>
+                <Button
+                  variant={chartView === "invoice_type" ? "default" : "outline"}
+                  size="sm"
+                  className="h-8 text-xs"
+                  onClick={() => setChartView("invoice_type")}
+                >
+                  <Receipt className="h-3 w-3 mr-1" />
+                  Invoice
+                </Button>
               </div>
             </div>
             {needsScroll && (
@@ -29,6 +29,9 @@ import {
   Download,
   Loader2,
   FolderOpen,
+  History,
+  FileSignature,
+  BellRing,
 } from "lucide-react";
 import {
   Tooltip,
@@ -42,6 +45,10 @@ import type {
 import { MONTH_NAMES_FULL, isHalfMonthPeriod } from "@/types/database";
 import { getProgressColorClass } from "@/lib/placeholder-data";
 import { EditProgressDialog } from "./edit-progress-dialog";
+import { ProgressHistoryDialog } from "./progress-history-dialog";
+import { BeritaAcaraDialog } from "./berita-acara-dialog";
+import { ReminderDialog } from "./reminder-dialog";
+import { PeriodInvoiceSection } from "./period-invoice-section";
 import {
   parseFileUrl,
   generateBAPPFilename,
@@ -74,6 +81,9 @@ export function ProgressDialog({
   areaName = "",
 }: ProgressDialogProps) {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
+  const [historyDialogOpen, setHistoryDialogOpen] = useState(false);
+  const [beritaAcaraOpen, setBeritaAcaraOpen] = useState(false);
+  const [reminderOpen, setReminderOpen] = useState(false);
   const [showPreview, setShowPreview] = useState(true); // Preview shown by default
   const [showUploadInstructions, setShowUploadInstructions] = useState(false);
   const [copiedFilename, setCopiedFilename] = useState(false);
@@ -172,6 +182,39 @@ export function ProgressDialog({
                         )}
                       </Button>
                     )}
+                    {contract && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setBeritaAcaraOpen(true)}
+                        title="Buat dokumen Berita Acara"
+                      >
+                        <FileSignature className="mr-2 h-4 w-4" />
+                        Berita Acara
+                      </Button>
+                    )}
+                    {isAdmin && contract && completedSignatures < progress.signatures.length && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setReminderOpen(true)}
+                        title="Ingatkan penandatangan yang belum tanda tangan"
+                      >
+                        <BellRing className="mr-2 h-4 w-4" />
+                        Kirim Pengingat
+                      </Button>
+                    )}
+                    {contract && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setHistoryDialogOpen(true)}
+                        className={isAdmin ? "" : "mr-4"}
+                      >
+                        <History className="mr-2 h-4 w-4" />
+                        Riwayat
+                      </Button>
+                    )}
                     {isAdmin && contract && (
                       <Button
                         variant="outline"
@@ -380,6 +423,19 @@ export function ProgressDialog({
                     </div>
                   )}
                 </div>
+
+                {/* Billing Section - only once the BAPP period is complete */}
+                {contract && progress.percentage >= 100 && (
+                  <>
+                    <Separator />
+                    <PeriodInvoiceSection
+                      key={`${contract.id}-${progress.month}-${progress.sub_period}`}
+                      contract={contract}
+                      progress={progress}
+                      canEdit={isAdmin}
+                    />
+                  </>
+                )}
               </div>
             </div>
 
@@ -496,6 +552,45 @@ export function ProgressDialog({
           onSave={handleEditSave}
         />
       )}
+
+      {/* Berita Acara Dialog */}
+      {contract && (
+        <BeritaAcaraDialog
+          open={beritaAcaraOpen}
+          onOpenChange={setBeritaAcaraOpen}
+          contract={contract}
+          progress={progress}
+          customerName={customerName}
+          areaName={areaName}
+          year={year}
+          isAdmin={isAdmin}
+        />
+      )}
+
+      {/* Reminder Dialog */}
+      {isAdmin && contract && (
+        <ReminderDialog
+          open={reminderOpen}
+          onOpenChange={setReminderOpen}
+          sources={[{ contract, progress, customerName, areaName }]}
+          year={year}
+          isAdmin={isAdmin}
+        />
+      )}
+
+      {/* Progress History Dialog */}
+      {contract && (
+        <ProgressHistoryDialog
+          open={historyDialogOpen}
+          onOpenChange={setHistoryDialogOpen}
+          contractId={contract.id}
+          contractName={contractName}
+          year={year}
+          month={progress.month}
+          subPeriod={progress.sub_period}
+          isHalfMonth={isHalfMonthPeriod(contract.period)}
+        />
+      )}
     </>
   );
 }
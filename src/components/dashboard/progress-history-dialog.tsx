@@ -0,0 +1,247 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  History,
+  RefreshCw,
+  PenTool,
+  FileText,
+  Link2,
+  StickyNote,
+  User,
+} from "lucide-react";
+import type { ProgressAuditLog, ProgressAuditField } from "@/types/database";
+import { MONTH_NAMES_FULL } from "@/types/database";
+import { fetchProgressAuditLog } from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+
+interface ProgressHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contractId: string;
+  contractName: string;
+  year: number;
+  month: number;
+  subPeriod: number;
+  isHalfMonth?: boolean;
+}
+
+const fieldIcons: Record<ProgressAuditField, React.ReactNode> = {
+  signature: <PenTool className="h-4 w-4 text-blue-500" />,
+  is_upload_completed: <FileText className="h-4 w-4 text-emerald-500" />,
+  upload_link: <Link2 className="h-4 w-4 text-violet-500" />,
+  notes: <StickyNote className="h-4 w-4 text-amber-500" />,
+};
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return date.toLocaleString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function describeChange(entry: ProgressAuditLog): string {
+  switch (entry.field) {
+    case "signature":
+      return entry.new_value === "true"
+        ? `Tanda tangan ${entry.signature_name || "(dihapus)"} ditandai selesai`
+        : `Tanda tangan ${entry.signature_name || "(dihapus)"} dibatalkan`;
+    case "is_upload_completed":
+      return entry.new_value === "true"
+        ? "Upload dokumen ditandai selesai"
+        : "Upload dokumen ditandai belum selesai";
+    case "upload_link":
+      return entry.old_value ? "Link upload diubah" : "Link upload ditambahkan";
+    case "notes":
+      return entry.old_value ? "Catatan diubah" : "Catatan ditambahkan";
+  }
+}
+
+export function ProgressHistoryDialog({
+  open,
+  onOpenChange,
+  contractId,
+  contractName,
+  year,
+  month,
+  subPeriod,
+  isHalfMonth = false,
+}: ProgressHistoryDialogProps) {
+  const [scope, setScope] = useState<"period" | "all">("period");
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{
+    key: string;
+    entries: ProgressAuditLog[];
+  } | null>(null);
+
+  const requestKey = open ? `${contractId}-${year}-${reloadToken}` : null;
+
+  useEffect(() => {
+    if (!requestKey) return;
+
+    let cancelled = false;
+    fetchProgressAuditLog(contractId, year).then((entries) => {
+      if (!cancelled) setResult({ key: requestKey, entries });
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, contractId, year]);
+
+  const isLoading = requestKey !== null && result?.key !== requestKey;
+  const entries = result?.entries || [];
+
+  const filteredEntries =
+    scope === "all"
+      ? entries
+      : entries.filter(
+          (e) => e.month === month && e.sub_period === subPeriod
+        );
+
+  const formatPeriod = (entry: ProgressAuditLog) =>
+    `${MONTH_NAMES_FULL[entry.month - 1]}${
+      isHalfMonth ? ` (Periode ${entry.sub_period})` : ""
+    } ${entry.year}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Riwayat Perubahan
+          </DialogTitle>
+          <DialogDescription>
+            {contractName} - riwayat perubahan progress tahun {year}, dicatat
+            oleh server.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2 py-2">
+          <Badge variant="outline">{filteredEntries.length} perubahan</Badge>
+          <div className="flex items-center gap-2">
+            <Select
+              value={scope}
+              onValueChange={(v) => setScope(v as "period" | "all")}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="period">
+                  {MONTH_NAMES_FULL[month - 1]}
+                  {isHalfMonth ? ` (Periode ${subPeriod})` : ""}
+                </SelectItem>
+                <SelectItem value="all">Semua Bulan</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setReloadToken((t) => t + 1)}
+              disabled={isLoading}
+            >
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-[300px] max-h-[450px] border rounded-lg overflow-hidden">
+          <div className="h-full overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-48">
+                <LoadingSpinner text="Memuat riwayat..." />
+              </div>
+            ) : !isSupabaseConfigured() ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                <History className="h-12 w-12 mb-4 opacity-50" />
+                <p className="font-medium">Riwayat tidak tersedia</p>
+                <p className="text-sm">
+                  Audit trail hanya tersedia saat terhubung ke database
+                </p>
+              </div>
+            ) : filteredEntries.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                <History className="h-12 w-12 mb-4 opacity-50" />
+                <p className="font-medium">Belum ada perubahan</p>
+                <p className="text-sm">
+                  Setiap perubahan progress akan tercatat di sini
+                </p>
+              </div>
+            ) : (
+              <div className="divide-y">
+                {filteredEntries.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="px-4 py-3 hover:bg-muted/50 transition-colors"
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="mt-0.5">{fieldIcons[entry.field]}</div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2 mb-1">
+                          <span className="text-xs text-muted-foreground">
+                            {formatTimestamp(entry.changed_at)}
+                          </span>
+                          {scope === "all" && (
+                            <Badge variant="secondary" className="text-xs">
+                              {formatPeriod(entry)}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm font-medium text-foreground">
+                          {describeChange(entry)}
+                        </p>
+                        {(entry.field === "upload_link" ||
+                          entry.field === "notes") && (
+                          <div className="mt-1 space-y-1 text-xs font-mono">
+                            {entry.old_value && (
+                              <p className="bg-rose-50 text-rose-700 dark:bg-rose-950 dark:text-rose-300 px-2 py-1 rounded break-all whitespace-pre-wrap">
+                                - {entry.old_value}
+                              </p>
+                            )}
+                            {entry.new_value && (
+                              <p className="bg-emerald-50 text-emerald-700 dark:bg-emerald-950 dark:text-emerald-300 px-2 py-1 rounded break-all whitespace-pre-wrap">
+                                + {entry.new_value}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                        <p className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                          <User className="h-3 w-3" />
+                          {entry.changed_by_name || "Sistem"}
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,567 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Separator } from "@/components/ui/separator";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  BellRing,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  Loader2,
+  Mail,
+  MessageCircle,
+  Save,
+} from "lucide-react";
+import type {
+  ReminderChannel,
+  ReminderLog,
+  ReminderTemplateContent,
+} from "@/types/database";
+import { MONTH_NAMES_FULL } from "@/types/database";
+import {
+  DEFAULT_REMINDER_TEMPLATES,
+  MAX_REMINDER_EMAILS,
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_PLACEHOLDERS,
+  getPendingReminders,
+  getReminderValues,
+  loadReminderRecipients,
+  renderReminder,
+  saveReminderRecipients,
+  sendReminderEmails,
+  type PendingReminder,
+  type ReminderSource,
+} from "@/lib/reminders";
+import {
+  fetchReminderLog,
+  fetchReminderTemplates,
+  logReminders,
+  saveReminderTemplate,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { useAuth } from "@/components/providers/auth-provider";
+import { showSuccessToast, showErrorToast, showInfoToast } from "@/lib/toast";
+
+interface ReminderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sources: ReminderSource[]; // Satu entri dari Detail Progress, banyak dari tabel
+  year: number;
+  isAdmin?: boolean;
+}
+
+const MESSAGE_SEPARATOR = "\n\n--------------------\n\n";
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getActionLabel(log: ReminderLog): string {
+  const channel = REMINDER_CHANNEL_LABELS[log.channel];
+  return log.action === "sent" ? `${channel} terkirim` : `${channel} disalin`;
+}
+
+export function ReminderDialog({
+  open,
+  onOpenChange,
+  sources,
+  year,
+  isAdmin = false,
+}: ReminderDialogProps) {
+  const { user, userProfile } = useAuth();
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{
+    key: string;
+    templates: Record<ReminderChannel, ReminderTemplateContent>;
+    logs: ReminderLog[];
+  } | null>(null);
+  const [channel, setChannel] = useState<ReminderChannel>("email");
+  const [draft, setDraft] = useState<ReminderTemplateContent | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [copiedKey, setCopiedKey] = useState<string | null>(null);
+  const [recipients, setRecipients] = useState<Record<string, string>>(loadReminderRecipients);
+  const [isSending, setIsSending] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+
+  // String, bukan array, agar sources baru dengan isi sama tidak memicu fetch ulang
+  const contractIds = [...new Set(sources.map((s) => s.contract.id))].sort().join(",");
+  const dataKey = `${contractIds}-${year}`;
+  const requestKey = open ? `${dataKey}-${reloadToken}` : null;
+
+  useEffect(() => {
+    if (!requestKey) return;
+
+    let cancelled = false;
+    Promise.all([fetchReminderTemplates(), fetchReminderLog(contractIds.split(","), year)])
+      .catch((error) => {
+        showErrorToast(error, "Gagal memuat data pengingat");
+        return [[], []] as const;
+      })
+      .then(([templates, logs]) => {
+        if (cancelled) return;
+        const stored = Object.fromEntries(
+          templates.map((t) => [t.channel, { subject: t.subject, body: t.body }])
+        );
+        setResult({
+          key: dataKey,
+          templates: { ...DEFAULT_REMINDER_TEMPLATES, ...stored },
+          logs: [...logs],
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, dataKey, contractIds, year]);
+
+  // Reset pilihan saat dialog ditutup
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (!open) {
+      setDraft(null);
+      setExcluded(new Set());
+      setPreviewKey(null);
+    }
+  }
+
+  // Muat ulang riwayat (reloadToken) tanpa menampilkan spinner lagi
+  const isLoading = open && result?.key !== dataKey;
+  const template =
+    draft || result?.templates[channel] || DEFAULT_REMINDER_TEMPLATES[channel];
+  const senderName = userProfile?.full_name || user?.email || "Admin";
+  const isSingle = sources.length === 1;
+
+  const today = new Date();
+  const reminders = sources.flatMap((source) => getPendingReminders(source, today));
+  const messages = new Map(
+    reminders.map((r) => [
+      r.key,
+      renderReminder(template, getReminderValues(r, senderName, today)),
+    ])
+  );
+  const selected = reminders.filter((r) => !excluded.has(r.key));
+  const logs = result?.logs || [];
+
+  const getLogsFor = (reminder: PendingReminder) =>
+    logs.filter(
+      (log) =>
+        log.contract_id === reminder.contract.id &&
+        log.month === reminder.progress.month &&
+        log.sub_period === reminder.progress.sub_period &&
+        (log.signature_id === reminder.signature.id ||
+          log.signature_name === reminder.signature.name)
+    );
+
+  const toggleSelected = (key: string, checked: boolean) => {
+    const next = new Set(excluded);
+    if (checked) next.delete(key);
+    else next.add(key);
+    setExcluded(next);
+  };
+
+  const setRecipient = (name: string, email: string) => {
+    const next = { ...recipients, [name]: email };
+    setRecipients(next);
+    saveReminderRecipients(next);
+  };
+
+  const formatMessage = (reminder: PendingReminder) => {
+    const message = messages.get(reminder.key)!;
+    return channel === "email" ? `${message.subject}\n\n${message.body}` : message.body;
+  };
+
+  const recordCopied = async (items: PendingReminder[]) => {
+    if (!isSupabaseConfigured()) return;
+    try {
+      await logReminders(
+        items.map((r) => ({
+          contract_id: r.contract.id,
+          month: r.progress.month,
+          year: r.progress.year,
+          sub_period: r.progress.sub_period,
+          signature_id: r.signature.id,
+          signature_name: r.signature.name,
+          channel,
+          action: "copied",
+          recipient: null,
+        }))
+      );
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal mencatat riwayat pengingat");
+    }
+  };
+
+  const handleCopy = async (reminder: PendingReminder) => {
+    await navigator.clipboard.writeText(formatMessage(reminder));
+    setCopiedKey(reminder.key);
+    setTimeout(() => setCopiedKey(null), 2000);
+    await recordCopied([reminder]);
+  };
+
+  const handleCopyAll = async () => {
+    await navigator.clipboard.writeText(selected.map(formatMessage).join(MESSAGE_SEPARATOR));
+    showSuccessToast(`${selected.length} pesan pengingat disalin`);
+    await recordCopied(selected);
+  };
+
+  const handleSendEmail = async () => {
+    const missing = selected.filter((r) => !recipients[r.signature.name]?.trim());
+    if (missing.length > 0) {
+      showInfoToast(`Isi alamat email untuk ${missing.map((r) => r.signature.name).join(", ")}`);
+      return;
+    }
+    if (selected.length > MAX_REMINDER_EMAILS) {
+      showInfoToast(`Maksimal ${MAX_REMINDER_EMAILS} email per pengiriman`);
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      const results = await sendReminderEmails(
+        selected.map((r) => {
+          const message = messages.get(r.key)!;
+          return {
+            contractId: r.contract.id,
+            month: r.progress.month,
+            year: r.progress.year,
+            subPeriod: r.progress.sub_period,
+            signatureId: r.signature.id,
+            signatureName: r.signature.name,
+            recipient: recipients[r.signature.name].trim(),
+            subject: message.subject,
+            body: message.body,
+          };
+        })
+      );
+      const failed = results.filter((r) => r.status === "failed");
+      if (failed.length === 0) {
+        showSuccessToast(`${results.length} email pengingat terkirim`);
+      } else {
+        showErrorToast(
+          new Error(failed.map((r) => `${r.recipient}: ${r.error}`).join("; ")),
+          `${failed.length} dari ${results.length} email gagal dikirim`
+        );
+      }
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal mengirim email pengingat");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!draft) return;
+    setIsSavingTemplate(true);
+    try {
+      await saveReminderTemplate(channel, draft);
+      showSuccessToast(`Template ${REMINDER_CHANNEL_LABELS[channel]} disimpan`);
+      setDraft(null);
+      setReloadToken((t) => t + 1);
+    } catch (error) {
+      showErrorToast(error, "Gagal menyimpan template");
+    } finally {
+      setIsSavingTemplate(false);
+    }
+  };
+
+  const singleLogs = isSingle
+    ? logs.filter(
+        (log) =>
+          log.month === sources[0].progress.month &&
+          log.sub_period === sources[0].progress.sub_period
+      )
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BellRing className="h-5 w-5" />
+            Kirim Pengingat
+          </DialogTitle>
+          <DialogDescription>
+            {isSingle
+              ? `${sources[0].contract.name} - ${MONTH_NAMES_FULL[sources[0].progress.month - 1]} ${sources[0].progress.year}`
+              : `${sources.length} periode tertunda, ${reminders.length} penandatangan belum tanda tangan`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-48">
+            <LoadingSpinner text="Memuat template..." />
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            {/* Kanal */}
+            <RadioGroup
+              value={channel}
+              onValueChange={(v) => {
+                setChannel(v as ReminderChannel);
+                setDraft(null);
+              }}
+              className="grid grid-cols-2 gap-2"
+            >
+              <Label
+                htmlFor="reminder-email"
+                className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+              >
+                <RadioGroupItem value="email" id="reminder-email" />
+                <Mail className="h-4 w-4 text-blue-500" />
+                Email
+              </Label>
+              <Label
+                htmlFor="reminder-whatsapp"
+                className="flex items-center gap-2 rounded-lg border p-3 cursor-pointer hover:bg-muted/50"
+              >
+                <RadioGroupItem value="whatsapp" id="reminder-whatsapp" />
+                <MessageCircle className="h-4 w-4 text-emerald-500" />
+                WhatsApp
+              </Label>
+            </RadioGroup>
+
+            {/* Daftar pengingat */}
+            {reminders.length === 0 ? (
+              <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+                Semua penandatangan sudah tanda tangan
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {reminders.map((reminder) => {
+                  const itemLogs = getLogsFor(reminder);
+                  const isPreviewOpen = previewKey === reminder.key;
+                  return (
+                    <div key={reminder.key} className="rounded-lg border p-3 space-y-2">
+                      <div className="flex items-start gap-3">
+                        <Checkbox
+                          checked={!excluded.has(reminder.key)}
+                          onCheckedChange={(checked) =>
+                            toggleSelected(reminder.key, checked === true)
+                          }
+                          className="mt-0.5"
+                        />
+                        <div className="flex-1 min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium text-sm">
+                              {reminder.signature.name}
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {reminder.signature.role}
+                            </span>
+                            <Badge
+                              variant={reminder.daysOutstanding > 0 ? "destructive" : "secondary"}
+                              className="text-[10px]"
+                            >
+                              {reminder.daysOutstanding > 0
+                                ? `Tertunda ${reminder.daysOutstanding} hari`
+                                : "Periode berjalan"}
+                            </Badge>
+                          </div>
+                          {!isSingle && (
+                            <p className="text-xs text-muted-foreground truncate">
+                              {reminder.contract.name} • {reminder.customerName} •{" "}
+                              {reminder.periodLabel}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {itemLogs.length > 0
+                              ? `Terakhir diingatkan ${formatDateTime(itemLogs[0].sent_at)} (${itemLogs.length}x)`
+                              : "Belum pernah diingatkan"}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => setPreviewKey(isPreviewOpen ? null : reminder.key)}
+                            title="Lihat pesan"
+                          >
+                            {isPreviewOpen ? (
+                              <ChevronDown className="h-4 w-4" />
+                            ) : (
+                              <ChevronRight className="h-4 w-4" />
+                            )}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => handleCopy(reminder)}
+                            title="Salin pesan"
+                          >
+                            {copiedKey === reminder.key ? (
+                              <Check className="h-4 w-4 text-emerald-500" />
+                            ) : (
+                              <Copy className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </div>
+                      </div>
+
+                      {channel === "email" && (
+                        <Input
+                          type="email"
+                          placeholder={`Email ${reminder.signature.name}`}
+                          value={recipients[reminder.signature.name] || ""}
+                          onChange={(e) => setRecipient(reminder.signature.name, e.target.value)}
+                          className="h-8 text-sm"
+                        />
+                      )}
+
+                      {isPreviewOpen && (
+                        <div className="rounded-md bg-muted/50 p-3 text-xs whitespace-pre-wrap">
+                          {channel === "email" && (
+                            <p className="font-medium mb-2">
+                              {messages.get(reminder.key)!.subject}
+                            </p>
+                          )}
+                          {messages.get(reminder.key)!.body}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* Riwayat bulan ini */}
+            {isSingle && isSupabaseConfigured() && (
+              <div className="rounded-md border bg-muted/30 p-3 text-sm">
+                <p className="font-medium mb-1">Riwayat Pengingat</p>
+                {singleLogs.length === 0 ? (
+                  <p className="text-muted-foreground italic">
+                    Belum ada pengingat untuk periode ini
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {singleLogs.map((log) => (
+                      <li key={log.id} className="text-xs text-muted-foreground">
+                        {formatDateTime(log.sent_at)} • {log.signature_name} •{" "}
+                        {getActionLabel(log)}
+                        {log.recipient && ` ke ${log.recipient}`}
+                        {log.sent_by_name && ` oleh ${log.sent_by_name}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Template editor (admin) */}
+            {isAdmin && (
+              <>
+                <Separator />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-auto p-0 text-sm hover:bg-transparent"
+                  onClick={() => setDraft(draft ? null : template)}
+                >
+                  {draft ? (
+                    <ChevronDown className="mr-1 h-4 w-4" />
+                  ) : (
+                    <ChevronRight className="mr-1 h-4 w-4" />
+                  )}
+                  Edit Template {REMINDER_CHANNEL_LABELS[channel]}
+                </Button>
+
+                {draft && (
+                  <div className="space-y-3">
+                    {channel === "email" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="reminder-subject">Subjek</Label>
+                        <Input
+                          id="reminder-subject"
+                          value={draft.subject}
+                          onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="reminder-body">Isi Pesan</Label>
+                      <Textarea
+                        id="reminder-body"
+                        rows={8}
+                        value={draft.body}
+                        onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Placeholder:{" "}
+                      {REMINDER_PLACEHOLDERS.map((p) => `{{${p.key}}}`).join(", ")}
+                    </p>
+                    {isSupabaseConfigured() && (
+                      <Button size="sm" onClick={handleSaveTemplate} disabled={isSavingTemplate}>
+                        {isSavingTemplate ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Save className="mr-2 h-4 w-4" />
+                        )}
+                        Simpan Template
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Tutup
+          </Button>
+          <Button
+            variant={channel === "email" ? "outline" : "default"}
+            onClick={handleCopyAll}
+            disabled={isLoading || selected.length === 0}
+          >
+            <Copy className="mr-2 h-4 w-4" />
+            Salin {selected.length > 1 ? `Semua (${selected.length})` : "Pesan"}
+          </Button>
+          {channel === "email" && (
+            <Button
+              onClick={handleSendEmail}
+              disabled={isLoading || isSending || selected.length === 0 || !isSupabaseConfigured()}
+            >
+              {isSending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Mail className="mr-2 h-4 w-4" />
+              )}
+              Kirim Email ({selected.length})
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -43,7 +43,8 @@ import {
   X,
 } from "lucide-react";
 import { useSettings } from "@/components/providers/settings-provider";
-import { showSuccessToast, showInfoToast } from "@/lib/toast";
+import { useAuth } from "@/components/providers/auth-provider";
+import { showSuccessToast, showInfoToast, showErrorToast } from "@/lib/toast";
 import { clearLogs, getLogs } from "@/lib/logger";
 import {
   getEmailSettings,
@@ -52,6 +53,11 @@ import {
   defaultEmailSettings,
 } from "@/lib/notifications";
 import type { AppSettings } from "@/lib/settings";
+import {
+  fetchEmailReportSettings,
+  saveEmailReportSettings,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
 
 interface SettingsDialogProps {
   open: boolean;
@@ -65,6 +71,7 @@ export function SettingsDialog({
   onOpenLogViewer,
 }: SettingsDialogProps) {
   const { settings, updateSettings, resetSettings, isLoaded } = useSettings();
+  const { canEdit } = useAuth();
   const [localSettings, setLocalSettings] = useState<AppSettings>(settings);
   const [hasChanges, setHasChanges] = useState(false);
   const [logCount, setLogCount] = useState(0);
@@ -74,6 +81,12 @@ export function SettingsDialog({
     useState<EmailNotificationSettings>(defaultEmailSettings);
   const [newEmail, setNewEmail] = useState("");
   const [emailError, setEmailError] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Pengaturan email dipakai scheduler server, jadi tersimpan di database
+  // dan hanya admin yang boleh mengubahnya
+  const serverEmailSettings = isSupabaseConfigured();
+  const canManageEmail = !serverEmailSettings || canEdit;
 
   // Sync local settings when dialog opens or settings change
   useEffect(() => {
@@ -87,6 +100,24 @@ export function SettingsDialog({
     }
   }, [open, isLoaded, settings]);
 
+  useEffect(() => {
+    if (!open || !serverEmailSettings) return;
+
+    let cancelled = false;
+    fetchEmailReportSettings()
+      .then((stored) => {
+        if (!cancelled && stored) {
+          setEmailSettings(stored.settings);
+          saveEmailSettings(stored.settings);
+        }
+      })
+      .catch((error) => console.error("Error loading email settings:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, serverEmailSettings]);
+
   const updateLocalSetting = <K extends keyof AppSettings>(
     key: K,
     value: AppSettings[K]
@@ -135,7 +166,19 @@ export function SettingsDialog({
     setHasChanges(true);
   };
 
-  const handleSave = () => {
+  const handleSave = async () => {
+    if (serverEmailSettings && canManageEmail) {
+      setIsSaving(true);
+      try {
+        await saveEmailReportSettings(emailSettings);
+      } catch (error) {
+        showErrorToast(error, "Gagal menyimpan pengaturan email");
+        return;
+      } finally {
+        setIsSaving(false);
+      }
+    }
+
     updateSettings(localSettings);
     saveEmailSettings(emailSettings);
     setHasChanges(false);
@@ -342,7 +385,13 @@ export function SettingsDialog({
               Notifikasi Email
             </div>
 
-            <div className="space-y-4 pl-6">
+            <fieldset disabled={!canManageEmail} className="space-y-4 pl-6">
+              {!canManageEmail && (
+                <p className="text-xs text-muted-foreground">
+                  Pengaturan email dikelola oleh admin
+                </p>
+              )}
+
               {/* Enable Email Notifications */}
               <div className="flex items-center justify-between">
                 <div className="space-y-0.5">
@@ -478,7 +527,7 @@ export function SettingsDialog({
                       <div className="space-y-0.5">
                         <Label className="text-sm">Ringkasan Mingguan</Label>
                         <p className="text-xs text-muted-foreground">
-                          Kirim laporan progress setiap minggu
+                          Kirim ringkasan + laporan Excel setiap Senin pagi
                         </p>
                       </div>
                       <Switch
@@ -507,7 +556,7 @@ export function SettingsDialog({
                   </div>
                 </>
               )}
-            </div>
+            </fieldset>
           </div>
 
           <Separator />
@@ -626,7 +675,7 @@ export function SettingsDialog({
           <Button variant="ghost" onClick={handleReset} size="sm">
             Reset ke Default
           </Button>
-          <Button onClick={handleSave} disabled={!hasChanges} size="sm">
+          <Button onClick={handleSave} disabled={!hasChanges || isSaving} size="sm">
             Simpan Perubahan
           </Button>
         </DialogFooter>
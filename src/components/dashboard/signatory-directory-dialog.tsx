@@ -0,0 +1,530 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowRightLeft, Loader2, Pencil, PenLine, Plus, Save, Trash2, X } from "lucide-react";
+import type { Customer, Signatory, SignatoryInput } from "@/types/database";
+import { MONTH_NAMES_FULL, isSignatoryActive } from "@/types/database";
+import {
+  deleteSignatory,
+  fetchCustomers,
+  fetchSignatories,
+  fetchSignatoryUsage,
+  replaceSignatory,
+  saveSignatory,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+
+interface SignatoryDirectoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DirectoryData {
+  signatories: Signatory[];
+  usage: Record<string, number>;
+  customers: Customer[];
+}
+
+interface SignatoryDraft {
+  name: string;
+  position: string;
+  customer_id: string; // "all" = semua customer
+  active_from: string;
+  active_until: string;
+}
+
+interface ReplacementDraft {
+  toId: string;
+  month: number;
+  year: number;
+}
+
+const EMPTY_DRAFT: SignatoryDraft = {
+  name: "",
+  position: "",
+  customer_id: "all",
+  active_from: "",
+  active_until: "",
+};
+
+function toDraft(signatory: Signatory): SignatoryDraft {
+  return {
+    name: signatory.name,
+    position: signatory.position,
+    customer_id: signatory.customer_id ?? "all",
+    active_from: signatory.active_from ?? "",
+    active_until: signatory.active_until ?? "",
+  };
+}
+
+function formatDate(value: string): string {
+  return new Date(`${value}T00:00:00`).toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function formatActiveRange(signatory: Signatory): string | null {
+  if (!signatory.active_from && !signatory.active_until) return null;
+  const from = signatory.active_from ? formatDate(signatory.active_from) : "...";
+  const until = signatory.active_until ? formatDate(signatory.active_until) : "sekarang";
+  return `${from} - ${until}`;
+}
+
+/**
+ * Admin directory of signatories referenced by contract signature slots.
+ * "Ganti" moves every slot of one signatory to another from a chosen month
+ * onward (replace_signatory RPC); earlier periods keep the old name.
+ */
+export function SignatoryDirectoryDialog({ open, onOpenChange }: SignatoryDirectoryDialogProps) {
+  const [data, setData] = useState<DirectoryData | null>(null);
+  // id entri yang sedang diedit; "new" = entri baru
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<SignatoryDraft>(EMPTY_DRAFT);
+  const [replacingId, setReplacingId] = useState<string | null>(null);
+  const [replacement, setReplacement] = useState<ReplacementDraft | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  const serverMode = isSupabaseConfigured();
+
+  // Muat ulang saat dialog dibuka, batalkan edit saat ditutup
+  const [syncedOpen, setSyncedOpen] = useState(open);
+  if (syncedOpen !== open) {
+    setSyncedOpen(open);
+    if (open) {
+      setReloadCount((count) => count + 1);
+    } else {
+      setEditingId(null);
+      setReplacingId(null);
+    }
+  }
+
+  useEffect(() => {
+    if (!open || !serverMode) return;
+
+    let cancelled = false;
+    Promise.all([fetchSignatories(), fetchSignatoryUsage(), fetchCustomers()])
+      .then(([signatories, usage, customers]) => {
+        if (!cancelled) setData({ signatories, usage, customers });
+      })
+      .catch((error) => showErrorToast(error, "Gagal memuat direktori penandatangan"));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, serverMode, reloadCount]);
+
+  const signatories = data?.signatories ?? [];
+  const customerName = (id: string | null) =>
+    id ? data?.customers.find((c) => c.id === id)?.name ?? "Customer dihapus" : "Semua customer";
+
+  const run = async (id: string, action: () => Promise<void>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      setReloadCount((count) => count + 1);
+    } catch (error) {
+      showErrorToast(error, failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startEdit = (signatory: Signatory | null) => {
+    setReplacingId(null);
+    setEditingId(signatory?.id ?? "new");
+    setDraft(signatory ? toDraft(signatory) : EMPTY_DRAFT);
+  };
+
+  const startReplace = (signatory: Signatory) => {
+    const now = new Date();
+    setEditingId(null);
+    setReplacingId(signatory.id);
+    setReplacement({ toId: "", month: now.getMonth() + 1, year: now.getFullYear() });
+  };
+
+  const handleSave = () => {
+    if (!editingId) return;
+    if (!draft.name.trim() || !draft.position.trim()) {
+      showErrorToast("Nama dan jabatan wajib diisi", "Validasi Gagal");
+      return;
+    }
+    if (draft.active_from && draft.active_until && draft.active_until < draft.active_from) {
+      showErrorToast("Tanggal akhir tidak boleh sebelum tanggal mulai", "Validasi Gagal");
+      return;
+    }
+
+    const input: SignatoryInput = {
+      name: draft.name,
+      position: draft.position,
+      customer_id: draft.customer_id === "all" ? null : draft.customer_id,
+      active_from: draft.active_from || null,
+      active_until: draft.active_until || null,
+    };
+    const id = editingId === "new" ? undefined : editingId;
+    run(
+      editingId,
+      async () => {
+        await saveSignatory(input, id);
+        setEditingId(null);
+        showSuccessToast(id ? "Penandatangan diperbarui" : "Penandatangan ditambahkan", {
+          description: id ? "Kontrak yang merujuk ikut diperbarui" : input.name.trim(),
+        });
+      },
+      "Gagal menyimpan penandatangan"
+    );
+  };
+
+  const handleDelete = (signatory: Signatory) => {
+    run(
+      signatory.id,
+      async () => {
+        await deleteSignatory(signatory.id);
+        showSuccessToast(`"${signatory.name}" dihapus dari direktori`, {
+          description: "Kontrak tetap menyimpan nama dan jabatan terakhir",
+        });
+      },
+      "Gagal menghapus penandatangan"
+    );
+  };
+
+  const handleReplace = (signatory: Signatory) => {
+    if (!replacement?.toId) {
+      showErrorToast("Pilih penandatangan pengganti", "Validasi Gagal");
+      return;
+    }
+    const target = signatories.find((s) => s.id === replacement.toId);
+    const { month, year } = replacement;
+    const fromDate = `${year}-${String(month).padStart(2, "0")}-01`;
+    if (target && !isSignatoryActive(target, fromDate)) {
+      showErrorToast(
+        `${target.name} tidak aktif pada 1 ${MONTH_NAMES_FULL[month - 1]} ${year}`,
+        "Validasi Gagal"
+      );
+      return;
+    }
+    run(
+      signatory.id,
+      async () => {
+        const result = await replaceSignatory(signatory.id, replacement.toId, year, month);
+        setReplacingId(null);
+        showSuccessToast(`${signatory.name} diganti ${target?.name ?? ""}`, {
+          description: `${result.contracts} kontrak dialihkan mulai ${
+            MONTH_NAMES_FULL[month - 1]
+          } ${year}; ${result.pinned} progress sebelumnya tetap atas nama lama`,
+        });
+      },
+      "Gagal mengganti penandatangan"
+    );
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="signatory_name" className="text-xs">
+            Nama
+          </Label>
+          <Input
+            id="signatory_name"
+            className="h-8"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            autoFocus
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="signatory_position" className="text-xs">
+            Jabatan
+          </Label>
+          <Input
+            id="signatory_position"
+            className="h-8"
+            value={draft.position}
+            onChange={(e) => setDraft({ ...draft, position: e.target.value })}
+          />
+        </div>
+        <div className="col-span-2 space-y-1">
+          <Label htmlFor="signatory_customer" className="text-xs">
+            Customer
+          </Label>
+          <Select
+            value={draft.customer_id}
+            onValueChange={(value) => setDraft({ ...draft, customer_id: value })}
+          >
+            <SelectTrigger id="signatory_customer" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Semua customer</SelectItem>
+              {data?.customers.map((customer) => (
+                <SelectItem key={customer.id} value={customer.id}>
+                  {customer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="signatory_from" className="text-xs">
+            Aktif Sejak
+          </Label>
+          <Input
+            id="signatory_from"
+            type="date"
+            className="h-8"
+            value={draft.active_from}
+            onChange={(e) => setDraft({ ...draft, active_from: e.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="signatory_until" className="text-xs">
+            Aktif Sampai
+          </Label>
+          <Input
+            id="signatory_until"
+            type="date"
+            className="h-8"
+            value={draft.active_until}
+            onChange={(e) => setDraft({ ...draft, active_until: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+          <X className="mr-2 h-4 w-4" />
+          Batal
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={busyId === editingId}>
+          {busyId === editingId ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Save className="mr-2 h-4 w-4" />
+          )}
+          Simpan
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderReplaceForm = (signatory: Signatory) => {
+    if (!replacement) return null;
+    // Pengganti harus berlaku untuk customer yang sama (atau semua customer)
+    const candidates = signatories.filter(
+      (s) =>
+        s.id !== signatory.id &&
+        (!signatory.customer_id || !s.customer_id || s.customer_id === signatory.customer_id)
+    );
+
+    return (
+      <div className="space-y-3 rounded-md bg-muted/50 p-3">
+        <p className="text-xs text-muted-foreground">
+          Semua tanda tangan {signatory.name} pada kontrak yang masih berjalan dialihkan
+          mulai bulan yang dipilih (pengganti khusus satu customer hanya mengambil alih
+          kontrak customer tersebut). Periode sebelumnya dan periode yang sudah
+          ditandatangani tetap tercatat atas nama {signatory.name}.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">Penandatangan Pengganti</Label>
+            <Select
+              value={replacement.toId || undefined}
+              onValueChange={(toId) => setReplacement({ ...replacement, toId })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue placeholder="Pilih penandatangan" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((s) => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} - {s.position}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Mulai Bulan</Label>
+            <Select
+              value={String(replacement.month)}
+              onValueChange={(value) => setReplacement({ ...replacement, month: Number(value) })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MONTH_NAMES_FULL.map((name, index) => (
+                  <SelectItem key={name} value={String(index + 1)}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="replace_year" className="text-xs">
+              Tahun
+            </Label>
+            <Input
+              id="replace_year"
+              type="number"
+              className="h-8"
+              value={replacement.year}
+              onChange={(e) =>
+                setReplacement({ ...replacement, year: Number(e.target.value) || replacement.year })
+              }
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setReplacingId(null)}>
+            Batal
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => handleReplace(signatory)}
+            disabled={!replacement.toId || busyId === signatory.id}
+          >
+            {busyId === signatory.id ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ArrowRightLeft className="mr-2 h-4 w-4" />
+            )}
+            Ganti
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PenLine className="h-5 w-5" />
+            Direktori Penandatangan
+          </DialogTitle>
+          <DialogDescription>
+            Daftar penandatangan yang bisa dipilih di form kontrak. Perubahan nama atau
+            jabatan langsung berlaku untuk semua kontrak yang merujuk entri tersebut.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!serverMode ? (
+          <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+            Direktori penandatangan hanya bisa diubah saat terhubung ke database
+          </div>
+        ) : !data ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4 overflow-y-auto pr-1">
+            {signatories.length === 0 && editingId !== "new" && (
+              <div className="rounded-md border border-dashed p-6 text-center text-sm text-muted-foreground">
+                Belum ada penandatangan di direktori
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {signatories.map((signatory) =>
+                editingId === signatory.id ? (
+                  <div key={signatory.id}>{renderForm()}</div>
+                ) : (
+                  <div key={signatory.id} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex items-start gap-2">
+                      <div className="min-w-0 flex-1 space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-sm font-medium">{signatory.name}</span>
+                          {!isSignatoryActive(signatory) && (
+                            <Badge variant="outline" className="text-[10px]">
+                              Tidak aktif
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {signatory.position} · {customerName(signatory.customer_id)}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {data.usage[signatory.id] ?? 0} tanda tangan kontrak
+                          {formatActiveRange(signatory) &&
+                            ` · Aktif ${formatActiveRange(signatory)}`}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => startReplace(signatory)}
+                        disabled={busyId !== null}
+                        title="Ganti dengan penandatangan lain"
+                      >
+                        <ArrowRightLeft className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => startEdit(signatory)}
+                        disabled={busyId !== null}
+                        title="Edit"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDelete(signatory)}
+                        disabled={busyId !== null}
+                        title="Hapus"
+                      >
+                        {busyId === signatory.id && replacingId !== signatory.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+                    {replacingId === signatory.id && renderReplaceForm(signatory)}
+                  </div>
+                )
+              )}
+            </div>
+
+            {editingId === "new" ? (
+              renderForm()
+            ) : (
+              <Button variant="outline" className="w-full" onClick={() => startEdit(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Tambah Penandatangan
+              </Button>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
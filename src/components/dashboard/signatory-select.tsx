@@ -0,0 +1,50 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Signatory } from "@/types/database";
+import { isSignatoryActive } from "@/types/database";
+
+interface SignatorySelectProps {
+  signatories: Signatory[];
+  customerId: string | null; // null = customer baru / belum dipilih
+  value: string | null; // signatory_id; null = diisi manual
+  onSelect: (signatory: Signatory | null) => void;
+}
+
+/**
+ * Pick a signature slot's signatory from the directory, or "Isi manual" for
+ * free-text name/role. Lists active entries for the contract's customer plus
+ * the currently linked entry.
+ */
+export function SignatorySelect({ signatories, customerId, value, onSelect }: SignatorySelectProps) {
+  const options = signatories.filter(
+    (s) =>
+      s.id === value ||
+      (isSignatoryActive(s) && (!s.customer_id || s.customer_id === customerId))
+  );
+
+  return (
+    <Select
+      value={value ?? "manual"}
+      onValueChange={(id) => onSelect(signatories.find((s) => s.id === id) ?? null)}
+    >
+      <SelectTrigger className="h-8">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="manual">Isi manual</SelectItem>
+        {options.map((s) => (
+          <SelectItem key={s.id} value={s.id}>
+            {s.name} - {s.position}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/ui/loading";
+import {
+  Trash2,
+  RefreshCw,
+  RotateCcw,
+  Loader2,
+  Building2,
+  MapPin,
+  FileText,
+} from "lucide-react";
+import type { TrashItem, TrashItemType } from "@/types/database";
+import { TRASH_RETENTION_DAYS } from "@/types/database";
+import {
+  fetchTrash,
+  restoreTrashItem,
+  purgeTrashItem,
+  purgeExpiredTrash,
+} from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type TrashEntry = TrashItem & { daysLeft: number };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPE_CONFIG: Record<
+  TrashItemType,
+  { label: string; icon: React.ComponentType<{ className?: string }> }
+> = {
+  customer: { label: "Customer", icon: Building2 },
+  area: { label: "Area", icon: MapPin },
+  contract: { label: "Kontrak", icon: FileText },
+};
+
+function formatTimestamp(timestamp: string): string {
+  return new Date(timestamp).toLocaleString("id-ID", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function TrashDialog({ open, onOpenChange }: TrashDialogProps) {
+  const [reloadToken, setReloadToken] = useState(0);
+  const [result, setResult] = useState<{
+    key: string;
+    entries: TrashEntry[];
+  } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [purgeTarget, setPurgeTarget] = useState<TrashEntry | null>(null);
+  const [confirmPurgeExpired, setConfirmPurgeExpired] = useState(false);
+
+  const requestKey = open ? `trash-${reloadToken}` : null;
+
+  useEffect(() => {
+    if (!requestKey) return;
+
+    let cancelled = false;
+    fetchTrash()
+      .catch((error) => {
+        showErrorToast(error, "Gagal memuat Sampah");
+        return [];
+      })
+      .then((items) => {
+        if (cancelled) return;
+        const now = Date.now();
+        setResult({
+          key: requestKey,
+          entries: items.map((item) => ({
+            ...item,
+            daysLeft: Math.max(
+              0,
+              TRASH_RETENTION_DAYS -
+                Math.floor((now - new Date(item.deleted_at).getTime()) / DAY_MS)
+            ),
+          })),
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey]);
+
+  const isLoading = requestKey !== null && result?.key !== requestKey;
+  const entries = result?.entries || [];
+  const expiredCount = entries.filter((e) => e.daysLeft === 0).length;
+  const reload = () => setReloadToken((t) => t + 1);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    try {
+      await restoreTrashItem(entry.type, entry.id);
+      showSuccessToast(`${TYPE_CONFIG[entry.type].label} dipulihkan`, {
+        description: entry.name,
+      });
+      reload();
+    } catch (error) {
+      showErrorToast(error, "Gagal memulihkan data");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (entry: TrashEntry) => {
+    setBusyId(entry.id);
+    try {
+      await purgeTrashItem(entry.type, entry.id);
+      showSuccessToast(`${TYPE_CONFIG[entry.type].label} dihapus permanen`, {
+        description: entry.name,
+      });
+      reload();
+    } catch (error) {
+      showErrorToast(error, "Gagal menghapus permanen");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeExpired = async () => {
+    setBusyId("expired");
+    try {
+      const count = await purgeExpiredTrash(TRASH_RETENTION_DAYS);
+      showSuccessToast("Sampah lama dikosongkan", {
+        description: `${count} data dihapus permanen`,
+      });
+      reload();
+    } catch (error) {
+      showErrorToast(error, "Gagal mengosongkan Sampah");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[85vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Trash2 className="h-5 w-5" />
+              Sampah
+            </DialogTitle>
+            <DialogDescription>
+              Customer, area, dan kontrak yang dihapus disimpan selama{" "}
+              {TRASH_RETENTION_DAYS} hari sebelum dihapus permanen.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="flex items-center justify-between gap-2 py-2">
+            <Badge variant="outline">{entries.length} item</Badge>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setConfirmPurgeExpired(true)}
+                disabled={isLoading || expiredCount === 0 || busyId !== null}
+              >
+                {busyId === "expired" ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="mr-2 h-4 w-4" />
+                )}
+                Kosongkan &gt; {TRASH_RETENTION_DAYS} hari ({expiredCount})
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={reload}
+                disabled={isLoading}
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+
+          <div className="flex-1 min-h-[300px] max-h-[450px] border rounded-lg overflow-hidden">
+            <div className="h-full overflow-y-auto">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-48">
+                  <LoadingSpinner text="Memuat Sampah..." />
+                </div>
+              ) : !isSupabaseConfigured() ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                  <Trash2 className="h-12 w-12 mb-4 opacity-50" />
+                  <p className="font-medium">Sampah tidak tersedia</p>
+                  <p className="text-sm">
+                    Sampah hanya tersedia saat terhubung ke database
+                  </p>
+                </div>
+              ) : entries.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-12 text-center text-muted-foreground">
+                  <Trash2 className="h-12 w-12 mb-4 opacity-50" />
+                  <p className="font-medium">Sampah kosong</p>
+                  <p className="text-sm">
+                    Data yang dihapus dari dashboard akan muncul di sini
+                  </p>
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-28">Jenis</TableHead>
+                      <TableHead>Nama</TableHead>
+                      <TableHead>Dihapus</TableHead>
+                      <TableHead className="w-24">Sisa</TableHead>
+                      <TableHead className="w-32 text-right">Aksi</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {entries.map((entry) => {
+                      const { label, icon: Icon } = TYPE_CONFIG[entry.type];
+                      const isBusy = busyId === entry.id;
+
+                      return (
+                        <TableRow key={`${entry.type}-${entry.id}`}>
+                          <TableCell>
+                            <Badge variant="secondary" className="gap-1">
+                              <Icon className="h-3 w-3" />
+                              {label}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{entry.name}</p>
+                            {(entry.parent_name || entry.year) && (
+                              <p className="text-xs text-muted-foreground">
+                                {[entry.parent_name, entry.year]
+                                  .filter(Boolean)
+                                  .join(" • ")}
+                              </p>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <p className="text-sm">
+                              {formatTimestamp(entry.deleted_at)}
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              oleh {entry.deleted_by_name || "Sistem"}
+                            </p>
+                          </TableCell>
+                          <TableCell>
+                            <span
+                              className={
+                                entry.daysLeft <= 3
+                                  ? "text-sm text-destructive"
+                                  : "text-sm text-muted-foreground"
+                              }
+                            >
+                              {entry.daysLeft} hari
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Pulihkan"
+                                onClick={() => handleRestore(entry)}
+                                disabled={busyId !== null}
+                              >
+                                {isBusy ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <RotateCcw className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Hapus Permanen"
+                                className="text-destructive hover:text-destructive"
+                                onClick={() => setPurgeTarget(entry)}
+                                disabled={busyId !== null}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Permanent Delete Confirmation */}
+      <AlertDialog
+        open={!!purgeTarget}
+        onOpenChange={(isOpen) => !isOpen && setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Hapus Permanen</AlertDialogTitle>
+            <AlertDialogDescription>
+              <strong>&quot;{purgeTarget?.name}&quot;</strong> beserta semua
+              data progress dan tanda tangan terkait akan dihapus permanen.
+              Tindakan ini tidak dapat dibatalkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && handlePurge(purgeTarget)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Hapus Permanen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Purge Expired Confirmation */}
+      <AlertDialog
+        open={confirmPurgeExpired}
+        onOpenChange={setConfirmPurgeExpired}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Kosongkan Sampah Lama</AlertDialogTitle>
+            <AlertDialogDescription>
+              {expiredCount} item yang sudah lebih dari {TRASH_RETENTION_DAYS}{" "}
+              hari di Sampah akan dihapus permanen. Tindakan ini tidak dapat
+              dibatalkan.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurgeExpired}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Hapus Permanen
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -28,8 +28,11 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { LoadingSpinner } from "@/components/ui/loading";
 import { createClient } from "@/lib/supabase/client";
+import { updateUserRole, fetchUserScopes } from "@/lib/supabase/data";
 import { showSuccessToast, showErrorToast } from "@/lib/toast";
 import { useAuth, type UserRole } from "@/components/providers/auth-provider";
+import type { UserScope } from "@/types/database";
+import { UserScopeDialog } from "./user-scope-dialog";
 import {
   Users,
   Search,
@@ -38,6 +41,7 @@ import {
   User,
   RefreshCw,
   Loader2,
+  MapPin,
 } from "lucide-react";
 
 interface UserWithProfile {
@@ -48,6 +52,8 @@ interface UserWithProfile {
   created_at: string;
 }
 
+type ScopeInput = Pick<UserScope, "customer_id" | "area_id">;
+
 interface UserManagementDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -84,6 +90,10 @@ export function UserManagementDialog({
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
   const [updatingUserId, setUpdatingUserId] = useState<string | null>(null);
+  const [scopesByUser, setScopesByUser] = useState<
+    Record<string, ScopeInput[]>
+  >({});
+  const [scopeUser, setScopeUser] = useState<UserWithProfile | null>(null);
 
   const fetchUsers = useCallback(async () => {
     setIsLoading(true);
@@ -118,13 +128,25 @@ export function UserManagementDialog({
         return;
       }
 
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [{ data, error }, scopes] = await Promise.all([
+        supabase
+          .from("profiles")
+          .select("*")
+          .order("created_at", { ascending: false }),
+        fetchUserScopes(),
+      ]);
 
       if (error) throw error;
       setUsers(data || []);
+      setScopesByUser(
+        scopes.reduce<Record<string, ScopeInput[]>>((acc, scope) => {
+          (acc[scope.user_id] ||= []).push({
+            customer_id: scope.customer_id,
+            area_id: scope.area_id,
+          });
+          return acc;
+        }, {}),
+      );
     } catch (error) {
       console.error("Error fetching users:", error);
       showErrorToast(error, "Gagal memuat daftar pengguna");
@@ -159,12 +181,7 @@ export function UserManagementDialog({
         return;
       }
 
-      const { error } = await supabase
-        .from("profiles")
-        .update({ role: newRole, updated_at: new Date().toISOString() })
-        .eq("id", userId);
-
-      if (error) throw error;
+      await updateUserRole(userId, newRole);
 
       setUsers((prev) =>
         prev.map((u) => (u.id === userId ? { ...u, role: newRole } : u)),
@@ -242,6 +259,7 @@ export function UserManagementDialog({
                   <TableHead>Email</TableHead>
                   <TableHead>Role</TableHead>
                   <TableHead>Terdaftar</TableHead>
+                  <TableHead>Akses</TableHead>
                   <TableHead className="w-40">Ubah Role</TableHead>
                 </TableRow>
               </TableHeader>
@@ -275,6 +293,25 @@ export function UserManagementDialog({
                       <TableCell className="text-muted-foreground text-sm">
                         {formatDate(user.created_at)}
                       </TableCell>
+                      <TableCell>
+                        {user.role === "super_admin" ? (
+                          <span className="text-xs text-muted-foreground">
+                            Semua
+                          </span>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-8 gap-1"
+                            onClick={() => setScopeUser(user)}
+                          >
+                            <MapPin className="h-3 w-3" />
+                            {scopesByUser[user.id]?.length
+                              ? `${scopesByUser[user.id].length} dipilih`
+                              : "Semua"}
+                          </Button>
+                        )}
+                      </TableCell>
                       <TableCell>
                         {isCurrentUser ? (
                           <span className="text-xs text-muted-foreground">
@@ -328,9 +365,27 @@ export function UserManagementDialog({
               <span className="font-medium text-foreground">Super Admin:</span>{" "}
               Semua akses Admin + mengelola role pengguna
             </li>
+            <li>
+              <span className="font-medium text-foreground">Akses:</span>{" "}
+              Batasi pengguna ke customer/area tertentu. Kosong berarti semua
+              customer.
+            </li>
           </ul>
         </div>
       </DialogContent>
+
+      {scopeUser && (
+        <UserScopeDialog
+          open={!!scopeUser}
+          onOpenChange={(isOpen) => !isOpen && setScopeUser(null)}
+          userId={scopeUser.id}
+          userLabel={scopeUser.full_name || scopeUser.email}
+          scopes={scopesByUser[scopeUser.id] || []}
+          onSaved={(userId, scopes) =>
+            setScopesByUser((prev) => ({ ...prev, [userId]: scopes }))
+          }
+        />
+      )}
     </Dialog>
   );
 }
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { LoadingSpinner } from "@/components/ui/loading";
+import { Building2, Loader2, MapPin, Save } from "lucide-react";
+import type { CustomerWithAreas, UserScope } from "@/types/database";
+import { fetchCustomersWithAreas, setUserScopes } from "@/lib/supabase/data";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { generatePlaceholderData } from "@/lib/placeholder-data";
+import { showSuccessToast, showErrorToast } from "@/lib/toast";
+
+type ScopeInput = Pick<UserScope, "customer_id" | "area_id">;
+
+interface UserScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  userLabel: string;
+  scopes: ScopeInput[];
+  onSaved: (userId: string, scopes: ScopeInput[]) => void;
+}
+
+export function UserScopeDialog({
+  open,
+  onOpenChange,
+  userId,
+  userLabel,
+  scopes,
+  onSaved,
+}: UserScopeDialogProps) {
+  const [customers, setCustomers] = useState<CustomerWithAreas[] | null>(() =>
+    isSupabaseConfigured() ? null : generatePlaceholderData()
+  );
+  const [selectedCustomers, setSelectedCustomers] = useState<Set<string>>(
+    new Set()
+  );
+  const [selectedAreas, setSelectedAreas] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load customer/area list once
+  useEffect(() => {
+    if (!open || customers) return;
+    fetchCustomersWithAreas().then(setCustomers);
+  }, [open, customers]);
+
+  // Sync selection with the user's current assignments when opened
+  const [syncedFor, setSyncedFor] = useState<string | null>(null);
+  if (open && syncedFor !== userId) {
+    setSyncedFor(userId);
+    setSelectedCustomers(
+      new Set(scopes.map((s) => s.customer_id).filter((id): id is string => !!id))
+    );
+    setSelectedAreas(
+      new Set(scopes.map((s) => s.area_id).filter((id): id is string => !!id))
+    );
+  }
+  if (!open && syncedFor !== null) {
+    setSyncedFor(null);
+  }
+
+  const toggle = (
+    set: Set<string>,
+    setter: (value: Set<string>) => void,
+    id: string,
+    checked: boolean
+  ) => {
+    const next = new Set(set);
+    if (checked) next.add(id);
+    else next.delete(id);
+    setter(next);
+  };
+
+  const handleSave = async () => {
+    const nextScopes: ScopeInput[] = [
+      ...[...selectedCustomers].map((id) => ({ customer_id: id, area_id: null })),
+      // Area di bawah customer yang sudah dipilih penuh tidak perlu disimpan
+      ...(customers || [])
+        .filter((c) => !selectedCustomers.has(c.id))
+        .flatMap((c) => c.areas)
+        .filter((a) => selectedAreas.has(a.id))
+        .map((a) => ({ customer_id: null, area_id: a.id })),
+    ];
+
+    setIsSaving(true);
+    try {
+      await setUserScopes(userId, nextScopes);
+      onSaved(userId, nextScopes);
+      showSuccessToast(
+        isSupabaseConfigured()
+          ? "Akses pengguna berhasil diperbarui"
+          : "Akses pengguna berhasil diperbarui (Demo Mode)",
+        {
+          description:
+            nextScopes.length === 0
+              ? "Pengguna dapat melihat semua customer"
+              : `${nextScopes.length} customer/area ditugaskan`,
+        }
+      );
+      onOpenChange(false);
+    } catch (error) {
+      showErrorToast(error, "Gagal menyimpan akses pengguna");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const totalSelected = selectedCustomers.size + selectedAreas.size;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Akses Customer & Area</DialogTitle>
+          <DialogDescription>
+            Pilih customer atau area yang ditangani oleh {userLabel}. Jika
+            tidak ada yang dipilih, pengguna dapat melihat semua data.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-[300px] max-h-[450px] overflow-y-auto border rounded-lg p-3">
+          {!customers ? (
+            <div className="flex items-center justify-center h-48">
+              <LoadingSpinner text="Memuat customer..." />
+            </div>
+          ) : customers.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">
+              Belum ada customer
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {customers.map((customer) => {
+                const customerChecked = selectedCustomers.has(customer.id);
+                const namedAreas = customer.areas.filter((a) => a.name);
+
+                return (
+                  <div key={customer.id} className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`scope-customer-${customer.id}`}
+                        checked={customerChecked}
+                        onCheckedChange={(checked) =>
+                          toggle(
+                            selectedCustomers,
+                            setSelectedCustomers,
+                            customer.id,
+                            checked === true
+                          )
+                        }
+                      />
+                      <Label
+                        htmlFor={`scope-customer-${customer.id}`}
+                        className="flex items-center gap-1.5 font-medium"
+                      >
+                        <Building2 className="h-3.5 w-3.5 text-muted-foreground" />
+                        {customer.name}
+                      </Label>
+                    </div>
+                    {namedAreas.length > 0 && (
+                      <div className="ml-6 space-y-1.5">
+                        {namedAreas.map((area) => (
+                          <div key={area.id} className="flex items-center gap-2">
+                            <Checkbox
+                              id={`scope-area-${area.id}`}
+                              checked={customerChecked || selectedAreas.has(area.id)}
+                              disabled={customerChecked}
+                              onCheckedChange={(checked) =>
+                                toggle(
+                                  selectedAreas,
+                                  setSelectedAreas,
+                                  area.id,
+                                  checked === true
+                                )
+                              }
+                            />
+                            <Label
+                              htmlFor={`scope-area-${area.id}`}
+                              className="flex items-center gap-1.5 text-sm font-normal"
+                            >
+                              <MapPin className="h-3 w-3 text-muted-foreground" />
+                              {area.name}
+                            </Label>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <p className="text-xs text-muted-foreground flex-1 self-center">
+            {totalSelected === 0
+              ? "Tidak dibatasi - semua customer"
+              : `${totalSelected} dipilih`}
+          </p>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Batal
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !customers}>
+            {isSaving ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Save className="mr-2 h-4 w-4" />
+            )}
+            Simpan
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ import {
 import { createClient } from "@/lib/supabase/client";
 import { logger } from "@/lib/logger";
 import type { User, AuthChangeEvent, Session } from "@supabase/supabase-js";
+import { hasPermission, type Permission } from "@/types/database";
 
 // User roles
 export type UserRole = "user" | "admin" | "super_admin";
@@ -42,6 +43,7 @@ interface AuthContextType {
   isAdmin: boolean;
   isSuperAdmin: boolean;
   canEdit: boolean;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -472,6 +474,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const isAdmin = role === "admin" || role === "super_admin";
   const isSuperAdmin = role === "super_admin";
   const canEdit = isAdmin; // admin and super_admin can edit
+  const can = (permission: Permission) => hasPermission(role, permission);
 
   return (
     <AuthContext.Provider
@@ -489,6 +492,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isAdmin,
         isSuperAdmin,
         canEdit,
+        can,
       }}
     >
       {children}
@@ -0,0 +1,91 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  type ReactNode,
+} from "react";
+import type { InvoiceType } from "@/types/database";
+import { DEFAULT_INVOICE_TYPES } from "@/types/database";
+import { useAuth } from "@/components/providers/auth-provider";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import { fetchInvoiceTypes } from "@/lib/supabase/data";
+
+interface InvoiceTypesContextType {
+  invoiceTypes: InvoiceType[]; // Semua tipe, termasuk yang diarsipkan
+  activeInvoiceTypes: InvoiceType[];
+  invoiceTypeNames: string[]; // Urutan tampil untuk filter, grafik & export
+  refresh: () => void;
+}
+
+const InvoiceTypesContext = createContext<InvoiceTypesContextType | undefined>(
+  undefined
+);
+
+// Daftar bawaan untuk mode placeholder atau jika tabel belum dibuat
+const FALLBACK_INVOICE_TYPES: InvoiceType[] = DEFAULT_INVOICE_TYPES.map((name, index) => ({
+  id: `default-${index + 1}`,
+  name,
+  sort_order: index + 1,
+  archived_at: null,
+  created_at: "",
+  updated_at: "",
+}));
+
+/**
+ * Invoice types from the `invoice_types` reference table, shared by the
+ * filters, contract forms, charts and exports.
+ */
+export function InvoiceTypesProvider({ children }: { children: ReactNode }) {
+  const { user, isPlaceholderMode } = useAuth();
+  const [invoiceTypes, setInvoiceTypes] = useState<InvoiceType[]>(FALLBACK_INVOICE_TYPES);
+  const [reloadToken, setReloadToken] = useState(0);
+
+  const serverMode = isSupabaseConfigured() && !isPlaceholderMode;
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!serverMode || !userId) return;
+
+    let cancelled = false;
+    fetchInvoiceTypes()
+      .then((loaded) => {
+        if (!cancelled && loaded.length > 0) setInvoiceTypes(loaded);
+      })
+      .catch((error) => console.error("Failed to load invoice types:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [serverMode, userId, reloadToken]);
+
+  const refresh = useCallback(() => setReloadToken((t) => t + 1), []);
+
+  const value = useMemo(
+    () => ({
+      invoiceTypes,
+      activeInvoiceTypes: invoiceTypes.filter((type) => !type.archived_at),
+      invoiceTypeNames: invoiceTypes.map((type) => type.name),
+      refresh,
+    }),
+    [invoiceTypes, refresh]
+  );
+
+  return (
+    <InvoiceTypesContext.Provider value={value}>
+      {children}
+    </InvoiceTypesContext.Provider>
+  );
+}
+
+export function useInvoiceTypes() {
+  const context = useContext(InvoiceTypesContext);
+  if (!context) {
+    throw new Error("useInvoiceTypes must be used within InvoiceTypesProvider");
+  }
+  return context;
+}
@@ -15,90 +15,179 @@ import {
   markAllAsRead as markAllRead,
   deleteNotification as deleteNotif,
   clearNotifications as clearNotifs,
-  getUnreadCount,
+  NOTIFICATIONS_KEY,
+  type NewNotification,
   type Notification,
+  type OverdueSummary,
 } from "@/lib/notifications";
+import { useAuth } from "@/components/providers/auth-provider";
+import { isSupabaseConfigured } from "@/lib/supabase/client";
+import {
+  fetchNotifications,
+  createNotification,
+  markNotificationsRead,
+  deleteNotifications,
+} from "@/lib/supabase/data";
+import { subscribeToNotifications } from "@/lib/supabase/realtime";
+import { showErrorToast } from "@/lib/toast";
 
 interface NotificationContextType {
   notifications: Notification[];
   unreadCount: number;
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
-  addNotification: (
-    notification: Omit<Notification, "id" | "timestamp" | "read">
-  ) => void;
+  addNotification: (notification: NewNotification) => void;
   markAsRead: (id: string) => void;
   markAllAsRead: () => void;
   deleteNotification: (id: string) => void;
   clearNotifications: () => void;
   refresh: () => void;
+  // Periode terlambat dari data dashboard yang sedang dibuka
+  overdue: OverdueSummary | null;
+  setOverdue: (summary: OverdueSummary | null) => void;
 }
 
 const NotificationContext = createContext<NotificationContextType | undefined>(
   undefined
 );
 
+/**
+ * Notifications of the logged-in user from the `notifications` table, kept in
+ * sync across devices via realtime. In placeholder mode the list lives in
+ * localStorage and is synced across tabs with the storage event.
+ */
 export function NotificationProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
   const [isOpen, setIsOpen] = useState(false);
+  const [overdue, setOverdue] = useState<OverdueSummary | null>(null);
+
+  const serverMode = isSupabaseConfigured();
+  const userId = user?.id ?? null;
+
+  const loadNotifications = useCallback((): Promise<Notification[]> => {
+    if (!serverMode) return Promise.resolve(getNotifications());
+    return userId ? fetchNotifications() : Promise.resolve([]);
+  }, [serverMode, userId]);
 
   const refresh = useCallback(() => {
-    const notifs = getNotifications();
-    setNotifications(notifs);
-    setUnreadCount(getUnreadCount());
-  }, []);
+    loadNotifications()
+      .then(setNotifications)
+      .catch((error) => console.error("Failed to load notifications:", error));
+  }, [loadNotifications]);
 
-  // Load notifications on mount
+  // Load on mount / login, then follow changes from other tabs or devices
   useEffect(() => {
-    refresh();
-  }, [refresh]);
+    let cancelled = false;
+    const reload = () => {
+      loadNotifications()
+        .then((loaded) => {
+          if (!cancelled) setNotifications(loaded);
+        })
+        .catch((error) => console.error("Failed to load notifications:", error));
+    };
+    reload();
 
-  // Listen for storage changes (for cross-tab sync)
-  useEffect(() => {
-    const handleStorage = (e: StorageEvent) => {
-      if (e.key === "bapp_notifications") {
-        refresh();
+    if (!serverMode) {
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key === NOTIFICATIONS_KEY) reload();
+      };
+      window.addEventListener("storage", handleStorage);
+      return () => {
+        cancelled = true;
+        window.removeEventListener("storage", handleStorage);
+      };
+    }
+
+    if (!userId) {
+      return () => {
+        cancelled = true;
+      };
+    }
+
+    const unsubscribe = subscribeToNotifications(userId, (change) => {
+      if (change.event === "delete") {
+        setNotifications((prev) => prev.filter((n) => n.id !== change.id));
+      } else {
+        reload();
       }
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
     };
+  }, [loadNotifications, serverMode, userId]);
 
-    window.addEventListener("storage", handleStorage);
-    return () => window.removeEventListener("storage", handleStorage);
-  }, [refresh]);
-
-  const addNotification = useCallback(
-    (notification: Omit<Notification, "id" | "timestamp" | "read">) => {
-      addNotif(notification);
+  // Perubahan ditampilkan langsung; jika gagal disimpan, muat ulang dari server
+  const handleServerError = useCallback(
+    (error: unknown) => {
+      showErrorToast(error, "Gagal memperbarui notifikasi");
       refresh();
     },
     [refresh]
   );
 
+  const addNotification = useCallback(
+    (notification: NewNotification) => {
+      if (!serverMode) {
+        addNotif(notification);
+        refresh();
+        return;
+      }
+      createNotification(notification).then(refresh).catch(handleServerError);
+    },
+    [serverMode, refresh, handleServerError]
+  );
+
   const markAsRead = useCallback(
     (id: string) => {
-      markRead(id);
-      refresh();
+      if (!serverMode) {
+        markRead(id);
+        refresh();
+        return;
+      }
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === id ? { ...n, read: true } : n))
+      );
+      markNotificationsRead(id).catch(handleServerError);
     },
-    [refresh]
+    [serverMode, refresh, handleServerError]
   );
 
   const markAllAsRead = useCallback(() => {
-    markAllRead();
-    refresh();
-  }, [refresh]);
+    if (!serverMode) {
+      markAllRead();
+      refresh();
+      return;
+    }
+    setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    markNotificationsRead().catch(handleServerError);
+  }, [serverMode, refresh, handleServerError]);
 
   const deleteNotification = useCallback(
     (id: string) => {
-      deleteNotif(id);
-      refresh();
+      if (!serverMode) {
+        deleteNotif(id);
+        refresh();
+        return;
+      }
+      setNotifications((prev) => prev.filter((n) => n.id !== id));
+      deleteNotifications(id).catch(handleServerError);
     },
-    [refresh]
+    [serverMode, refresh, handleServerError]
   );
 
   const clearNotifications = useCallback(() => {
-    clearNotifs();
-    refresh();
-  }, [refresh]);
+    if (!serverMode) {
+      clearNotifs();
+      refresh();
+      return;
+    }
+    setNotifications([]);
+    deleteNotifications().catch(handleServerError);
+  }, [serverMode, refresh, handleServerError]);
+
+  const unreadCount = notifications.filter((n) => !n.read).length;
 
   return (
     <NotificationContext.Provider
@@ -113,6 +202,8 @@ export function NotificationProvider({ children }: { children: ReactNode }) {
         deleteNotification,
         clearNotifications,
         refresh,
+        overdue,
+        setOverdue,
       }}
     >
       {children}
@@ -0,0 +1,395 @@
+// Backup functionality - machine-readable dump of one year (JSON or CSV in a
+// .zip) that restoreBackupDump in the data layer can replay with stable IDs
+import JSZip from "jszip";
+import type {
+  Area,
+  BAPPContract,
+  Customer,
+  MonthlyProgress,
+  PeriodInvoice,
+  Signatory,
+  Signature,
+  SignatureProgress,
+} from "@/types/database";
+
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupFormat = "json" | "csv";
+
+// Urutan tabel mengikuti foreign key: restore memproses dari atas ke bawah
+export const BACKUP_TABLES = [
+  "customers",
+  "signatories",
+  "areas",
+  "bapp_contracts",
+  "signatures",
+  "monthly_progress",
+  "signature_progress",
+  "period_invoices",
+] as const;
+
+export type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export interface BackupTables {
+  customers: Customer[];
+  signatories: Signatory[];
+  areas: Area[];
+  bapp_contracts: BAPPContract[];
+  signatures: Signature[];
+  monthly_progress: MonthlyProgress[];
+  signature_progress: SignatureProgress[];
+  period_invoices: PeriodInvoice[];
+}
+
+export interface BackupDump {
+  version: number;
+  year: number;
+  exported_at: string;
+  tables: BackupTables;
+}
+
+// merge: baris yang sudah ada ditimpa isi backup; missing: hanya baris baru
+export type RestoreMode = "merge" | "missing";
+
+export type RestoreResult = Record<
+  BackupTable,
+  { inserted: number; updated: number; skipped: number }
+>;
+
+// Kolom CSV per tabel (urutan tetap agar file bisa dibandingkan antar backup)
+const BACKUP_COLUMNS: Record<BackupTable, string[]> = {
+  customers: ["id", "name", "created_at", "updated_at", "deleted_at", "deleted_by"],
+  signatories: [
+    "id",
+    "customer_id",
+    "name",
+    "position",
+    "active_from",
+    "active_until",
+    "created_at",
+    "updated_at",
+  ],
+  areas: [
+    "id",
+    "customer_id",
+    "name",
+    "code",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+    "deleted_by",
+  ],
+  bapp_contracts: [
+    "id",
+    "customer_id",
+    "area_id",
+    "name",
+    "period",
+    "invoice_type",
+    "notes",
+    "deadline_days",
+    "contract_value",
+    "period_amount",
+    "start_date",
+    "end_date",
+    "period_anchor_month",
+    "year",
+    "created_at",
+    "updated_at",
+    "deleted_at",
+    "deleted_by",
+  ],
+  signatures: ["id", "contract_id", "name", "role", "signatory_id", "order", "created_at"],
+  monthly_progress: [
+    "id",
+    "contract_id",
+    "month",
+    "year",
+    "sub_period",
+    "upload_link",
+    "is_upload_completed",
+    "notes",
+    "notes_updated_at",
+    "created_at",
+    "updated_at",
+  ],
+  signature_progress: [
+    "id",
+    "monthly_progress_id",
+    "signature_id",
+    "is_completed",
+    "completed_at",
+    "completed_by",
+    "signer_name",
+    "signer_role",
+  ],
+  period_invoices: [
+    "id",
+    "contract_id",
+    "month",
+    "year",
+    "sub_period",
+    "invoice_number",
+    "invoice_date",
+    "amount",
+    "payment_status",
+    "paid_at",
+    "updated_by",
+    "updated_at",
+  ],
+};
+
+const NUMBER_COLUMNS = new Set([
+  "year",
+  "order",
+  "month",
+  "sub_period",
+  "deadline_days",
+  "contract_value",
+  "period_amount",
+  "period_anchor_month",
+  "amount",
+]);
+// Kolom yang ditambahkan setelah format v1; boleh tidak ada di CSV lama
+// (baris direstore dengan nilai default database)
+const OPTIONAL_COLUMNS = new Set([
+  "deadline_days",
+  "contract_value",
+  "period_amount",
+  "start_date",
+  "end_date",
+  "period_anchor_month",
+  "signatory_id",
+  "signer_name",
+  "signer_role",
+]);
+const BOOLEAN_COLUMNS = new Set(["is_upload_completed", "is_completed"]);
+// Tabel yang ditambahkan setelah format v1; backup lama tanpa tabel ini
+// direstore seolah tabelnya kosong
+const OPTIONAL_TABLES = new Set<BackupTable>(["signatories", "period_invoices"]);
+
+const MANIFEST_FILE = "manifest.json";
+
+// ===================
+// CSV HELPERS
+// ===================
+
+function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(table: BackupTable, rows: object[]): string {
+  const columns = BACKUP_COLUMNS[table];
+  const lines = [columns.join(",")];
+  rows.forEach((row) => {
+    const record = row as Record<string, unknown>;
+    lines.push(columns.map((col) => toCsvValue(record[col])).join(","));
+  });
+  return lines.join("\r\n");
+}
+
+// RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value !== ""));
+}
+
+function fromCsv(table: BackupTable, text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+  if (!header) return [];
+
+  const missing = BACKUP_COLUMNS[table].filter(
+    (col) => !header.includes(col) && !OPTIONAL_COLUMNS.has(col)
+  );
+  if (missing.length > 0) {
+    throw new Error(`${table}.csv tidak memiliki kolom: ${missing.join(", ")}`);
+  }
+
+  return rows.map((values) => {
+    const record: Record<string, unknown> = {};
+    BACKUP_COLUMNS[table].forEach((col) => {
+      if (!header.includes(col)) return;
+      const value = values[header.indexOf(col)] ?? "";
+      if (value === "") {
+        record[col] = BOOLEAN_COLUMNS.has(col) ? false : null;
+      } else if (NUMBER_COLUMNS.has(col)) {
+        record[col] = Number(value);
+      } else if (BOOLEAN_COLUMNS.has(col)) {
+        record[col] = value === "true";
+      } else {
+        record[col] = value;
+      }
+    });
+    return record;
+  });
+}
+
+// ===================
+// SERIALIZE / PARSE
+// ===================
+
+export function getBackupFilename(year: number, format: BackupFormat): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+  return `BAPP_Backup_TA_${year}_${date}.${format === "json" ? "json" : "zip"}`;
+}
+
+export function createBackupDump(year: number, tables: BackupTables): BackupDump {
+  return {
+    version: BACKUP_FORMAT_VERSION,
+    year,
+    exported_at: new Date().toISOString(),
+    tables,
+  };
+}
+
+export function countBackupRows(dump: BackupDump): Record<BackupTable, number> {
+  return Object.fromEntries(
+    BACKUP_TABLES.map((table) => [table, dump.tables[table].length])
+  ) as Record<BackupTable, number>;
+}
+
+/**
+ * Serialize a dump: one JSON file, or a .zip with one CSV per table plus a
+ * manifest.json holding version/year/exported_at.
+ */
+export async function serializeBackup(
+  dump: BackupDump,
+  format: BackupFormat
+): Promise<Blob> {
+  if (format === "json") {
+    return new Blob([JSON.stringify(dump, null, 2)], {
+      type: "application/json;charset=utf-8",
+    });
+  }
+
+  const zip = new JSZip();
+  zip.file(
+    MANIFEST_FILE,
+    JSON.stringify(
+      {
+        version: dump.version,
+        year: dump.year,
+        exported_at: dump.exported_at,
+        rows: countBackupRows(dump),
+      },
+      null,
+      2
+    )
+  );
+  BACKUP_TABLES.forEach((table) => {
+    zip.file(`${table}.csv`, toCsv(table, dump.tables[table]));
+  });
+
+  return zip.generateAsync({ type: "blob", compression: "DEFLATE" });
+}
+
+function validateDump(value: unknown): BackupDump {
+  const dump = value as Partial<BackupDump> | null;
+  if (!dump || typeof dump !== "object" || !dump.tables || typeof dump.year !== "number") {
+    throw new Error("File bukan backup Dashboard BAPP");
+  }
+  if (dump.version !== BACKUP_FORMAT_VERSION) {
+    throw new Error(`Versi backup ${dump.version} tidak didukung`);
+  }
+  BACKUP_TABLES.forEach((table) => {
+    if (dump.tables![table] === undefined && OPTIONAL_TABLES.has(table)) {
+      (dump.tables as Record<BackupTable, unknown[]>)[table] = [];
+    }
+    if (!Array.isArray(dump.tables![table])) {
+      throw new Error(`Tabel ${table} tidak ada di backup`);
+    }
+  });
+  return dump as BackupDump;
+}
+
+/**
+ * Read a backup file produced by serializeBackup (.json or .zip).
+ * Throws with a user-facing message if the file is not a valid backup.
+ */
+export async function parseBackupFile(file: File): Promise<BackupDump> {
+  if (file.name.toLowerCase().endsWith(".json")) {
+    try {
+      return validateDump(JSON.parse(await file.text()));
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error("File JSON tidak valid");
+      }
+      throw error;
+    }
+  }
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await file.arrayBuffer());
+  } catch {
+    throw new Error("File tidak dapat dibaca. Gunakan file backup .json atau .zip");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) {
+    throw new Error(`${MANIFEST_FILE} tidak ditemukan di file backup`);
+  }
+  const manifest = JSON.parse(await manifestFile.async("string"));
+
+  const tables = {} as Record<BackupTable, Record<string, unknown>[]>;
+  for (const table of BACKUP_TABLES) {
+    const csvFile = zip.file(`${table}.csv`);
+    if (!csvFile && OPTIONAL_TABLES.has(table)) continue;
+    if (!csvFile) {
+      throw new Error(`${table}.csv tidak ditemukan di file backup`);
+    }
+    tables[table] = fromCsv(table, await csvFile.async("string"));
+  }
+
+  return validateDump({ ...manifest, tables });
+}
+
+export async function downloadBackup(dump: BackupDump, format: BackupFormat): Promise<void> {
+  const blob = await serializeBackup(dump, format);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = getBackupFilename(dump.year, format);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,351 @@
+// Berita Acara (BAPP) document generator - fills a per-customer template for
+// one contract month/sub-period and renders it as PDF (jsPDF) or DOCX (docx)
+import { jsPDF } from "jspdf";
+import {
+  AlignmentType,
+  Document,
+  Packer,
+  Paragraph,
+  Table,
+  TableBorders,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import type {
+  BeritaAcaraTemplateContent,
+  ContractWithProgress,
+  MonthlyProgressDetail,
+} from "@/types/database";
+import { MONTH_NAMES_FULL, getPeriodStartMonth, parsePeriodToNumber } from "@/types/database";
+import { generateBAPPFilename } from "@/lib/file-preview";
+
+export type BeritaAcaraFormat = "pdf" | "docx";
+
+// Placeholder yang bisa dipakai di teks template
+export const BERITA_ACARA_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: "customer", label: "Nama customer" },
+  { key: "kontrak", label: "Nama kontrak" },
+  { key: "area", label: "Area" },
+  { key: "periode", label: "Periode kontrak, e.g. Per 3 Bulan" },
+  { key: "bulan", label: "Bulan yang diperiksa, e.g. Januari - Maret 2026" },
+  { key: "bulan_romawi", label: "Bulan dalam angka romawi" },
+  { key: "tahun", label: "Tahun" },
+  { key: "hari", label: "Nama hari dokumen" },
+  { key: "tanggal", label: "Tanggal dokumen" },
+  { key: "tempat", label: "Tempat penandatanganan" },
+];
+
+export const DEFAULT_BERITA_ACARA_TEMPLATE: BeritaAcaraTemplateContent = {
+  title: "BERITA ACARA PEMERIKSAAN PEKERJAAN",
+  number_format: "BAPP/{{bulan_romawi}}/{{tahun}}",
+  opening_text:
+    "Pada hari ini {{hari}}, tanggal {{tanggal}}, kami yang bertanda tangan di bawah ini telah melakukan pemeriksaan atas pelaksanaan pekerjaan dengan rincian sebagai berikut:",
+  closing_text:
+    "Berdasarkan hasil pemeriksaan tersebut, pekerjaan untuk {{bulan}} telah dilaksanakan dengan baik dan dapat diterima. Demikian Berita Acara ini dibuat untuk dipergunakan sebagaimana mestinya.",
+  place: "Jakarta",
+};
+
+export interface BeritaAcaraInput {
+  contract: ContractWithProgress;
+  progress: MonthlyProgressDetail;
+  customerName: string;
+  areaName: string;
+  year: number;
+  date: Date;
+  number: string; // Nomor dokumen (sudah diisi)
+  template: BeritaAcaraTemplateContent;
+}
+
+const ROMAN_MONTHS = ["I", "II", "III", "IV", "V", "VI", "VII", "VIII", "IX", "X", "XI", "XII"];
+
+// "Januari - Maret 2026", "Januari 2026 (tanggal 1-20)", atau "Januari 2026"
+export function getInspectionPeriodLabel(
+  contract: ContractWithProgress,
+  progress: MonthlyProgressDetail,
+  year: number
+): string {
+  const periodValue = parsePeriodToNumber(contract.period);
+  const endMonth = MONTH_NAMES_FULL[progress.month - 1];
+
+  if (periodValue === 0.5) {
+    return `${endMonth} ${year} (tanggal ${progress.sub_period === 1 ? "1-20" : "21-30"})`;
+  }
+  if (periodValue > 1) {
+    const startMonth = getPeriodStartMonth(progress.month, periodValue);
+    // Jadwal dengan bulan awal selain Januari bisa dimulai di tahun sebelumnya
+    const startYear = startMonth > progress.month ? ` ${year - 1}` : "";
+    return `${MONTH_NAMES_FULL[startMonth - 1]}${startYear} - ${endMonth} ${year}`;
+  }
+  return `${endMonth} ${year}`;
+}
+
+export function getBeritaAcaraValues(
+  input: Omit<BeritaAcaraInput, "number">
+): Record<string, string> {
+  const { contract, progress, customerName, areaName, year, date, template } = input;
+  return {
+    customer: customerName,
+    kontrak: contract.name,
+    area: areaName,
+    periode: contract.period,
+    bulan: getInspectionPeriodLabel(contract, progress, year),
+    bulan_romawi: ROMAN_MONTHS[progress.month - 1],
+    tahun: String(year),
+    hari: date.toLocaleDateString("id-ID", { weekday: "long" }),
+    tanggal: date.toLocaleDateString("id-ID", {
+      day: "numeric",
+      month: "long",
+      year: "numeric",
+    }),
+    tempat: template.place,
+  };
+}
+
+// Ganti {{key}} dengan nilainya; placeholder yang tidak dikenal dibiarkan
+export function fillTemplate(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+export function getBeritaAcaraFilename(
+  input: Pick<BeritaAcaraInput, "contract" | "progress" | "customerName" | "areaName" | "year">,
+  format: BeritaAcaraFormat
+): string {
+  const { contract, progress, customerName, areaName, year } = input;
+  const periodValue = parsePeriodToNumber(contract.period);
+  const base = generateBAPPFilename(
+    customerName,
+    contract.name,
+    areaName,
+    year,
+    periodValue,
+    progress.month
+  ).replace(/\.pdf$/, "");
+  const subPeriod = periodValue === 0.5 ? (progress.sub_period === 1 ? "-1-20" : "-21-30") : "";
+  return `${base}${subPeriod}.${format}`;
+}
+
+function getDetailRows(input: BeritaAcaraInput, values: Record<string, string>): [string, string][] {
+  return [
+    ["Customer", values.customer],
+    ["Nama Kontrak", values.kontrak],
+    ["Area", values.area],
+    ["Periode Kontrak", values.periode],
+    ["Periode Pemeriksaan", values.bulan],
+    ["Tipe Invoice", input.contract.invoice_type],
+  ];
+}
+
+// Nama dari progress periode: penandatangan lama tetap tercetak setelah diganti
+function getSignatories(progress: MonthlyProgressDetail) {
+  return [...progress.signatures].sort((a, b) => a.order - b.order);
+}
+
+export function generateBeritaAcaraPdf(input: BeritaAcaraInput): Blob {
+  const values = getBeritaAcaraValues(input);
+  const doc = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const margin = 25;
+  const textWidth = width - margin * 2;
+  let y = 30;
+
+  // Judul + nomor
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(14);
+  const title = fillTemplate(input.template.title, values);
+  doc.text(title, width / 2, y, { align: "center" });
+  const titleWidth = doc.getTextWidth(title);
+  doc.line((width - titleWidth) / 2, y + 1.5, (width + titleWidth) / 2, y + 1.5);
+  y += 7;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text(`Nomor: ${input.number}`, width / 2, y, { align: "center" });
+  y += 14;
+
+  const paragraph = (text: string) => {
+    const filled = fillTemplate(text, values);
+    const lines = doc.splitTextToSize(filled, textWidth);
+    doc.text(filled, margin, y, { align: "justify", maxWidth: textWidth });
+    y += lines.length * 5.5 + 6;
+  };
+
+  paragraph(input.template.opening_text);
+
+  // Rincian pekerjaan
+  getDetailRows(input, values).forEach(([label, value]) => {
+    const lines = doc.splitTextToSize(value, textWidth - 55);
+    doc.text(label, margin + 5, y);
+    doc.text(":", margin + 50, y);
+    doc.text(lines, margin + 55, y);
+    y += lines.length * 5.5;
+  });
+  y += 6;
+
+  paragraph(input.template.closing_text);
+
+  // Tempat & tanggal
+  doc.text(`${values.tempat}, ${values.tanggal}`, width - margin, y, { align: "right" });
+  y += 10;
+
+  // Blok tanda tangan, dua kolom
+  const signatories = getSignatories(input.progress);
+  const columnWidth = textWidth / 2;
+  for (let i = 0; i < signatories.length; i += 2) {
+    if (y + 40 > height - 20) {
+      doc.addPage();
+      y = 30;
+    }
+    signatories.slice(i, i + 2).forEach((sig, col) => {
+      const x = margin + col * columnWidth + columnWidth / 2;
+      doc.setFont("helvetica", "bold");
+      doc.text(doc.splitTextToSize(sig.role, columnWidth - 10), x, y, { align: "center" });
+      doc.setFont("helvetica", "normal");
+      doc.text(sig.name, x, y + 28, { align: "center" });
+      const nameWidth = doc.getTextWidth(sig.name);
+      doc.line(x - nameWidth / 2, y + 29, x + nameWidth / 2, y + 29);
+    });
+    y += 42;
+  }
+
+  return doc.output("blob");
+}
+
+export async function generateBeritaAcaraDocx(input: BeritaAcaraInput): Promise<Blob> {
+  const values = getBeritaAcaraValues(input);
+  const FONT = "Arial";
+  const SIZE = 22; // half-points = 11pt
+
+  const text = (content: string, options: { bold?: boolean; underline?: boolean } = {}) =>
+    new TextRun({
+      text: content,
+      font: FONT,
+      size: SIZE,
+      bold: options.bold,
+      underline: options.underline ? {} : undefined,
+    });
+
+  const noBorderCell = (children: Paragraph[], widthPercent: number) =>
+    new TableCell({
+      children,
+      width: { size: widthPercent, type: WidthType.PERCENTAGE },
+    });
+
+  const detailTable = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    borders: TableBorders.NONE,
+    rows: getDetailRows(input, values).map(
+      ([label, value]) =>
+        new TableRow({
+          children: [
+            noBorderCell([new Paragraph({ children: [text(label)] })], 35),
+            noBorderCell([new Paragraph({ children: [text(":")] })], 3),
+            noBorderCell([new Paragraph({ children: [text(value)] })], 62),
+          ],
+        })
+    ),
+  });
+
+  const signatories = getSignatories(input.progress);
+  const signatureRows: TableRow[] = [];
+  for (let i = 0; i < signatories.length; i += 2) {
+    const pair = signatories.slice(i, i + 2);
+    signatureRows.push(
+      new TableRow({
+        children: [0, 1].map((col) => {
+          const sig = pair[col];
+          return noBorderCell(
+            sig
+              ? [
+                  new Paragraph({
+                    alignment: AlignmentType.CENTER,
+                    children: [text(sig.role, { bold: true })],
+                  }),
+                  new Paragraph({ spacing: { before: 1400 }, children: [] }),
+                  new Paragraph({
+                    alignment: AlignmentType.CENTER,
+                    spacing: { after: 400 },
+                    children: [text(sig.name, { underline: true })],
+                  }),
+                ]
+              : [new Paragraph({ children: [] })],
+            50
+          );
+        }),
+      })
+    );
+  }
+
+  const doc = new Document({
+    creator: "Dashboard BAPP",
+    title: `${fillTemplate(input.template.title, values)} ${input.number}`,
+    sections: [
+      {
+        children: [
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            children: [text(fillTemplate(input.template.title, values), { bold: true, underline: true })],
+          }),
+          new Paragraph({
+            alignment: AlignmentType.CENTER,
+            spacing: { after: 400 },
+            children: [text(`Nomor: ${input.number}`)],
+          }),
+          new Paragraph({
+            alignment: AlignmentType.JUSTIFIED,
+            spacing: { after: 200 },
+            children: [text(fillTemplate(input.template.opening_text, values))],
+          }),
+          detailTable,
+          new Paragraph({
+            alignment: AlignmentType.JUSTIFIED,
+            spacing: { before: 200, after: 200 },
+            children: [text(fillTemplate(input.template.closing_text, values))],
+          }),
+          new Paragraph({
+            alignment: AlignmentType.RIGHT,
+            spacing: { after: 300 },
+            children: [text(`${values.tempat}, ${values.tanggal}`)],
+          }),
+          ...(signatureRows.length > 0
+            ? [
+                new Table({
+                  width: { size: 100, type: WidthType.PERCENTAGE },
+                  borders: TableBorders.NONE,
+                  rows: signatureRows,
+                }),
+              ]
+            : []),
+        ],
+      },
+    ],
+  });
+
+  return Packer.toBlob(doc);
+}
+
+function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Generate and download the document; returns the file name used
+export async function downloadBeritaAcara(
+  input: BeritaAcaraInput,
+  format: BeritaAcaraFormat
+): Promise<string> {
+  const blob =
+    format === "pdf" ? generateBeritaAcaraPdf(input) : await generateBeritaAcaraDocx(input);
+  const filename = getBeritaAcaraFilename(input, format);
+  downloadBlob(blob, filename);
+  return filename;
+}
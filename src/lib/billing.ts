@@ -0,0 +1,124 @@
+// Billing summary - completed BAPP periods matched with their invoices
+// (period_invoices, SUPABASE_SETUP.md §23) and totalled per customer or
+// invoice type for the finance view
+import type {
+  CustomerWithAreas,
+  MonthlyProgressDetail,
+  PeriodInvoice,
+} from "@/types/database";
+import { getActiveProgress, getBillableAmount } from "@/types/database";
+
+export type BillingGroupBy = "customer" | "invoice_type";
+
+export interface BillingTotals {
+  uninvoicedCount: number; // BAPP selesai, belum ditagih
+  uninvoicedAmount: number;
+  unpaidCount: number; // Sudah ditagih, belum dibayar
+  unpaidAmount: number;
+  paidCount: number;
+  paidAmount: number;
+  unvaluedCount: number; // Periode tanpa nilai kontrak (tidak ikut dijumlah)
+}
+
+export interface BillingSummaryRow extends BillingTotals {
+  key: string;
+  label: string;
+}
+
+export interface BillingSummary {
+  rows: BillingSummaryRow[];
+  total: BillingTotals;
+}
+
+const emptyTotals = (): BillingTotals => ({
+  uninvoicedCount: 0,
+  uninvoicedAmount: 0,
+  unpaidCount: 0,
+  unpaidAmount: 0,
+  paidCount: 0,
+  paidAmount: 0,
+  unvaluedCount: 0,
+});
+
+function periodKey(
+  contractId: string,
+  progress: Pick<MonthlyProgressDetail, "month" | "sub_period">
+): string {
+  return `${contractId}:${progress.month}:${progress.sub_period}`;
+}
+
+function addPeriod(
+  totals: BillingTotals,
+  invoice: PeriodInvoice | undefined,
+  amount: number | null
+) {
+  if (amount == null) totals.unvaluedCount++;
+  const value = amount ?? 0;
+
+  if (!invoice) {
+    totals.uninvoicedCount++;
+    totals.uninvoicedAmount += value;
+  } else if (invoice.payment_status === "paid") {
+    totals.paidCount++;
+    totals.paidAmount += value;
+  } else {
+    totals.unpaidCount++;
+    totals.unpaidAmount += value;
+  }
+}
+
+/**
+ * Total the billable periods of `data`: every active period at 100%, plus
+ * periods that already have an invoice. `invoiceTypeOrder` sorts the
+ * invoice type rows (the order from the invoice_types table).
+ */
+export function summarizeBilling(
+  data: CustomerWithAreas[],
+  invoices: PeriodInvoice[],
+  groupBy: BillingGroupBy,
+  invoiceTypeOrder: string[] = []
+): BillingSummary {
+  const invoiceByPeriod = new Map(
+    invoices.map((invoice) => [periodKey(invoice.contract_id, invoice), invoice])
+  );
+  const groups = new Map<string, BillingSummaryRow>();
+  const total = emptyTotals();
+
+  data.forEach((customer) => {
+    customer.areas.forEach((area) => {
+      area.contracts.forEach((contract) => {
+        const key = groupBy === "customer" ? customer.id : contract.invoice_type;
+        const label = groupBy === "customer" ? customer.name : contract.invoice_type;
+
+        getActiveProgress(contract).forEach((progress) => {
+          const invoice = invoiceByPeriod.get(periodKey(contract.id, progress));
+          if (progress.percentage < 100 && !invoice) return;
+
+          let row = groups.get(key);
+          if (!row) {
+            row = { key, label, ...emptyTotals() };
+            groups.set(key, row);
+          }
+
+          const amount = getBillableAmount(contract, invoice);
+          addPeriod(row, invoice, amount);
+          addPeriod(total, invoice, amount);
+        });
+      });
+    });
+  });
+
+  const rows = Array.from(groups.values());
+  if (groupBy === "invoice_type") {
+    // Tipe yang tidak ada di daftar (mis. data lama) ditaruh di akhir
+    const rank = (name: string) => {
+      const index = invoiceTypeOrder.indexOf(name);
+      return index === -1 ? invoiceTypeOrder.length : index;
+    };
+    rows.sort((a, b) => rank(a.label) - rank(b.label) || a.label.localeCompare(b.label));
+  } else {
+    rows.sort((a, b) => a.label.localeCompare(b.label));
+  }
+
+  return { rows, total };
+}
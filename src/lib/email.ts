@@ -0,0 +1,84 @@
+// SMTP email delivery for server-side jobs (scheduled reports, reminders).
+// Configure via SMTP_* env vars; point SMTP_HOST/SMTP_PORT at a local mail
+// catcher (e.g. Mailpit on localhost:1025) to test without sending mail.
+import nodemailer from "nodemailer";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string | null;
+  pass: string | null;
+  from: string;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_FROM = "Dashboard BAPP <noreply@localhost>";
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// SMTP settings from env; null if SMTP_HOST is not set
+export function getSmtpConfig(): SmtpConfig | null {
+  const host = process.env.SMTP_HOST;
+  if (!host) return null;
+
+  const port = parseInt(process.env.SMTP_PORT || "") || DEFAULT_SMTP_PORT;
+  return {
+    host,
+    port,
+    // Port 465 = TLS langsung; port lain memakai STARTTLS jika tersedia
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+    user: process.env.SMTP_USER || null,
+    pass: process.env.SMTP_PASS || null,
+    from: process.env.SMTP_FROM || DEFAULT_FROM,
+  };
+}
+
+/**
+ * Send one email to all recipients. Returns the SMTP message id.
+ * Throws if SMTP is not configured or the server rejects the message.
+ */
+export async function sendEmail(message: EmailMessage): Promise<string> {
+  const config = getSmtpConfig();
+  if (!config) {
+    throw new Error("SMTP belum dikonfigurasi (SMTP_HOST kosong)");
+  }
+
+  const transport = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.pass || "" } : undefined,
+  });
+
+  const info = await transport.sendMail({
+    from: config.from,
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+    attachments: message.attachments,
+  });
+
+  return info.messageId;
+}
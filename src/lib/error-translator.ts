@@ -1,5 +1,58 @@
 // Error message translator - converts database errors to user-friendly Indonesian messages
 
+import type { Permission } from "@/types/database";
+
+/**
+ * Thrown by the data layer when the current user's role lacks a permission
+ */
+export class ForbiddenError extends Error {
+  readonly code = "FORBIDDEN";
+  readonly permission: Permission;
+
+  constructor(permission: Permission) {
+    super(`Forbidden: missing permission "${permission}"`);
+    this.name = "ForbiddenError";
+    this.permission = permission;
+  }
+}
+
+/**
+ * Thrown by the data layer when a record was changed by someone else since it
+ * was loaded (optimistic concurrency check on updated_at).
+ * `current` holds the latest server data, or null if the record is gone.
+ */
+export class ConflictError<T = unknown> extends Error {
+  readonly code = "CONFLICT";
+  readonly entity: string;
+  readonly current: T | null;
+  readonly changedBy: string | null;
+
+  constructor(entity: string, current: T | null, changedBy: string | null = null) {
+    super(`Conflict: ${entity} was modified by another user`);
+    this.name = "ConflictError";
+    this.entity = entity;
+    this.current = current;
+    this.changedBy = changedBy;
+  }
+}
+
+const permissionLabels: Record<Permission, string> = {
+  "progress:edit": "mengubah progress",
+  "contract:create": "menambah kontrak",
+  "contract:edit": "mengubah kontrak",
+  "contract:delete": "menghapus data",
+  "contract:migrate": "mengubah periode kontrak",
+  "contract:import": "mengimpor kontrak",
+  "user:manage": "mengelola pengguna",
+  "trash:manage": "mengelola sampah",
+  "report:manage": "mengelola laporan email",
+  "reminder:send": "mengirim pengingat",
+  "notification:manage": "mengelola aturan notifikasi",
+  "invoice_type:manage": "mengelola tipe invoice",
+  "billing:manage": "mengelola penagihan",
+  "signatory:manage": "mengelola direktori penandatangan",
+};
+
 interface ErrorTranslation {
   pattern: RegExp;
   message: string;
@@ -18,12 +71,22 @@ const errorTranslations: ErrorTranslation[] = [
     message: "Customer dengan nama yang sama sudah ada. Silakan gunakan nama yang berbeda.",
     code: "CUSTOMER_DUPLICATE_NAME",
   },
+  {
+    pattern: /duplicate key value violates unique constraint "invoice_types_name_key"/i,
+    message: "Tipe invoice dengan nama yang sama sudah ada. Silakan gunakan nama yang berbeda.",
+    code: "INVOICE_TYPE_DUPLICATE_NAME",
+  },
   {
     pattern: /duplicate key value violates unique constraint/i,
     message: "Data dengan nilai yang sama sudah ada. Silakan periksa dan gunakan nilai yang unik.",
     code: "DUPLICATE_KEY",
   },
   // Foreign key violations
+  {
+    pattern: /violates foreign key constraint.*invoice_type/i,
+    message: "Tipe invoice tidak terdaftar. Pilih tipe invoice dari daftar atau tambahkan di menu Tipe Invoice.",
+    code: "INVALID_INVOICE_TYPE",
+  },
   {
     pattern: /violates foreign key constraint.*customer/i,
     message: "Customer yang dipilih tidak valid atau sudah dihapus.",
@@ -39,12 +102,39 @@ const errorTranslations: ErrorTranslation[] = [
     message: "Referensi data tidak valid. Data yang direferensikan mungkin sudah dihapus.",
     code: "INVALID_FOREIGN_KEY",
   },
-  // Check constraint violations
+  // Penagihan sebelum BAPP periode selesai (trigger period_invoices)
   {
-    pattern: /violates check constraint.*invoice_type/i,
-    message: "Jenis invoice tidak valid. Pilih salah satu: Pusat, Regional 2, atau Regional 3.",
-    code: "INVALID_INVOICE_TYPE",
+    pattern: /incomplete: BAPP/i,
+    message: "Invoice hanya bisa dicatat setelah progress BAPP periode ini mencapai 100%.",
+    code: "BAPP_INCOMPLETE",
+  },
+  // Migrasi periode kontrak yang sudah ditagih (trigger bapp_contracts)
+  {
+    pattern: /invoiced: periode/i,
+    message:
+      "Periode kontrak tidak bisa diubah karena sudah ada invoice yang dicatat. Hapus invoice terlebih dahulu.",
+    code: "PERIOD_INVOICED",
+  },
+  // Tanggal kontrak baru mengeluarkan periode yang sudah ditagih (trigger bapp_contracts)
+  {
+    pattern: /invoiced: tanggal/i,
+    message:
+      "Tanggal kontrak tidak bisa diubah karena ada invoice di luar rentang tanggal baru. Hapus invoice tersebut terlebih dahulu.",
+    code: "DATES_INVOICED",
+  },
+  // Penggantian penandatangan ke orang yang sama (RPC replace_signatory)
+  {
+    pattern: /same_signatory:/i,
+    message: "Penandatangan pengganti harus berbeda dari penandatangan yang diganti.",
+    code: "SAME_SIGNATORY",
   },
+  // Pengganti yang belum/tidak lagi aktif di bulan pengganti (RPC replace_signatory)
+  {
+    pattern: /inactive_signatory:/i,
+    message: "Penandatangan pengganti tidak aktif pada bulan yang dipilih. Periksa tanggal aktifnya.",
+    code: "INACTIVE_SIGNATORY",
+  },
+  // Check constraint violations
   {
     pattern: /violates check constraint/i,
     message: "Data yang dimasukkan tidak memenuhi aturan validasi.",
@@ -79,6 +169,11 @@ const errorTranslations: ErrorTranslation[] = [
     code: "NETWORK_ERROR",
   },
   // Permission errors
+  {
+    pattern: /row-level security|insufficient_privilege|forbidden/i,
+    message: "Role Anda tidak memiliki akses untuk melakukan tindakan ini. Hubungi Super Admin jika perlu akses.",
+    code: "FORBIDDEN",
+  },
   {
     pattern: /permission denied|not authorized|unauthorized/i,
     message: "Anda tidak memiliki izin untuk melakukan tindakan ini.",
@@ -108,6 +203,22 @@ export interface TranslatedError {
  * Translates a database or API error message to user-friendly Indonesian
  */
 export function translateError(error: unknown): TranslatedError {
+  if (error instanceof ForbiddenError) {
+    return {
+      message: `Role Anda tidak memiliki izin untuk ${permissionLabels[error.permission]}. Hubungi Super Admin jika perlu akses.`,
+      code: error.code,
+      originalMessage: error.message,
+    };
+  }
+
+  if (error instanceof ConflictError) {
+    return {
+      message: `Data telah diubah oleh ${error.changedBy || "pengguna lain"} sejak Anda membukanya. Muat ulang data lalu coba lagi.`,
+      code: error.code,
+      originalMessage: error.message,
+    };
+  }
+
   // Extract error message
   let originalMessage: string;
   
@@ -1,7 +1,24 @@
 // Export functionality using exceljs library for proper Excel files with styling
 import ExcelJS from "exceljs";
-import type { CustomerWithAreas, ContractWithProgress } from "@/types/database";
-import { MONTH_NAMES, MONTH_NAMES_FULL, parsePeriodToNumber } from "@/types/database";
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import type {
+  CustomerWithAreas,
+  ContractWithProgress,
+  MonthlyProgressDetail,
+} from "@/types/database";
+import {
+  MONTH_NAMES,
+  MONTH_NAMES_FULL,
+  getActiveProgress,
+  getAverageProgress,
+  getContractPeriodMonths,
+  getPeriodAnchorMonth,
+  getPeriodRanges,
+  getPeriodStartMonth,
+  getSubPeriodLabel,
+  parsePeriodToNumber,
+} from "@/types/database";
 
 // Format date helper
 function formatDate(dateStr: string | null): string {
@@ -27,7 +44,7 @@ function formatExportDate(): string {
 }
 
 // Export types
-export type ExportFormat = "excel" | "txt";
+export type ExportFormat = "excel" | "txt" | "pdf";
 export type ExportScope = "all" | "customer" | "contract";
 
 export interface ExportOptions {
@@ -37,11 +54,48 @@ export interface ExportOptions {
   customerId?: string;
   customerName?: string;
   contractId?: string;
-  includeTimeline?: boolean;
-  includeSignatures?: boolean;
-  includeNotes?: boolean;
+  includeTimeline?: boolean; // Excel: sheet "Timeline", TXT: status upload/update per bulan
+  includeSignatures?: boolean; // Excel: sheet "Tanda Tangan", TXT: detail tanda tangan
+  includeNotes?: boolean; // Excel: sheet "Catatan", TXT: catatan per bulan
+  includeInvoiceSummary?: boolean; // Excel: sheet "Per Tipe Invoice"
+  invoiceTypes?: string[]; // Urutan baris sheet "Per Tipe Invoice"
+  columns?: ExportColumn[]; // Kolom sheet utama Excel (default: DEFAULT_EXPORT_COLUMNS)
 }
 
+// Columns of the main Excel sheet; "months" expands to JAN..DES
+export type ExportColumn =
+  | "no"
+  | "customer"
+  | "contract"
+  | "area"
+  | "period"
+  | "invoice"
+  | "signatures"
+  | "notes"
+  | "months";
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string; width: number }[] = [
+  { key: "no", label: "NO", width: 6 },
+  { key: "customer", label: "CUSTOMER", width: 28 },
+  { key: "contract", label: "NAMA KONTRAK", width: 45 },
+  { key: "area", label: "AREA", width: 22 },
+  { key: "period", label: "PERIODE", width: 16 },
+  { key: "invoice", label: "INVOICE", width: 12 },
+  { key: "signatures", label: "JUMLAH TTD", width: 12 },
+  { key: "notes", label: "KETERANGAN", width: 30 },
+  { key: "months", label: "PROGRESS BULANAN", width: 10 },
+];
+
+// Same layout as before column selection existed
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+  "no",
+  "customer",
+  "contract",
+  "area",
+  "period",
+  "months",
+];
+
 // Row data interface for Excel export with merge tracking
 interface ExcelRowData {
   rowNumber: number;
@@ -49,7 +103,10 @@ interface ExcelRowData {
   contract: string;
   area: string;
   period: string;
-  periodValue: number; // For month merging
+  invoiceType: string;
+  totalSignatures: number;
+  notes: string;
+  monthRanges: { start: number; end: number }[]; // Month columns to merge
   monthlyData: (number | string)[];
   customerRowStart: number;
   customerRowSpan: number;
@@ -60,17 +117,107 @@ interface ExcelRowData {
   excelRowNumber: number; // Actual Excel row number for month merging
 }
 
+// Monthly percentages for one contract row (index 0 = JAN, "-" = no data).
+// For periods >= 1 month the value is placed at the START month of each
+// period so merged cells show it; progress is stored at the END month.
+// Half-month contracts get one row per sub-period, like the table.
+function getMonthlyValues(
+  contract: ContractWithProgress,
+  periodVal: number,
+  subPeriod: number = 1
+): (number | string)[] {
+  const monthlyData: (number | string)[] = Array(12).fill("-");
+  const activeProgress = getActiveProgress(contract);
+
+  if (periodVal >= 1) {
+    getPeriodRanges(getContractPeriodMonths(contract), periodVal).forEach((range) => {
+      const progress = activeProgress.find((mp) => mp.month === range.end);
+      if (progress) {
+        monthlyData[range.start - 1] = progress.percentage;
+      }
+    });
+  } else {
+    MONTH_NAMES.forEach((_, monthIndex) => {
+      const progress = activeProgress.find(
+        (mp) => mp.month === monthIndex + 1 && mp.sub_period === subPeriod
+      );
+      if (progress) {
+        monthlyData[monthIndex] = progress.percentage;
+      }
+    });
+  }
+
+  return monthlyData;
+}
+
+// Month columns merged on a contract row, like the table colspans: one range
+// per period of the year plus the months of a period that ends next year
+function getMergedMonthRanges(
+  contract: ContractWithProgress,
+  periodVal: number
+): { start: number; end: number }[] {
+  if (periodVal <= 1) return [];
+  const ranges = getPeriodRanges(getContractPeriodMonths(contract), periodVal);
+  const lastEnd = ranges[ranges.length - 1]?.end ?? 0;
+  if (lastEnd < 12) ranges.push({ start: lastEnd + 1, end: 12 });
+  return ranges.filter((range) => range.end > range.start);
+}
+
+// Rows for one contract: [1] for regular periods, [1, 2] for half-month
+function getExportSubPeriods(periodVal: number): number[] {
+  return periodVal === 0.5 ? [1, 2] : [1];
+}
+
+// Period column text, e.g. "Per 1/2 Bulan - P1 (1-20)" for half-month rows or
+// "Per 3 Bulan - mulai JUL" for schedules not anchored in January (read back
+// by import.ts)
+function getPeriodCellLabel(
+  contract: ContractWithProgress,
+  periodVal: number,
+  subPeriod: number
+): string {
+  if (periodVal === 0.5) return `${contract.period} - ${getSubPeriodLabel(subPeriod)}`;
+  const anchorMonth = getPeriodAnchorMonth(contract);
+  return periodVal > 1 && anchorMonth !== 1
+    ? `${contract.period} - mulai ${MONTH_NAMES[anchorMonth - 1]}`
+    : contract.period;
+}
+
+// Label for one progress entry: "JAN", "JAN-MAR" (or "NOV-JAN" for anchored
+// schedules) for multi-month periods (progress is stored at the end month)
+// or "JAN P1 (1-20)" for half-month
+function getProgressEntryLabel(
+  progress: MonthlyProgressDetail,
+  periodVal: number,
+  monthNames: readonly string[] = MONTH_NAMES
+): string {
+  const month = monthNames[progress.month - 1];
+  if (periodVal === 0.5) {
+    return `${month} ${getSubPeriodLabel(progress.sub_period)}`;
+  }
+  if (periodVal > 1) {
+    const startMonth = getPeriodStartMonth(progress.month, periodVal);
+    return `${monthNames[startMonth - 1]}-${month}`;
+  }
+  return month;
+}
+
 // Build flat row data with merge information for vertical merging
 function buildRowData(data: CustomerWithAreas[]): ExcelRowData[] {
   const rowsData: ExcelRowData[] = [];
   let rowNumber = 0;
   let excelRow = 1; // Start at row 1 (row 0 is header in 0-indexed)
 
+  const countRows = (contract: ContractWithProgress) =>
+    getExportSubPeriods(parsePeriodToNumber(contract.period)).length;
+
   data.forEach((customer) => {
-    // Count total contracts for this customer across all areas
-    let customerContractCount = 0;
+    // Count total rows for this customer across all areas
+    let customerRowCount = 0;
     customer.areas.forEach((area) => {
-      customerContractCount += area.contracts.length;
+      area.contracts.forEach((contract) => {
+        customerRowCount += countRows(contract);
+      });
     });
 
     // Group contracts by name across all areas for this customer
@@ -90,6 +237,10 @@ function buildRowData(data: CustomerWithAreas[]): ExcelRowData[] {
 
     contractGroups.forEach((contractItems, contractKey) => {
       const contractRowStart = excelRow;
+      const contractRowSpan = contractItems.reduce(
+        (sum, { contract }) => sum + countRows(contract),
+        0
+      );
       let isFirstContractRow = true;
 
       contractItems.forEach(({ contract, area }) => {
@@ -97,55 +248,32 @@ function buildRowData(data: CustomerWithAreas[]): ExcelRowData[] {
 
         // Parse period value for correct data placement
         const periodVal = parsePeriodToNumber(contract.period);
-        
-        // Get monthly progress data - place values at START of each period for merged cells
-        const monthlyData: (number | string)[] = Array(12).fill("-");
-        
-        if (periodVal >= 1) {
-          // For periods >= 1 month, place data at start of each period
-          for (let startMonth = 1; startMonth <= 12; startMonth += periodVal) {
-            const endMonth = Math.min(startMonth + periodVal - 1, 12);
-            // Progress is stored at the END month of each period
-            const progress = contract.monthly_progress.find(
-              (mp) => mp.month === endMonth
-            );
-            if (progress) {
-              // Place value at START month so merged cell shows it
-              monthlyData[startMonth - 1] = progress.percentage;
-            }
-          }
-        } else {
-          // For half-month periods, keep original logic
-          MONTH_NAMES.forEach((_, monthIndex) => {
-            const progress = contract.monthly_progress.find(
-              (mp) => mp.month === monthIndex + 1
-            );
-            if (progress) {
-              monthlyData[monthIndex] = progress.percentage;
-            }
+
+        getExportSubPeriods(periodVal).forEach((subPeriod) => {
+          rowsData.push({
+            rowNumber,
+            customer: customer.name,
+            contract: contractKey,
+            area,
+            period: getPeriodCellLabel(contract, periodVal, subPeriod),
+            invoiceType: contract.invoice_type,
+            totalSignatures: contract.total_signatures,
+            notes: contract.notes || "",
+            monthRanges: getMergedMonthRanges(contract, periodVal),
+            monthlyData: getMonthlyValues(contract, periodVal, subPeriod),
+            customerRowStart,
+            customerRowSpan: customerRowCount,
+            contractRowStart,
+            contractRowSpan,
+            isFirstCustomerRow,
+            isFirstContractRow,
+            excelRowNumber: excelRow + 1, // +1 because header is row 1
           });
-        }
 
-        rowsData.push({
-          rowNumber,
-          customer: customer.name,
-          contract: contractKey,
-          area,
-          period: contract.period,
-          periodValue: periodVal,
-          monthlyData,
-          customerRowStart,
-          customerRowSpan: customerContractCount,
-          contractRowStart,
-          contractRowSpan: contractItems.length,
-          isFirstCustomerRow,
-          isFirstContractRow,
-          excelRowNumber: excelRow + 1, // +1 because header is row 1
+          excelRow++;
+          isFirstCustomerRow = false;
+          isFirstContractRow = false;
         });
-
-        excelRow++;
-        isFirstCustomerRow = false;
-        isFirstContractRow = false;
       });
     });
   });
@@ -153,190 +281,418 @@ function buildRowData(data: CustomerWithAreas[]): ExcelRowData[] {
   return rowsData;
 }
 
-// Generate and download Excel file using exceljs with styling
-async function generateExcelFile(data: CustomerWithAreas[], filename: string): Promise<void> {
-  const rowsData = buildRowData(data);
+const THIN_BORDER_HEADER = { style: "thin" as const, color: { argb: "FF000000" } };
+const THIN_BORDER_DATA = { style: "thin" as const, color: { argb: "FFD1D5DB" } };
 
-  // Create workbook and worksheet
-  const wb = new ExcelJS.Workbook();
-  wb.creator = "Dashboard BAPP";
-  wb.created = new Date();
-  
-  const ws = wb.addWorksheet("BAPP Report", {
-    views: [{ state: "frozen", ySplit: 1 }], // Freeze header row
-  });
-
-  // Define columns with widths
-  ws.columns = [
-    { key: "no", width: 6 },
-    { key: "customer", width: 28 },
-    { key: "contract", width: 45 },
-    { key: "area", width: 22 },
-    { key: "period", width: 16 },
-    ...MONTH_NAMES.map((name) => ({ key: name.toLowerCase(), width: 10 })),
-  ];
-
-  // Header row
-  const headers = ["NO", "CUSTOMER", "NAMA KONTRAK", "AREA", "PERIODE", ...MONTH_NAMES];
-  const headerRow = ws.addRow(headers);
-  
-  // Style header row
+// Dark blue header with white bold text, shared by all sheets
+function styleHeaderRow(headerRow: ExcelJS.Row): void {
   headerRow.height = 28;
   headerRow.eachCell((cell) => {
-    // Header background color - dark blue
     cell.fill = {
       type: "pattern",
       pattern: "solid",
       fgColor: { argb: "FF1E3A5F" }, // Dark blue
     };
-    // Header font - white, bold
     cell.font = {
       bold: true,
       color: { argb: "FFFFFFFF" },
       size: 11,
     };
-    // Alignment - center horizontal, middle vertical
     cell.alignment = {
       horizontal: "center",
       vertical: "middle",
       wrapText: true,
     };
-    // Border
     cell.border = {
-      top: { style: "thin", color: { argb: "FF000000" } },
-      left: { style: "thin", color: { argb: "FF000000" } },
-      bottom: { style: "thin", color: { argb: "FF000000" } },
-      right: { style: "thin", color: { argb: "FF000000" } },
+      top: THIN_BORDER_HEADER,
+      left: THIN_BORDER_HEADER,
+      bottom: THIN_BORDER_HEADER,
+      right: THIN_BORDER_HEADER,
     };
   });
+}
 
-  // Alternating row colors for data
+// Alternating background, small font and light borders for a data row
+function styleDataRow(
+  dataRow: ExcelJS.Row,
+  rowIndex: number,
+  isCenteredColumn: (colNumber: number) => boolean = () => false
+): void {
   const evenRowColor = "FFF3F4F6"; // Light gray
   const oddRowColor = "FFFFFFFF"; // White
+  const bgColor = rowIndex % 2 === 0 ? evenRowColor : oddRowColor;
+
+  dataRow.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+    cell.fill = {
+      type: "pattern",
+      pattern: "solid",
+      fgColor: { argb: bgColor },
+    };
+    cell.font = {
+      size: 10,
+      color: { argb: "FF333333" },
+    };
+    cell.alignment = {
+      horizontal: isCenteredColumn(colNumber) ? "center" : "left",
+      vertical: "middle",
+      wrapText: true,
+    };
+    cell.border = {
+      top: THIN_BORDER_DATA,
+      left: THIN_BORDER_DATA,
+      bottom: THIN_BORDER_DATA,
+      right: THIN_BORDER_DATA,
+    };
+  });
+}
+
+// Detail sheet (timeline, tanda tangan, catatan): header + plain styled rows
+function addDetailSheet(
+  wb: ExcelJS.Workbook,
+  name: string,
+  columns: { header: string; width: number; center?: boolean }[],
+  rows: (string | number)[][]
+): void {
+  const ws = wb.addWorksheet(name, {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  ws.columns = columns.map((col) => ({ width: col.width }));
+  styleHeaderRow(ws.addRow(columns.map((col) => col.header)));
+
+  rows.forEach((values, rowIndex) => {
+    const dataRow = ws.addRow(values);
+    styleDataRow(dataRow, rowIndex, (colNumber) => !!columns[colNumber - 1]?.center);
+  });
+}
+
+// Every active progress entry with its customer/area context
+function collectProgressEntries(data: CustomerWithAreas[]) {
+  const entries: {
+    customer: string;
+    area: string;
+    contract: ContractWithProgress;
+    progress: MonthlyProgressDetail;
+    label: string;
+  }[] = [];
+
+  data.forEach((customer) => {
+    customer.areas.forEach((area) => {
+      area.contracts.forEach((contract) => {
+        const periodVal = parsePeriodToNumber(contract.period);
+        getActiveProgress(contract).forEach((progress) => {
+          entries.push({
+            customer: customer.name,
+            area: area.name,
+            contract,
+            progress,
+            label: `${getProgressEntryLabel(progress, periodVal, MONTH_NAMES_FULL)} ${progress.year}`,
+          });
+        });
+      });
+    });
+  });
+
+  return entries;
+}
+
+function addTimelineSheet(wb: ExcelJS.Workbook, data: CustomerWithAreas[]): void {
+  addDetailSheet(
+    wb,
+    "Timeline",
+    [
+      { header: "CUSTOMER", width: 28 },
+      { header: "NAMA KONTRAK", width: 40 },
+      { header: "AREA", width: 22 },
+      { header: "BULAN", width: 24 },
+      { header: "STATUS", width: 12, center: true },
+      { header: "PROGRESS", width: 11, center: true },
+      { header: "TTD", width: 8, center: true },
+      { header: "UPLOAD", width: 10, center: true },
+      { header: "UPDATE", width: 24 },
+    ],
+    collectProgressEntries(data).map(({ customer, area, contract, progress, label }) => [
+      customer,
+      contract.name,
+      area,
+      label,
+      getProgressStatus(progress.percentage),
+      `${progress.percentage}%`,
+      `${progress.signatures.filter((s) => s.is_completed).length}/${progress.signatures.length}`,
+      progress.is_upload_completed ? "Sudah" : "Belum",
+      formatDate(progress.updated_at),
+    ])
+  );
+}
+
+function addSignaturesSheet(wb: ExcelJS.Workbook, data: CustomerWithAreas[]): void {
+  addDetailSheet(
+    wb,
+    "Tanda Tangan",
+    [
+      { header: "CUSTOMER", width: 28 },
+      { header: "NAMA KONTRAK", width: 40 },
+      { header: "AREA", width: 22 },
+      { header: "BULAN", width: 24 },
+      { header: "PENANDATANGAN", width: 28 },
+      { header: "JABATAN", width: 22 },
+      { header: "STATUS", width: 10, center: true },
+      { header: "TANGGAL SELESAI", width: 24 },
+      { header: "OLEH", width: 22 },
+    ],
+    collectProgressEntries(data).flatMap(({ customer, area, contract, progress, label }) =>
+      progress.signatures.map((sig) => [
+        customer,
+        contract.name,
+        area,
+        label,
+        sig.name,
+        sig.role,
+        sig.is_completed ? "Sudah" : "Belum",
+        formatDate(sig.completed_at),
+        sig.completed_by_name || "-",
+      ])
+    )
+  );
+}
+
+function addNotesSheet(wb: ExcelJS.Workbook, data: CustomerWithAreas[]): void {
+  addDetailSheet(
+    wb,
+    "Catatan",
+    [
+      { header: "CUSTOMER", width: 28 },
+      { header: "NAMA KONTRAK", width: 40 },
+      { header: "AREA", width: 22 },
+      { header: "BULAN", width: 24 },
+      { header: "CATATAN", width: 60 },
+      { header: "UPDATE", width: 24 },
+    ],
+    collectProgressEntries(data)
+      .filter(({ progress }) => progress.notes)
+      .map(({ customer, area, contract, progress, label }) => [
+        customer,
+        contract.name,
+        area,
+        label,
+        progress.notes || "",
+        formatDate(progress.updated_at),
+      ])
+  );
+}
+
+// One row per invoice type, in the order of `invoiceTypes` (types missing
+// from the list go last)
+function addInvoiceSummarySheet(
+  wb: ExcelJS.Workbook,
+  data: CustomerWithAreas[],
+  invoiceTypes: string[] = []
+): void {
+  const contracts = data.flatMap((customer) =>
+    customer.areas.flatMap((area) => area.contracts)
+  );
+  const names = [
+    ...invoiceTypes,
+    ...Array.from(new Set(contracts.map((c) => c.invoice_type)))
+      .filter((name) => !invoiceTypes.includes(name))
+      .sort((a, b) => a.localeCompare(b)),
+  ];
+
+  addDetailSheet(
+    wb,
+    "Per Tipe Invoice",
+    [
+      { header: "TIPE INVOICE", width: 24 },
+      { header: "KONTRAK", width: 12, center: true },
+      { header: "SELESAI", width: 12, center: true },
+      { header: "DALAM PROSES", width: 14, center: true },
+      { header: "BELUM MULAI", width: 14, center: true },
+      { header: "RATA-RATA PROGRESS", width: 20, center: true },
+    ],
+    names
+      .map((name) => ({ name, items: contracts.filter((c) => c.invoice_type === name) }))
+      .filter(({ items }) => items.length > 0)
+      .map(({ name, items }) => {
+        const countStatus = (status: ContractWithProgress["yearly_status"]) =>
+          items.filter((c) => c.yearly_status === status).length;
+        const average =
+          items.reduce((sum, c) => sum + getAverageProgress(c), 0) / items.length;
+        return [
+          name,
+          items.length,
+          countStatus("completed"),
+          countStatus("in_progress"),
+          countStatus("not_started"),
+          `${Math.round(average)}%`,
+        ];
+      })
+  );
+}
+
+type ExcelOptions = Pick<
+  ExportOptions,
+  | "columns"
+  | "includeTimeline"
+  | "includeSignatures"
+  | "includeNotes"
+  | "includeInvoiceSummary"
+  | "invoiceTypes"
+>;
+
+// Build the styled workbook (main sheet + optional detail sheets)
+function buildExcelWorkbook(
+  data: CustomerWithAreas[],
+  options: ExcelOptions = {}
+): ExcelJS.Workbook {
+  const rowsData = buildRowData(data);
+  const selected = options.columns?.length ? options.columns : DEFAULT_EXPORT_COLUMNS;
+  const columns = EXPORT_COLUMNS.filter((col) => selected.includes(col.key));
+
+  // Create workbook and worksheet
+  const wb = new ExcelJS.Workbook();
+  wb.creator = "Dashboard BAPP";
+  wb.created = new Date();
+  
+  const ws = wb.addWorksheet("BAPP Report", {
+    views: [{ state: "frozen", ySplit: 1 }], // Freeze header row
+  });
+
+  // Column numbers (1-based) of the selected columns; months expand to 12 columns
+  const columnNumber = (key: ExportColumn): number | null => {
+    const index = columns.findIndex((col) => col.key === key);
+    return index === -1 ? null : index + 1;
+  };
+  const customerCol = columnNumber("customer");
+  const contractCol = columnNumber("contract");
+  const MONTH_START_COL = columnNumber("months");
+
+  // Define columns with widths
+  ws.columns = columns.flatMap((col) =>
+    col.key === "months"
+      ? MONTH_NAMES.map((name) => ({ key: name.toLowerCase(), width: col.width }))
+      : [{ key: col.key, width: col.width }]
+  );
+
+  // Header row
+  const headers = columns.flatMap((col) =>
+    col.key === "months" ? [...MONTH_NAMES] : [col.label]
+  );
+  styleHeaderRow(ws.addRow(headers));
 
   // Add data rows
   rowsData.forEach((row, rowIndex) => {
-    const rowData = [
-      row.rowNumber,
-      row.customer,
-      row.contract,
-      row.area,
-      row.period,
-      ...row.monthlyData.map((v) => {
-        if (v === "-") return "";
-        if (typeof v === "number") return `${v}%`;
-        return v;
-      }),
-    ];
+    const rowData = columns.flatMap((col): (string | number)[] => {
+      switch (col.key) {
+        case "no":
+          return [row.rowNumber];
+        case "customer":
+          return [row.customer];
+        case "contract":
+          return [row.contract];
+        case "area":
+          return [row.area];
+        case "period":
+          return [row.period];
+        case "invoice":
+          return [row.invoiceType];
+        case "signatures":
+          return [row.totalSignatures];
+        case "notes":
+          return [row.notes];
+        case "months":
+          return row.monthlyData.map((v) => {
+            if (v === "-") return "";
+            if (typeof v === "number") return `${v}%`;
+            return v;
+          });
+      }
+    });
     
     const dataRow = ws.addRow(rowData);
     dataRow.height = 24;
     
-    // Determine row background color (alternating)
-    const isEvenRow = rowIndex % 2 === 0;
-    const bgColor = isEvenRow ? evenRowColor : oddRowColor;
-    
-    dataRow.eachCell((cell, colNumber) => {
-      // Background color - alternating rows
-      cell.fill = {
-        type: "pattern",
-        pattern: "solid",
-        fgColor: { argb: bgColor },
-      };
-      
-      // Font
-      cell.font = {
-        size: 10,
-        color: { argb: "FF333333" },
-      };
-      
-      // Alignment - vertical always middle
-      // Horizontal: center for percentage columns (6-17), left for others
-      const isPercentageColumn = colNumber >= 6 && colNumber <= 17;
-      cell.alignment = {
-        horizontal: isPercentageColumn ? "center" : "left",
-        vertical: "middle",
-        wrapText: true,
-      };
-      
-      // Border
-      cell.border = {
-        top: { style: "thin", color: { argb: "FFD1D5DB" } },
-        left: { style: "thin", color: { argb: "FFD1D5DB" } },
-        bottom: { style: "thin", color: { argb: "FFD1D5DB" } },
-        right: { style: "thin", color: { argb: "FFD1D5DB" } },
-      };
-    });
+    // Horizontal: center for percentage columns, left for others
+    styleDataRow(
+      dataRow,
+      rowIndex,
+      (colNumber) =>
+        MONTH_START_COL !== null &&
+        colNumber >= MONTH_START_COL &&
+        colNumber < MONTH_START_COL + 12
+    );
   });
 
   // Apply merges for customer and contract columns
-  rowsData.forEach((row) => {
-    // Customer column merge (column B = 2)
-    if (row.isFirstCustomerRow && row.customerRowSpan > 1) {
-      ws.mergeCells(
-        row.customerRowStart + 1, 2,
-        row.customerRowStart + row.customerRowSpan, 2
-      );
-    }
-
-    // Contract column merge (column C = 3)
-    if (row.isFirstContractRow && row.contractRowSpan > 1) {
-      ws.mergeCells(
-        row.contractRowStart + 1, 3,
-        row.contractRowStart + row.contractRowSpan, 3
-      );
-    }
-  });
+  const mergedColumns = [
+    { col: customerCol, isFirst: "isFirstCustomerRow", start: "customerRowStart", span: "customerRowSpan" },
+    { col: contractCol, isFirst: "isFirstContractRow", start: "contractRowStart", span: "contractRowSpan" },
+  ] as const;
 
-  // After merging, reapply alignment to merged cells
   rowsData.forEach((row) => {
-    if (row.isFirstCustomerRow && row.customerRowSpan > 1) {
-      const cell = ws.getCell(row.customerRowStart + 1, 2);
-      cell.alignment = { horizontal: "left", vertical: "middle", wrapText: true };
-    }
-    if (row.isFirstContractRow && row.contractRowSpan > 1) {
-      const cell = ws.getCell(row.contractRowStart + 1, 3);
+    mergedColumns.forEach(({ col, isFirst, start, span }) => {
+      if (col === null || !row[isFirst] || row[span] <= 1) return;
+      ws.mergeCells(row[start] + 1, col, row[start] + row[span], col);
+
+      // After merging, reapply alignment to merged cells
+      const cell = ws.getCell(row[start] + 1, col);
       cell.alignment = { horizontal: "left", vertical: "middle", wrapText: true };
-    }
+    });
   });
 
   // Apply horizontal month merging based on period
-  // Month columns start at column 6 (F = JAN) to column 17 (Q = DES)
-  const MONTH_START_COL = 6;
-  
   rowsData.forEach((row) => {
-    const periodValue = row.periodValue;
-    
-    // Only merge if period > 1 month
-    if (periodValue > 1 && periodValue <= 12) {
+    // monthRanges is empty for periods of 1 month or less
+    if (MONTH_START_COL !== null) {
       const excelRow = row.excelRowNumber;
       
-      // Calculate merge groups
-      // For period 3: merge cols 6-8 (JAN-MAR), 9-11 (APR-JUN), 12-14 (JUL-SEP), 15-17 (OKT-DES)
-      for (let startMonth = 1; startMonth <= 12; startMonth += periodValue) {
-        const endMonth = Math.min(startMonth + periodValue - 1, 12);
+      // Merge groups follow the contract's period anchor, e.g. for period 3
+      // from January: JAN-MAR, APR-JUN, JUL-SEP, OKT-DES
+      row.monthRanges.forEach(({ start, end }) => {
+        const startCol = MONTH_START_COL + start - 1;
+        const endCol = MONTH_START_COL + end - 1;
         
-        if (endMonth > startMonth) {
-          const startCol = MONTH_START_COL + startMonth - 1;
-          const endCol = MONTH_START_COL + endMonth - 1;
-          
-          // Merge the cells
-          ws.mergeCells(excelRow, startCol, excelRow, endCol);
-          
-          // Reapply styling to merged cell
-          const mergedCell = ws.getCell(excelRow, startCol);
-          mergedCell.alignment = {
-            horizontal: "center",
-            vertical: "middle",
-            wrapText: true,
-          };
-        }
-      }
+        // Merge the cells
+        ws.mergeCells(excelRow, startCol, excelRow, endCol);
+        
+        // Reapply styling to merged cell
+        const mergedCell = ws.getCell(excelRow, startCol);
+        mergedCell.alignment = {
+          horizontal: "center",
+          vertical: "middle",
+          wrapText: true,
+        };
+      });
     }
   });
 
+  // Optional detail sheets
+  if (options.includeTimeline) addTimelineSheet(wb, data);
+  if (options.includeSignatures) addSignaturesSheet(wb, data);
+  if (options.includeNotes) addNotesSheet(wb, data);
+  if (options.includeInvoiceSummary) addInvoiceSummarySheet(wb, data, options.invoiceTypes);
+
+  return wb;
+}
+
+/**
+ * Excel report as a buffer, for server-side use (e.g. email attachments).
+ * Same workbook as the Excel download.
+ */
+export async function generateExcelBuffer(
+  data: CustomerWithAreas[],
+  options: ExcelOptions = {}
+): Promise<ArrayBuffer> {
+  const buffer = await buildExcelWorkbook(data, options).xlsx.writeBuffer();
+  return buffer as ArrayBuffer;
+}
+
+// Generate and download Excel file using exceljs with styling
+async function generateExcelFile(
+  data: CustomerWithAreas[],
+  filename: string,
+  options: ExcelOptions = {}
+): Promise<void> {
   // Generate buffer and download
-  const buffer = await wb.xlsx.writeBuffer();
+  const buffer = await generateExcelBuffer(data, options);
   const blob = new Blob([buffer], { 
     type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" 
   });
@@ -373,7 +729,7 @@ export async function exportToExcel(
     : "";
   const filename = `BAPP_Report${customerPart}_TA_${options.year}_${formatExportDate()}.xlsx`;
   
-  await generateExcelFile(filteredData, filename);
+  await generateExcelFile(filteredData, filename, options);
 }
 
 // Export single customer to Excel
@@ -441,9 +797,8 @@ export function generateSummaryReport(
         customerContracts++;
 
         // Calculate average progress for this contract
-        const avgProgress =
-          contract.monthly_progress.reduce((sum, p) => sum + p.percentage, 0) /
-          contract.monthly_progress.length;
+        // Average only the months the table shows for this period
+        const avgProgress = getAverageProgress(contract);
 
         totalProgress += avgProgress;
         customerProgress += avgProgress;
@@ -504,7 +859,9 @@ export function generateContractTimeline(
   lines.push("-".repeat(60));
   lines.push("");
 
-  contract.monthly_progress.forEach((progress) => {
+  const periodVal = parsePeriodToNumber(contract.period);
+
+  getActiveProgress(contract).forEach((progress) => {
     const completedSigs = progress.signatures.filter((s) => s.is_completed).length;
     const status =
       progress.percentage === 100
@@ -513,7 +870,7 @@ export function generateContractTimeline(
         ? "○ PROSES"
         : "✗ BELUM";
 
-    lines.push(`${MONTH_NAMES_FULL[progress.month - 1]} ${progress.year}`);
+    lines.push(`${getProgressEntryLabel(progress, periodVal, MONTH_NAMES_FULL)} ${progress.year}`);
     lines.push(`  Status    : ${status} (${progress.percentage}%)`);
     lines.push(`  TTD       : ${completedSigs}/${progress.signatures.length}`);
     lines.push(`  Upload    : ${progress.is_upload_completed ? "Sudah" : "Belum"}`);
@@ -526,7 +883,9 @@ export function generateContractTimeline(
     lines.push("  Detail Tanda Tangan:");
     progress.signatures.forEach((sig) => {
       const sigStatus = sig.is_completed ? "✓" : "✗";
-      const sigTime = sig.completed_at ? ` (${formatDate(sig.completed_at)})` : "";
+      const sigTime = sig.completed_at
+        ? ` (${formatDate(sig.completed_at)}${sig.completed_by_name ? `, oleh ${sig.completed_by_name}` : ""})`
+        : "";
       lines.push(`    ${sigStatus} ${sig.name} - ${sig.role}${sigTime}`);
     });
 
@@ -578,17 +937,40 @@ export function generateTxtData(
         lines.push("");
         lines.push(`    Progress Bulanan:`);
         
-        MONTH_NAMES.forEach((monthName, monthIndex) => {
-          const progress = contract.monthly_progress.find(
-            (mp) => mp.month === monthIndex + 1
-          );
-          const percent = progress ? `${progress.percentage}%` : "-";
-          const status = 
-            !progress ? "     " :
+        const periodVal = parsePeriodToNumber(contract.period);
+        const entries = getActiveProgress(contract);
+        const labelWidth = periodVal === 0.5 ? 14 : periodVal > 1 ? 7 : 3;
+
+        entries.forEach((progress) => {
+          const label = getProgressEntryLabel(progress, periodVal);
+          const percent = `${progress.percentage}%`;
+          const status =
             progress.percentage === 100 ? "[✓]" :
             progress.percentage > 0 ? "[○]" : "[✗]";
-          lines.push(`      ${monthName.padEnd(3)} : ${status} ${percent.padStart(4)}`);
+          lines.push(`      ${label.padEnd(labelWidth)} : ${status} ${percent.padStart(4)}`);
+
+          const detailIndent = " ".repeat(labelWidth + 9);
+          if (options.includeTimeline) {
+            const completedSigs = progress.signatures.filter((s) => s.is_completed).length;
+            lines.push(
+              `${detailIndent}TTD ${completedSigs}/${progress.signatures.length}, upload ${progress.is_upload_completed ? "sudah" : "belum"}, update ${formatDate(progress.updated_at)}`
+            );
+          }
+          if (options.includeSignatures) {
+            progress.signatures.forEach((sig) => {
+              const sigTime = sig.completed_at
+                ? ` (${formatDate(sig.completed_at)}${sig.completed_by_name ? `, oleh ${sig.completed_by_name}` : ""})`
+                : "";
+              lines.push(`${detailIndent}${sig.is_completed ? "✓" : "✗"} ${sig.name} - ${sig.role}${sigTime}`);
+            });
+          }
+          if (options.includeNotes && progress.notes) {
+            lines.push(`${detailIndent}Catatan: ${progress.notes}`);
+          }
         });
+        if (entries.length === 0) {
+          lines.push(`      Belum ada data progress`);
+        }
         lines.push("");
       });
     });
@@ -637,7 +1019,7 @@ export function exportCustomerToTxt(
   downloadFile(txt, filename, "text/plain;charset=utf-8");
 }
 
-// Export summary to text (can be printed as PDF)
+// Export summary to text (see exportToPdf for the formatted PDF report)
 export function exportSummaryReport(
   data: CustomerWithAreas[],
   year: number
@@ -691,3 +1073,329 @@ export function exportContractReport(
   const filename = `BAPP_${contract.name.replace(/[^a-zA-Z0-9]/g, "_")}_${new Date().toISOString().split("T")[0]}.txt`;
   downloadFile(content, filename, "text/plain;charset=utf-8");
 }
+
+// ===================
+// PDF EXPORT
+// ===================
+// Generated entirely in the browser with jsPDF + jspdf-autotable.
+// Standard PDF fonts only cover Latin-1, so statuses are plain text (no ✓/✗).
+
+const PDF_PRIMARY: [number, number, number] = [30, 58, 95]; // Same dark blue as Excel header
+const PDF_MUTED: [number, number, number] = [107, 114, 128];
+const PDF_MARGIN = 14;
+
+function getProgressColor(percentage: number): [number, number, number] {
+  if (percentage === 100) return [209, 250, 229]; // emerald-100
+  if (percentage > 0) return [254, 243, 199]; // amber-100
+  return [254, 226, 226]; // red-100
+}
+
+function getProgressStatus(percentage: number): string {
+  if (percentage === 100) return "Selesai";
+  if (percentage > 0) return "Proses";
+  return "Belum";
+}
+
+// Y position after the last autoTable call
+function getLastTableY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? PDF_MARGIN;
+}
+
+function drawPageTitle(doc: jsPDF, title: string, subtitle?: string): number {
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.setTextColor(...PDF_PRIMARY);
+  doc.text(title, PDF_MARGIN, 20);
+
+  if (subtitle) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(...PDF_MUTED);
+    doc.text(subtitle, PDF_MARGIN, 27);
+  }
+
+  doc.setDrawColor(...PDF_PRIMARY);
+  doc.line(PDF_MARGIN, 31, doc.internal.pageSize.getWidth() - PDF_MARGIN, 31);
+  return 38;
+}
+
+function drawCoverPage(doc: jsPDF, options: ExportOptions, data: CustomerWithAreas[]): void {
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  doc.setFillColor(...PDF_PRIMARY);
+  doc.rect(0, 0, width, height * 0.45, "F");
+
+  doc.setTextColor(255, 255, 255);
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(28);
+  doc.text("LAPORAN MONITORING BAPP", width / 2, height * 0.22, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(16);
+  doc.text(`Tahun Anggaran ${options.year}`, width / 2, height * 0.3, { align: "center" });
+
+  const contractCount = data.reduce(
+    (sum, c) => sum + c.areas.reduce((s, a) => s + a.contracts.length, 0),
+    0
+  );
+
+  doc.setTextColor(51, 51, 51);
+  doc.setFontSize(12);
+  const lines = [
+    `Customer : ${options.customerName || "Semua Customer"}`,
+    `Cakupan  : ${data.length} customer, ${contractCount} kontrak`,
+    `Dibuat   : ${new Date().toLocaleString("id-ID")}`,
+  ];
+  lines.forEach((line, index) => {
+    doc.text(line, width / 2, height * 0.6 + index * 9, { align: "center" });
+  });
+
+  doc.setFontSize(9);
+  doc.setTextColor(...PDF_MUTED);
+  doc.text("Dashboard BAPP", width / 2, height - 12, { align: "center" });
+}
+
+function drawSummaryPage(doc: jsPDF, data: CustomerWithAreas[], year: number): void {
+  const summary = generateSummaryReport(data);
+  let y = drawPageTitle(doc, "Ringkasan", `Tahun Anggaran ${year}`);
+
+  // KPI cards
+  const kpis = [
+    { label: "Total Customer", value: `${summary.totalCustomers}` },
+    { label: "Total Kontrak", value: `${summary.totalContracts}` },
+    { label: "Progress Keseluruhan", value: `${summary.overallProgress}%` },
+    { label: "Selesai", value: `${summary.completedContracts}` },
+    { label: "Dalam Proses", value: `${summary.inProgressContracts}` },
+    { label: "Belum Mulai", value: `${summary.notStartedContracts}` },
+  ];
+  const gap = 4;
+  const cardWidth =
+    (doc.internal.pageSize.getWidth() - PDF_MARGIN * 2 - gap * (kpis.length - 1)) / kpis.length;
+
+  kpis.forEach((kpi, index) => {
+    const x = PDF_MARGIN + index * (cardWidth + gap);
+    doc.setDrawColor(209, 213, 219);
+    doc.setFillColor(243, 244, 246);
+    doc.roundedRect(x, y, cardWidth, 22, 2, 2, "FD");
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(16);
+    doc.setTextColor(...PDF_PRIMARY);
+    doc.text(kpi.value, x + cardWidth / 2, y + 10, { align: "center" });
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...PDF_MUTED);
+    doc.text(kpi.label, x + cardWidth / 2, y + 17, { align: "center" });
+  });
+  y += 30;
+
+  autoTable(doc, {
+    startY: y,
+    margin: { left: PDF_MARGIN, right: PDF_MARGIN },
+    head: [["NO", "CUSTOMER", "KONTRAK", "RATA-RATA PROGRESS", "SELESAI"]],
+    body: summary.customerSummaries.map((cs, index) => [
+      index + 1,
+      cs.name,
+      cs.totalContracts,
+      `${cs.averageProgress}%`,
+      `${cs.completedCount}/${cs.totalContracts}`,
+    ]),
+    headStyles: { fillColor: PDF_PRIMARY, halign: "center" },
+    styles: { fontSize: 9 },
+    columnStyles: {
+      0: { halign: "center", cellWidth: 12 },
+      2: { halign: "center" },
+      3: { halign: "center" },
+      4: { halign: "center" },
+    },
+  });
+}
+
+function drawCustomerTable(doc: jsPDF, customer: CustomerWithAreas, year: number): void {
+  const startY = drawPageTitle(doc, customer.name, `Progress bulanan tahun ${year}`);
+  const body: (string | number)[][] = [];
+  const percentages: (number | string)[][] = [];
+  let contractNumber = 0;
+
+  customer.areas.forEach((area) => {
+    area.contracts.forEach((contract) => {
+      contractNumber++;
+      const periodVal = parsePeriodToNumber(contract.period);
+
+      getExportSubPeriods(periodVal).forEach((subPeriod) => {
+        const monthly = getMonthlyValues(contract, periodVal, subPeriod);
+        percentages.push(monthly);
+        body.push([
+          contractNumber,
+          `${contract.name}\n${contract.total_signatures} tanda tangan`,
+          area.name,
+          getPeriodCellLabel(contract, periodVal, subPeriod),
+          ...monthly.map((v) => (typeof v === "number" ? `${v}%` : "")),
+        ]);
+      });
+    });
+  });
+
+  autoTable(doc, {
+    startY,
+    margin: { left: PDF_MARGIN, right: PDF_MARGIN },
+    head: [["NO", "NAMA KONTRAK", "AREA", "PERIODE", ...MONTH_NAMES]],
+    body,
+    headStyles: { fillColor: PDF_PRIMARY, halign: "center", fontSize: 8 },
+    styles: { fontSize: 8, valign: "middle" },
+    columnStyles: {
+      0: { halign: "center", cellWidth: 10 },
+      1: { cellWidth: 60 },
+      2: { cellWidth: 32 },
+      3: { cellWidth: 24 },
+    },
+    didParseCell: (hook) => {
+      const monthIndex = hook.column.index - 4;
+      if (hook.section !== "body" || monthIndex < 0) return;
+      hook.cell.styles.halign = "center";
+      const value = percentages[hook.row.index]?.[monthIndex];
+      if (typeof value === "number") {
+        hook.cell.styles.fillColor = getProgressColor(value);
+      }
+    },
+  });
+}
+
+function drawContractTimeline(
+  doc: jsPDF,
+  contract: ContractWithProgress,
+  customerName: string,
+  areaName: string,
+  startY: number
+): void {
+  const periodVal = parsePeriodToNumber(contract.period);
+  const entries = getActiveProgress(contract);
+  const pageHeight = doc.internal.pageSize.getHeight();
+
+  // Jaga agar judul kontrak tidak terpisah dari tabelnya
+  let y = startY;
+  if (y > pageHeight - 50) {
+    doc.addPage();
+    y = PDF_MARGIN + 6;
+  }
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(11);
+  doc.setTextColor(...PDF_PRIMARY);
+  doc.text(contract.name, PDF_MARGIN, y);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(8);
+  doc.setTextColor(...PDF_MUTED);
+  doc.text(
+    `${customerName} | ${areaName} | ${contract.period} | Invoice ${contract.invoice_type} | ${contract.total_signatures} tanda tangan`,
+    PDF_MARGIN,
+    y + 5
+  );
+
+  autoTable(doc, {
+    startY: y + 8,
+    margin: { left: PDF_MARGIN, right: PDF_MARGIN },
+    head: [["BULAN", "STATUS", "PROGRESS", "TTD", "UPLOAD", "CATATAN", "UPDATE"]],
+    body: entries.map((progress) => {
+      const completedSigs = progress.signatures.filter((s) => s.is_completed).length;
+      return [
+        getProgressEntryLabel(progress, periodVal, MONTH_NAMES_FULL),
+        getProgressStatus(progress.percentage),
+        `${progress.percentage}%`,
+        `${completedSigs}/${progress.signatures.length}`,
+        progress.is_upload_completed ? "Sudah" : "Belum",
+        progress.notes || "-",
+        formatDate(progress.updated_at),
+      ];
+    }),
+    headStyles: { fillColor: PDF_PRIMARY, fontSize: 8 },
+    styles: { fontSize: 8 },
+    columnStyles: {
+      0: { cellWidth: 34 },
+      1: { cellWidth: 20 },
+      2: { halign: "center", cellWidth: 20 },
+      3: { halign: "center", cellWidth: 16 },
+      4: { halign: "center", cellWidth: 18 },
+      6: { cellWidth: 40 },
+    },
+    didParseCell: (hook) => {
+      if (hook.section !== "body" || hook.column.index !== 1) return;
+      const progress = entries[hook.row.index];
+      if (progress) hook.cell.styles.fillColor = getProgressColor(progress.percentage);
+    },
+  });
+}
+
+function drawPageNumbers(doc: jsPDF): void {
+  const pageCount = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+
+  // Halaman sampul tidak diberi nomor
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...PDF_MUTED);
+    doc.text("Dashboard BAPP", PDF_MARGIN, height - 8);
+    doc.text(`Halaman ${page} dari ${pageCount}`, width - PDF_MARGIN, height - 8, {
+      align: "right",
+    });
+  }
+}
+
+// Build the PDF report: cover, summary KPIs, per-customer tables and
+// (unless includeTimeline is false) per-contract timelines
+export function generatePdfDocument(
+  data: CustomerWithAreas[],
+  options: ExportOptions
+): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  doc.setProperties({
+    title: `Laporan BAPP ${options.year}`,
+    creator: "Dashboard BAPP",
+  });
+
+  drawCoverPage(doc, options, data);
+
+  doc.addPage();
+  drawSummaryPage(doc, data, options.year);
+
+  data.forEach((customer) => {
+    if (!customer.areas.some((a) => a.contracts.length > 0)) return;
+    doc.addPage();
+    drawCustomerTable(doc, customer, options.year);
+  });
+
+  if (options.includeTimeline !== false) {
+    doc.addPage();
+    let y = drawPageTitle(doc, "Timeline Kontrak", "Detail progress per periode");
+    data.forEach((customer) => {
+      customer.areas.forEach((area) => {
+        area.contracts.forEach((contract) => {
+          drawContractTimeline(doc, contract, customer.name, area.name, y);
+          y = getLastTableY(doc) + 12;
+        });
+      });
+    });
+  }
+
+  drawPageNumbers(doc);
+  return doc;
+}
+
+// Export to PDF
+export function exportToPdf(
+  data: CustomerWithAreas[],
+  options: ExportOptions
+): void {
+  // Filter data if customerName is specified
+  const filteredData = options.customerName
+    ? data.filter((c) => c.name === options.customerName)
+    : data;
+
+  const doc = generatePdfDocument(filteredData, options);
+  const customerPart = options.customerName
+    ? `_${options.customerName.replace(/[^a-zA-Z0-9]/g, "_")}`
+    : "";
+  doc.save(`BAPP_Report${customerPart}_TA_${options.year}_${formatExportDate()}.pdf`);
+}
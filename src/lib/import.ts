@@ -0,0 +1,339 @@
+// Import functionality - reads back workbooks in the same layout as export.ts
+// (NO | CUSTOMER | NAMA KONTRAK | AREA | PERIODE | JAN..DES)
+import ExcelJS from "exceljs";
+import {
+  MONTH_NAMES,
+  MONTH_NAMES_FULL,
+  PERIOD_OPTIONS,
+  getPeriodMonths,
+  getPeriodRanges,
+  parsePeriodToNumber,
+  percentageToCompletion,
+} from "@/types/database";
+
+// Dipakai jika jumlah tanda tangan tidak bisa dibaca dari nama kontrak
+export const DEFAULT_IMPORT_SIGNATURE_COUNT = 2;
+
+export interface WorkbookProgressEntry {
+  month: number; // 1-12, bulan akhir periode (tempat progress disimpan)
+  subPeriod: number;
+  percentage: number; // Persentase yang akan tersimpan (sudah dibulatkan)
+}
+
+export interface WorkbookImportRow {
+  rowNumber: number; // Nomor baris di Excel
+  customerName: string;
+  areaName: string;
+  contractName: string;
+  period: string; // Label periode, e.g. "Per 3 Bulan"
+  periodAnchorMonth: number | null; // Bulan awal jadwal periode; null = Januari
+  signatureCount: number;
+  progress: WorkbookProgressEntry[];
+  errors: string[]; // Baris dengan error tidak diimport
+  warnings: string[];
+}
+
+// Header yang dikenali (uppercase) -> kolom
+type HeaderKey = "customer" | "contract" | "area" | "period";
+
+const HEADER_ALIASES: Record<HeaderKey, string[]> = {
+  customer: ["CUSTOMER", "NAMA CUSTOMER", "PELANGGAN"],
+  contract: ["NAMA KONTRAK", "KONTRAK", "NAMA PAKET", "PAKET"],
+  area: ["AREA", "DAERAH", "WILAYAH"],
+  period: ["PERIODE", "PERIOD"],
+};
+
+const MAX_HEADER_SEARCH_ROWS = 10;
+
+// "Nama Kontrak - 3 tanda tangan" seperti yang ditulis oleh export
+const SIGNATURE_SUFFIX = /\s*-\s*(\d+)\s*tanda\s*tangan\s*$/i;
+
+// "Per 1/2 Bulan - P1 (1-20)": export menulis satu baris per paruh bulan
+const SUB_PERIOD_MARKER = /\bP([12])\b/i;
+
+// "Baris 12: ..." pada error/warning baris P2 yang digabung ke baris P1
+const ROW_PREFIX = /^Baris \d+: /;
+
+// "Per 3 Bulan - mulai JUL": jadwal periode yang tidak dimulai dari Januari
+const ANCHOR_SUFFIX = /\s*-\s*mulai\s+(\S+)\s*$/i;
+
+function normalizeHeader(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toUpperCase();
+}
+
+function getCellText(cell: ExcelJS.Cell): string {
+  return (cell.text || "").trim();
+}
+
+// Parse cell persentase: "75%", 75, atau 0.75 dengan format persen
+function parsePercentageCell(cell: ExcelJS.Cell): number | null | "invalid" {
+  const value = cell.value;
+
+  if (typeof value === "number") {
+    return cell.numFmt?.includes("%") ? value * 100 : value;
+  }
+
+  const text = getCellText(cell);
+  if (!text || text === "-") return null;
+
+  const number = Number(text.replace("%", "").replace(",", ".").trim());
+  if (Number.isNaN(number)) return "invalid";
+  return number;
+}
+
+// Bulan dari nama singkat ("JUL") atau lengkap ("Juli"), 1-12
+function parseMonthName(text: string): number | null {
+  const name = normalizeHeader(text);
+  const index = MONTH_NAMES.findIndex((m) => m === name);
+  const fullIndex = MONTH_NAMES_FULL.findIndex((m) => m.toUpperCase() === name);
+  const month = (index !== -1 ? index : fullIndex) + 1;
+  return month > 0 ? month : null;
+}
+
+function parsePeriodCell(text: string): { label: string; value: number } | null {
+  if (!text || !/(\d|1\/2)/.test(text)) return null;
+  const value = parsePeriodToNumber(text);
+  const option = PERIOD_OPTIONS.find((o) => o.value === value);
+  return option ? { label: option.label, value: option.value } : null;
+}
+
+function findHeader(ws: ExcelJS.Worksheet): {
+  headerRow: number;
+  columns: Partial<Record<HeaderKey, number>>;
+  monthColumns: (number | null)[];
+} | null {
+  const maxRow = Math.min(ws.rowCount, MAX_HEADER_SEARCH_ROWS);
+
+  for (let r = 1; r <= maxRow; r++) {
+    const row = ws.getRow(r);
+    const columns: Partial<Record<HeaderKey, number>> = {};
+    const monthColumns: (number | null)[] = Array(12).fill(null);
+
+    row.eachCell((cell, colNumber) => {
+      const header = normalizeHeader(getCellText(cell));
+      (Object.keys(HEADER_ALIASES) as HeaderKey[]).forEach((key) => {
+        if (!columns[key] && HEADER_ALIASES[key].includes(header)) {
+          columns[key] = colNumber;
+        }
+      });
+
+      const monthIndex = MONTH_NAMES.findIndex((m) => m === header);
+      const fullMonthIndex = MONTH_NAMES_FULL.findIndex(
+        (m) => m.toUpperCase() === header
+      );
+      const index = monthIndex !== -1 ? monthIndex : fullMonthIndex;
+      if (index !== -1 && monthColumns[index] === null) {
+        monthColumns[index] = colNumber;
+      }
+    });
+
+    if (columns.customer && columns.contract) {
+      return { headerRow: r, columns, monthColumns };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parse an .xlsx workbook (first sheet) into import rows with validation
+ * errors/warnings per row. Throws if the header row can't be found.
+ */
+export async function parseImportWorkbook(
+  buffer: ArrayBuffer
+): Promise<WorkbookImportRow[]> {
+  const wb = new ExcelJS.Workbook();
+  try {
+    await wb.xlsx.load(buffer);
+  } catch {
+    throw new Error("File tidak dapat dibaca. Pastikan file berformat .xlsx");
+  }
+
+  const ws = wb.worksheets[0];
+  if (!ws) {
+    throw new Error("Workbook tidak memiliki sheet");
+  }
+
+  const header = findHeader(ws);
+  if (!header) {
+    throw new Error(
+      "Header tidak ditemukan. Baris header harus berisi kolom CUSTOMER dan NAMA KONTRAK"
+    );
+  }
+
+  const { headerRow, columns, monthColumns } = header;
+  const rows: WorkbookImportRow[] = [];
+  // Kunci kontrak -> index di rows + paruh bulan yang sudah dibaca
+  const seen = new Map<string, { index: number; subPeriods: number[] }>();
+
+  // Sel customer/kontrak yang di-merge (atau dikosongkan) mengikuti baris di atasnya
+  let lastCustomer = "";
+  let lastContract = "";
+
+  for (let r = headerRow + 1; r <= ws.rowCount; r++) {
+    const row = ws.getRow(r);
+    const read = (col?: number) => (col ? getCellText(row.getCell(col)) : "");
+
+    const rawCustomer = read(columns.customer);
+    const rawContract = read(columns.contract);
+    const areaName = read(columns.area);
+    const rawPeriod = read(columns.period);
+    const hasMonthValue = monthColumns.some(
+      (col) => col !== null && getCellText(row.getCell(col)) !== ""
+    );
+
+    if (!rawCustomer && !rawContract && !areaName && !rawPeriod && !hasMonthValue) {
+      continue;
+    }
+
+    const customerName = rawCustomer || lastCustomer;
+    const contractCell = rawContract || lastContract;
+    if (rawCustomer) lastCustomer = rawCustomer;
+    if (rawContract) lastContract = rawContract;
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!customerName) errors.push("Customer kosong");
+
+    // Pisahkan "Nama - N tanda tangan"
+    const suffix = contractCell.match(SIGNATURE_SUFFIX);
+    const contractName = contractCell.replace(SIGNATURE_SUFFIX, "").trim();
+    let signatureCount = DEFAULT_IMPORT_SIGNATURE_COUNT;
+    if (!contractName) {
+      errors.push("Nama kontrak kosong");
+    } else if (suffix) {
+      signatureCount = parseInt(suffix[1]);
+    } else {
+      warnings.push(
+        `Jumlah tanda tangan tidak ada di nama kontrak, dipakai ${DEFAULT_IMPORT_SIGNATURE_COUNT}`
+      );
+    }
+
+    const anchorMatch = rawPeriod.match(ANCHOR_SUFFIX);
+    const period = parsePeriodCell(rawPeriod.replace(ANCHOR_SUFFIX, ""));
+    let periodAnchorMonth: number | null = null;
+    if (!rawPeriod) {
+      errors.push("Periode kosong");
+    } else if (!period) {
+      errors.push(`Periode "${rawPeriod}" tidak dikenali`);
+    } else if (anchorMatch) {
+      periodAnchorMonth = parseMonthName(anchorMatch[1]);
+      if (periodAnchorMonth === null) {
+        errors.push(`Bulan awal periode "${anchorMatch[1]}" tidak dikenali`);
+      } else if (period.value <= 1) {
+        periodAnchorMonth = null;
+      }
+    }
+
+    if (!columns.area) {
+      warnings.push('Kolom AREA tidak ada, dipakai area "Default"');
+    }
+
+    const subPeriodMatch =
+      period?.value === 0.5 ? rawPeriod.match(SUB_PERIOD_MARKER) : null;
+    const subPeriod = subPeriodMatch ? parseInt(subPeriodMatch[1]) : null;
+
+    const key = [customerName, areaName || "Default", contractName]
+      .map((part) => part.toLowerCase())
+      .join("|");
+    const previous = seen.get(key);
+    // Baris P2 melanjutkan baris P1 kontrak yang sama (dan sebaliknya)
+    const mergeInto =
+      previous && subPeriod !== null && !previous.subPeriods.includes(subPeriod)
+        ? rows[previous.index]
+        : null;
+    if (previous && !mergeInto) {
+      errors.push(`Duplikat dari baris ${rows[previous.index].rowNumber}`);
+    } else if (previous) {
+      previous.subPeriods.push(subPeriod!);
+    } else {
+      seen.set(key, {
+        index: rows.length,
+        subPeriods: subPeriod !== null ? [subPeriod] : [1, 2],
+      });
+    }
+
+    // Baca persentase per bulan
+    const values: (number | null)[] = monthColumns.map((col, index) => {
+      if (col === null) return null;
+      const value = parsePercentageCell(row.getCell(col));
+      if (value === "invalid") {
+        errors.push(`${MONTH_NAMES[index]}: nilai bukan angka`);
+        return null;
+      }
+      if (value !== null && (value < 0 || value > 100)) {
+        errors.push(`${MONTH_NAMES[index]}: ${value}% di luar 0-100`);
+        return null;
+      }
+      return value;
+    });
+
+    const progress: WorkbookProgressEntry[] = [];
+    const addProgress = (month: number, value: number, subPeriods: number[]) => {
+      const completion = percentageToCompletion(value, signatureCount);
+      if (completion.percentage !== Math.round(value)) {
+        warnings.push(
+          `${MONTH_NAMES[month - 1]}: ${value}% dibulatkan ke ${completion.percentage}% (${signatureCount} TTD + upload)`
+        );
+      }
+      if (completion.percentage === 0) return;
+      subPeriods.forEach((subPeriod) =>
+        progress.push({ month, subPeriod, percentage: completion.percentage })
+      );
+    };
+
+    if (period && period.value === 0.5) {
+      values.forEach((value, index) => {
+        if (value !== null) addProgress(index + 1, value, subPeriod ? [subPeriod] : [1, 2]);
+      });
+      if (!subPeriod && values.some((v) => v !== null && v > 0)) {
+        warnings.push("Periode 1/2 bulan: nilai bulan diterapkan ke kedua paruh bulan");
+      }
+    } else if (period) {
+      // Export menaruh nilai di bulan awal periode (sel di-merge),
+      // progress disimpan di bulan akhir periode
+      const activeMonths = getPeriodMonths(period.value, periodAnchorMonth ?? 1);
+      getPeriodRanges(activeMonths, period.value).forEach(({ start, end }) => {
+        const block = values.slice(start - 1, end);
+        const value = block[block.length - 1] ?? block.find((v) => v !== null) ?? null;
+        if (value !== null) addProgress(end, value, [1]);
+      });
+    }
+
+    if (monthColumns.every((col) => col === null)) {
+      warnings.push("Kolom bulan tidak ditemukan, hanya kontrak yang diimport");
+    }
+
+    if (mergeInto) {
+      mergeInto.progress.push(...progress);
+      mergeInto.progress.sort((a, b) => a.month - b.month || a.subPeriod - b.subPeriod);
+      mergeInto.errors.push(...errors.map((e) => `Baris ${r}: ${e}`));
+      // Bandingkan tanpa awalan "Baris N: " agar warning yang sama tidak diulang
+      const knownWarnings = new Set(
+        mergeInto.warnings.map((w) => w.replace(ROW_PREFIX, ""))
+      );
+      mergeInto.warnings.push(
+        ...warnings
+          .filter((w) => !knownWarnings.has(w))
+          .map((w) => `Baris ${r}: ${w}`)
+      );
+      continue;
+    }
+
+    rows.push({
+      rowNumber: r,
+      customerName,
+      areaName: areaName || "Default",
+      contractName,
+      period: period?.label || rawPeriod,
+      periodAnchorMonth,
+      signatureCount,
+      progress,
+      errors,
+      warnings,
+    });
+  }
+
+  return rows;
+}
@@ -1,4 +1,10 @@
 // Notification System Types and Functions
+import type { BAPPContract, CustomerWithAreas } from "@/types/database";
+import {
+  getOverdueProgress,
+  isHalfMonthPeriod,
+  MONTH_NAMES,
+} from "@/types/database";
 
 export type NotificationPriority = "low" | "medium" | "high" | "urgent";
 export type NotificationType = 
@@ -7,6 +13,7 @@ export type NotificationType =
   | "contract_created"
   | "contract_deleted"
   | "reminder"
+  | "rule_alert"
   | "system";
 
 export interface Notification {
@@ -21,6 +28,9 @@ export interface Notification {
   metadata?: Record<string, unknown>;
 }
 
+// Notifikasi baru sebelum diberi id/waktu/status baca
+export type NewNotification = Omit<Notification, "id" | "timestamp" | "read">;
+
 export interface EmailNotificationSettings {
   enabled: boolean;
   recipients: string[];
@@ -30,6 +40,12 @@ export interface EmailNotificationSettings {
   deadlineWarningDays: number; // Days before deadline to send warning
 }
 
+// Pengaturan email yang tersimpan di database (dibaca scheduler server)
+export interface EmailReportSettings {
+  settings: EmailNotificationSettings;
+  lastWeeklySummaryAt: string | null;
+}
+
 // Default email notification settings
 export const defaultEmailSettings: EmailNotificationSettings = {
   enabled: false,
@@ -40,8 +56,10 @@ export const defaultEmailSettings: EmailNotificationSettings = {
   deadlineWarningDays: 7,
 };
 
-// Local storage keys
-const NOTIFICATIONS_KEY = "bapp_notifications";
+// Local storage keys. Notifikasi hanya disimpan di localStorage pada mode
+// placeholder; dengan Supabase, notifikasi ada di tabel notifications
+// (SUPABASE_SETUP.md §18) dan dibaca lewat data.ts
+export const NOTIFICATIONS_KEY = "bapp_notifications";
 const EMAIL_SETTINGS_KEY = "bapp_email_settings";
 
 // Get notifications from localStorage
@@ -68,9 +86,7 @@ export function saveNotifications(notifications: Notification[]): void {
 }
 
 // Add a new notification
-export function addNotification(
-  notification: Omit<Notification, "id" | "timestamp" | "read">
-): Notification {
+export function addNotification(notification: NewNotification): Notification {
   const newNotification: Notification = {
     ...notification,
     id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
@@ -161,54 +177,173 @@ export const typeLabels: Record<NotificationType, string> = {
   contract_created: "Kontrak Baru",
   contract_deleted: "Kontrak Dihapus",
   reminder: "Pengingat",
+  rule_alert: "Aturan Notifikasi",
   system: "Sistem",
 };
 
-// Generate deadline warning notifications for contracts
-export function checkDeadlineWarnings(
-  contracts: Array<{
-    name: string;
-    customerName: string;
-    monthlyProgress: Array<{ month: number; percentage: number }>;
-  }>,
-  currentMonth: number,
-  warningDays: number = 7
-): void {
-  const currentDay = new Date().getDate();
-  const daysInMonth = new Date(new Date().getFullYear(), currentMonth, 0).getDate();
-  const daysRemaining = daysInMonth - currentDay;
-
-  if (daysRemaining > warningDays) return;
-
-  contracts.forEach((contract) => {
-    const currentProgress = contract.monthlyProgress.find(
-      (p) => p.month === currentMonth
-    );
+export const priorityLabels: Record<NotificationPriority, string> = {
+  low: "Rendah",
+  medium: "Sedang",
+  high: "Tinggi",
+  urgent: "Mendesak",
+};
+
+// Periode yang lewat batas waktu, untuk kartu dashboard & sidebar notifikasi.
+// Notifikasi deadline/terlambat sendiri dibuat di server oleh
+// generate_deadline_notifications() (SUPABASE_SETUP.md §18-19).
+export interface OverdueItem {
+  contractId: string;
+  contractName: string;
+  customerName: string;
+  periodLabel: string; // mis. "MAR 2025" atau "MAR 2025 P1"
+  dueDate: string; // ISO
+  daysOverdue: number;
+  percentage: number;
+}
+
+export interface OverdueSummary {
+  contracts: number;
+  periods: number;
+  items: OverdueItem[]; // Paling lama terlambat lebih dulu
+}
+
+export function summarizeOverdue(
+  data: CustomerWithAreas[],
+  today: Date = new Date()
+): OverdueSummary {
+  const items: OverdueItem[] = [];
+  let contracts = 0;
 
-    if (currentProgress && currentProgress.percentage < 100) {
-      // Check if we already have a warning for this contract this month
-      const existing = getNotifications();
-      const hasWarning = existing.some(
-        (n) =>
-          n.type === "deadline_warning" &&
-          n.metadata?.contractName === contract.name &&
-          n.metadata?.month === currentMonth
-      );
-
-      if (!hasWarning) {
-        addNotification({
-          type: "deadline_warning",
-          priority: currentProgress.percentage < 50 ? "urgent" : "high",
-          title: `Deadline Mendekati: ${contract.name}`,
-          message: `Kontrak ${contract.name} (${contract.customerName}) memiliki progress ${currentProgress.percentage}% dengan ${daysRemaining} hari tersisa di bulan ini.`,
-          metadata: {
+  data.forEach((customer) => {
+    customer.areas.forEach((area) => {
+      area.contracts.forEach((contract) => {
+        const overdue = getOverdueProgress(contract, today);
+        if (overdue.length === 0) return;
+
+        contracts++;
+        const isHalfMonth = isHalfMonthPeriod(contract.period);
+        overdue.forEach(({ progress, dueDate, daysOverdue }) => {
+          items.push({
+            contractId: contract.id,
             contractName: contract.name,
-            customerName: contract.customerName,
-            month: currentMonth,
-            progress: currentProgress.percentage,
-          },
+            customerName: customer.name,
+            periodLabel: `${MONTH_NAMES[progress.month - 1]} ${progress.year}${
+              isHalfMonth ? ` P${progress.sub_period}` : ""
+            }`,
+            dueDate: dueDate.toISOString(),
+            daysOverdue,
+            percentage: progress.percentage,
+          });
         });
-      }
-    }
+      });
+    });
   });
+
+  items.sort((a, b) => b.daysOverdue - a.daysOverdue);
+  return { contracts, periods: items.length, items };
+}
+
+// ===================
+// NOTIFICATION RULES
+// ===================
+
+// Aturan notifikasi buatan admin. Dievaluasi di database oleh trigger dan job
+// harian (SUPABASE_SETUP.md §21), bukan di browser.
+export type NotificationRuleEvent =
+  | "progress_below"
+  | "progress_complete"
+  | "contract_created"
+  | "contract_deleted";
+
+export type NotificationChannel = "in_app" | "email";
+
+export interface NotificationRule {
+  id: string;
+  name: string;
+  event: NotificationRuleEvent;
+  threshold: number | null; // progress_below: persentase batas (1-100)
+  after_day: number | null; // progress_below: mulai tanggal ini di bulan berjalan
+  invoice_type: BAPPContract["invoice_type"] | null; // null = semua
+  customer_id: string | null; // null = semua customer
+  priority: NotificationPriority;
+  channel: NotificationChannel;
+  target_user_ids: string[]; // Kosong = semua user yang boleh melihat kontrak
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type NotificationRuleInput = Omit<NotificationRule, "id" | "created_at" | "updated_at">;
+
+export const NOTIFICATION_RULE_EVENTS: Record<
+  NotificationRuleEvent,
+  { label: string; description: string }
+> = {
+  progress_below: {
+    label: "Progress di bawah batas",
+    description: "Progress bulan berjalan di bawah persentase tertentu setelah tanggal tertentu",
+  },
+  progress_complete: {
+    label: "Progress mencapai 100%",
+    description: "Satu bulan/sub-periode kontrak selesai",
+  },
+  contract_created: {
+    label: "Kontrak ditambahkan",
+    description: "Kontrak baru dibuat",
+  },
+  contract_deleted: {
+    label: "Kontrak dihapus",
+    description: "Kontrak dipindahkan ke sampah",
+  },
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "Di aplikasi",
+  email: "Email",
+};
+
+export const DEFAULT_NOTIFICATION_RULE: NotificationRuleInput = {
+  name: "",
+  event: "progress_below",
+  threshold: 50,
+  after_day: 15,
+  invoice_type: null,
+  customer_id: null,
+  priority: "high",
+  channel: "in_app",
+  target_user_ids: [],
+  enabled: true,
+};
+
+// Ringkasan kondisi aturan, mis. "Progress < 50% setelah tanggal 15 • Regional 3"
+export function describeNotificationRule(
+  rule: NotificationRuleInput,
+  customerName?: string
+): string {
+  const parts: string[] = [];
+  if (rule.event === "progress_below") {
+    parts.push(
+      `Progress < ${rule.threshold}%` +
+        (rule.after_day && rule.after_day > 1 ? ` setelah tanggal ${rule.after_day}` : "")
+    );
+  } else {
+    parts.push(NOTIFICATION_RULE_EVENTS[rule.event].label);
+  }
+  if (rule.invoice_type) parts.push(rule.invoice_type);
+  if (rule.customer_id) parts.push(customerName || "1 customer");
+  return parts.join(" • ");
+}
+
+// Pesan error untuk form aturan, atau null jika valid
+export function validateNotificationRule(rule: NotificationRuleInput): string | null {
+  if (!rule.name.trim()) return "Nama aturan wajib diisi";
+  if (rule.event === "progress_below") {
+    if (!rule.threshold || rule.threshold < 1 || rule.threshold > 100) {
+      return "Batas progress harus antara 1 dan 100";
+    }
+    if (rule.after_day !== null && (rule.after_day < 1 || rule.after_day > 31)) {
+      return "Tanggal harus antara 1 dan 31";
+    }
+  }
+  return null;
 }
@@ -4,6 +4,9 @@ import {
   ContractWithProgress,
   SignatureDetail,
   Signature,
+  DEFAULT_DEADLINE_DAYS,
+  getActiveProgress,
+  getDefaultContractDates,
 } from "@/types/database";
 
 // Helper to generate random progress data with dynamic signature count
@@ -20,14 +23,19 @@ function generateMonthlyProgress(
   // Past months are mostly completed, current month is partial
   const completionChance = isPastMonth ? 0.85 : isCurrentMonth ? 0.5 : 0.1;
 
-  const signatures: SignatureDetail[] = Array.from({ length: totalSignatures }, (_, i) => ({
-    id: `sig-${i}`,
-    name: `Penandatangan ${i + 1}`,
-    role: i === 0 ? "Manager" : i === 1 ? "Supervisor" : i === 2 ? "Staff" : `Pihak ${i + 1}`,
-    order: i + 1,
-    is_completed: Math.random() < completionChance,
-    completed_at: Math.random() < completionChance ? new Date().toISOString() : null,
-  }));
+  const signatures: SignatureDetail[] = Array.from({ length: totalSignatures }, (_, i) => {
+    const isCompleted = Math.random() < completionChance;
+    return {
+      id: `sig-${i}`,
+      name: `Penandatangan ${i + 1}`,
+      role: i === 0 ? "Manager" : i === 1 ? "Supervisor" : i === 2 ? "Staff" : `Pihak ${i + 1}`,
+      order: i + 1,
+      is_completed: isCompleted,
+      completed_at: isCompleted ? new Date().toISOString() : null,
+      completed_by: isCompleted ? "placeholder-user" : null,
+      completed_by_name: isCompleted ? "Demo User" : null,
+    };
+  });
 
   const isUploadCompleted = Math.random() < completionChance;
   const totalItems = totalSignatures + 1; // signatures + upload (dynamic based on signature count)
@@ -52,37 +60,15 @@ function generateMonthlyProgress(
   };
 }
 
-/**
- * Determine expected number of progress entries per year based on contract period
- * "Per 1 Bulan" → 12 entries/year (monthly)
- * "Per 3 Bulan" → 4 entries/year (quarterly)  
- * "Per 6 Bulan" → 2 entries/year (semi-annual)
- * "Per 12 Bulan" → 1 entry/year (annual)
- */
-function getExpectedEntriesPerYear(period: string): number {
-  const p = period.toLowerCase();
-  
-  if (p.includes("12 bulan") || p.includes("per 12")) {
-    return 1; // Annual
-  }
-  if (p.includes("6 bulan") || p.includes("per 6")) {
-    return 2; // Semi-annual
-  }
-  if (p.includes("3 bulan") || p.includes("per 3")) {
-    return 4; // Quarterly
-  }
-  // Default: monthly
-  return 12;
-}
-
 /**
  * Calculate yearly status based on monthly progress
- * A contract is "completed" when ALL expected progress entries are 100%
+ * A contract is "completed" when ALL its active periods in the year are 100%
+ * (getActiveProgress: period schedule within the contract dates)
  */
 export function calculateYearlyStatus(
   contract: ContractWithProgress
 ): "completed" | "in_progress" | "not_started" {
-  const progressEntries = contract.monthly_progress;
+  const progressEntries = getActiveProgress(contract);
   
   if (progressEntries.length === 0) {
     return "not_started";
@@ -95,14 +81,8 @@ export function calculateYearlyStatus(
     return "not_started";
   }
   
-  // Get expected number of entries based on period
-  const expectedEntries = getExpectedEntriesPerYear(contract.period);
-  
-  // Count how many entries have 100% progress
-  const completedEntries = progressEntries.filter((m) => m.percentage === 100).length;
-  
-  // Contract is completed if completed entries >= expected entries
-  if (completedEntries >= expectedEntries) {
+  // Contract is completed if every active period has 100% progress
+  if (progressEntries.every((m) => m.percentage === 100)) {
     return "completed";
   }
   
@@ -139,12 +119,18 @@ export function generatePlaceholderData(year: number = new Date().getFullYear())
       period,
       invoice_type: invoiceType,
       notes,
+      deadline_days: DEFAULT_DEADLINE_DAYS,
+      contract_value: null,
+      period_amount: null,
+      ...getDefaultContractDates(year),
+      period_anchor_month: null,
       total_signatures: signatureCount,
       signatures,
       monthly_progress: Array.from({ length: 12 }, (_, i) =>
         generateMonthlyProgress(signatureCount, i, year)
       ),
       yearly_status: "in_progress",
+      updated_at: null,
     };
   };
 
@@ -0,0 +1,251 @@
+// Signatory reminders - one message per pending signature of a contract
+// month/sub-period, rendered from the per-channel templates in
+// reminder_templates (SUPABASE_SETUP.md §20) and copied or sent via SMTP
+import type {
+  ContractWithProgress,
+  CustomerWithAreas,
+  MonthlyProgressDetail,
+  ReminderChannel,
+  ReminderTemplateContent,
+  SignatureDetail,
+} from "@/types/database";
+import {
+  getActiveProgress,
+  getDaysPastDue,
+  getPeriodEndDate,
+  getProgressDueDate,
+  isHalfMonthPeriod,
+} from "@/types/database";
+import { fillTemplate, getInspectionPeriodLabel } from "@/lib/berita-acara";
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  email: "Email",
+  whatsapp: "WhatsApp",
+};
+
+// Placeholder yang bisa dipakai di teks template
+export const REMINDER_PLACEHOLDERS: { key: string; label: string }[] = [
+  { key: "penandatangan", label: "Nama penandatangan" },
+  { key: "jabatan", label: "Jabatan penandatangan" },
+  { key: "kontrak", label: "Nama kontrak" },
+  { key: "customer", label: "Nama customer" },
+  { key: "area", label: "Area" },
+  { key: "periode", label: "Periode yang ditagih, e.g. Januari - Maret 2026" },
+  { key: "hari_tertunda", label: "Jumlah hari sejak akhir periode" },
+  { key: "jatuh_tempo", label: "Batas waktu penyelesaian" },
+  { key: "progress", label: "Progress periode, e.g. 60%" },
+  { key: "pengirim", label: "Nama pengirim pengingat" },
+  { key: "tanggal", label: "Tanggal hari ini" },
+];
+
+export const DEFAULT_REMINDER_TEMPLATES: Record<ReminderChannel, ReminderTemplateContent> = {
+  email: {
+    subject: "Pengingat Tanda Tangan BAPP {{kontrak}} - {{periode}}",
+    body: [
+      "Yth. Bapak/Ibu {{penandatangan}} ({{jabatan}}),",
+      "",
+      "Bersama ini kami mengingatkan bahwa Berita Acara Pemeriksaan Pekerjaan (BAPP) berikut masih menunggu tanda tangan Bapak/Ibu:",
+      "",
+      "Kontrak   : {{kontrak}}",
+      "Customer  : {{customer}} ({{area}})",
+      "Periode   : {{periode}}",
+      "Tertunda  : {{hari_tertunda}} hari sejak akhir periode",
+      "Batas     : {{jatuh_tempo}}",
+      "",
+      "Mohon kesediaannya untuk menandatangani dokumen tersebut. Terima kasih atas perhatian dan kerja samanya.",
+      "",
+      "Hormat kami,",
+      "{{pengirim}}",
+    ].join("\n"),
+  },
+  whatsapp: {
+    subject: "",
+    body: [
+      "Selamat siang Bapak/Ibu {{penandatangan}},",
+      "",
+      "Mohon bantuan tanda tangan BAPP *{{kontrak}}* - {{customer}} ({{area}}) periode *{{periode}}*. Dokumen sudah tertunda {{hari_tertunda}} hari (batas {{jatuh_tempo}}).",
+      "",
+      "Terima kasih 🙏",
+      "{{pengirim}}",
+    ].join("\n"),
+  },
+};
+
+// Satu bulan/sub-periode kontrak yang akan diingatkan
+export interface ReminderSource {
+  contract: ContractWithProgress;
+  progress: MonthlyProgressDetail;
+  customerName: string;
+  areaName: string;
+}
+
+export interface PendingReminder extends ReminderSource {
+  key: string;
+  signature: SignatureDetail;
+  periodLabel: string;
+  daysOutstanding: number; // Hari sejak akhir periode (0 jika belum berakhir)
+  dueDate: Date;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+}
+
+// One reminder per signature of the period that is not signed yet
+export function getPendingReminders(
+  source: ReminderSource,
+  today: Date = new Date()
+): PendingReminder[] {
+  const { contract, progress } = source;
+  const periodEnd = getPeriodEndDate(
+    progress.year,
+    progress.month,
+    progress.sub_period,
+    isHalfMonthPeriod(contract.period)
+  );
+  const daysOutstanding = Math.max(getDaysPastDue(periodEnd, today), 0);
+  const dueDate = getProgressDueDate(contract, progress);
+  const periodLabel = getInspectionPeriodLabel(contract, progress, progress.year);
+
+  return [...progress.signatures]
+    .filter((sig) => !sig.is_completed)
+    .sort((a, b) => a.order - b.order)
+    .map((signature) => ({
+      ...source,
+      key: `${contract.id}-${progress.month}-${progress.sub_period}-${signature.id}`,
+      signature,
+      periodLabel,
+      daysOutstanding,
+      dueDate,
+    }));
+}
+
+/**
+ * Periods across the dashboard data that need a reminder: the period has
+ * ended, is below 100% and still has unsigned signatures.
+ */
+export function collectReminderSources(
+  data: CustomerWithAreas[],
+  today: Date = new Date()
+): ReminderSource[] {
+  return data.flatMap((customer) =>
+    customer.areas.flatMap((area) =>
+      area.contracts.flatMap((contract) =>
+        getActiveProgress(contract)
+          .filter((progress) => {
+            if (progress.percentage >= 100) return false;
+            if (!progress.signatures.some((sig) => !sig.is_completed)) return false;
+            const periodEnd = getPeriodEndDate(
+              progress.year,
+              progress.month,
+              progress.sub_period,
+              isHalfMonthPeriod(contract.period)
+            );
+            return getDaysPastDue(periodEnd, today) > 0;
+          })
+          .map((progress) => ({
+            contract,
+            progress,
+            customerName: customer.name,
+            areaName: area.name,
+          }))
+      )
+    )
+  );
+}
+
+export function getReminderValues(
+  reminder: PendingReminder,
+  senderName: string,
+  today: Date = new Date()
+): Record<string, string> {
+  return {
+    penandatangan: reminder.signature.name,
+    jabatan: reminder.signature.role,
+    kontrak: reminder.contract.name,
+    customer: reminder.customerName,
+    area: reminder.areaName,
+    periode: reminder.periodLabel,
+    hari_tertunda: String(reminder.daysOutstanding),
+    jatuh_tempo: formatDate(reminder.dueDate),
+    progress: `${reminder.progress.percentage}%`,
+    pengirim: senderName,
+    tanggal: formatDate(today),
+  };
+}
+
+export function renderReminder(
+  template: ReminderTemplateContent,
+  values: Record<string, string>
+): ReminderTemplateContent {
+  return {
+    subject: fillTemplate(template.subject, values),
+    body: fillTemplate(template.body, values),
+  };
+}
+
+// ===================
+// SMTP (via /api/reminders)
+// ===================
+
+export interface ReminderEmailRequest {
+  contractId: string;
+  month: number;
+  year: number;
+  subPeriod: number;
+  signatureId: string;
+  signatureName: string;
+  recipient: string;
+  subject: string;
+  body: string;
+}
+
+export interface ReminderEmailResult {
+  recipient: string;
+  status: "sent" | "failed";
+  error?: string;
+}
+
+export const MAX_REMINDER_EMAILS = 50;
+
+/**
+ * Send rendered reminders by email. Each message is sent and logged
+ * separately; results come back in request order.
+ */
+export async function sendReminderEmails(
+  reminders: ReminderEmailRequest[]
+): Promise<ReminderEmailResult[]> {
+  const response = await fetch("/api/reminders", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ reminders }),
+  });
+  const payload = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(payload?.error || `Gagal mengirim pengingat (${response.status})`);
+  }
+  return payload.results as ReminderEmailResult[];
+}
+
+// Alamat email terakhir per nama penandatangan, diingat di browser
+const RECIPIENTS_STORAGE_KEY = "bapp_reminder_recipients";
+
+export function loadReminderRecipients(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const stored = localStorage.getItem(RECIPIENTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveReminderRecipients(recipients: Record<string, string>): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(RECIPIENTS_STORAGE_KEY, JSON.stringify(recipients));
+}
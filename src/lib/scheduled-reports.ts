@@ -0,0 +1,235 @@
+// Scheduled reports - server-side jobs triggered by /api/cron/* routes.
+// Settings come from email_report_settings (SUPABASE_SETUP.md §17), data is
+// read with the service-role client and mail goes out through lib/email.ts.
+import type { CustomerWithAreas } from "@/types/database";
+import { generateExcelBuffer, generateSummaryReport } from "@/lib/export";
+import { calculateYearlyStatus } from "@/lib/placeholder-data";
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  fetchDashboardData,
+  fetchEmailReportSettings,
+  fetchQueuedNotificationEmails,
+  recordNotificationEmailAttempt,
+  recordWeeklySummarySent,
+} from "@/lib/supabase/data";
+import { escapeHtml, sendEmail } from "@/lib/email";
+
+// Cron bisa terpanggil dua kali (retry); jangan kirim ulang dalam 6 hari
+const WEEKLY_SUMMARY_MIN_INTERVAL_MS = 6 * 24 * 60 * 60 * 1000;
+
+// Email aturan notifikasi yang gagal dicoba ulang sampai 5 kali
+const NOTIFICATION_EMAIL_MAX_ATTEMPTS = 5;
+const NOTIFICATION_EMAIL_BATCH_SIZE = 100;
+
+export interface WeeklySummaryOptions {
+  year?: number; // Default: tahun berjalan
+  force?: boolean; // Abaikan interval minimal antar pengiriman
+  dryRun?: boolean; // Bangun email tanpa mengirim
+  now?: Date;
+}
+
+export interface WeeklySummaryResult {
+  status: "sent" | "skipped" | "dry_run";
+  reason?: string;
+  year: number;
+  recipients: string[];
+  subject?: string;
+  messageId?: string;
+}
+
+/**
+ * Subject, plain text and HTML body of the weekly summary, built from
+ * generateSummaryReport so the numbers match the TXT/PDF summary.
+ */
+export function buildWeeklySummaryEmail(
+  data: CustomerWithAreas[],
+  year: number,
+  generatedAt: Date
+): { subject: string; text: string; html: string } {
+  const summary = generateSummaryReport(data);
+  const dateLabel = generatedAt.toLocaleDateString("id-ID", {
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+  });
+  const subject = `Ringkasan Mingguan BAPP ${year} - ${dateLabel}`;
+
+  const kpis: [string, string | number][] = [
+    ["Total Customer", summary.totalCustomers],
+    ["Total Kontrak", summary.totalContracts],
+    ["Progress Keseluruhan", `${summary.overallProgress}%`],
+    ["Selesai", summary.completedContracts],
+    ["Dalam Proses", summary.inProgressContracts],
+    ["Belum Mulai", summary.notStartedContracts],
+  ];
+
+  const text = [
+    `RINGKASAN MINGGUAN BAPP TAHUN ${year}`,
+    `Per ${dateLabel}`,
+    "",
+    ...kpis.map(([label, value]) => `${label.padEnd(21)}: ${value}`),
+    "",
+    "PER CUSTOMER",
+    ...summary.customerSummaries.map(
+      (c) =>
+        `- ${c.name}: ${c.totalContracts} kontrak, rata-rata ${c.averageProgress}%, ${c.completedCount} selesai`
+    ),
+    "",
+    "Laporan Excel lengkap terlampir.",
+  ].join("\n");
+
+  const cell = 'style="padding:6px 10px;border:1px solid #d1d5db"';
+  const headerCell = 'style="padding:6px 10px;border:1px solid #1e3a5f;background:#1e3a5f;color:#fff;text-align:left"';
+  const html = `
+<div style="font-family:Arial,sans-serif;font-size:14px;color:#333">
+  <h2 style="color:#1e3a5f;margin-bottom:4px">Ringkasan Mingguan BAPP ${year}</h2>
+  <p style="color:#6b7280;margin-top:0">Per ${escapeHtml(dateLabel)}</p>
+  <table style="border-collapse:collapse;margin-bottom:16px">
+    ${kpis
+      .map(([label, value]) => `<tr><td ${cell}>${label}</td><td ${cell}><strong>${value}</strong></td></tr>`)
+      .join("\n    ")}
+  </table>
+  <table style="border-collapse:collapse">
+    <tr><th ${headerCell}>Customer</th><th ${headerCell}>Kontrak</th><th ${headerCell}>Rata-rata</th><th ${headerCell}>Selesai</th></tr>
+    ${summary.customerSummaries
+      .map(
+        (c) =>
+          `<tr><td ${cell}>${escapeHtml(c.name)}</td><td ${cell}>${c.totalContracts}</td><td ${cell}>${c.averageProgress}%</td><td ${cell}>${c.completedCount}</td></tr>`
+      )
+      .join("\n    ")}
+  </table>
+  <p style="color:#6b7280">Laporan Excel lengkap terlampir.</p>
+</div>`.trim();
+
+  return { subject, text, html };
+}
+
+/**
+ * Send the weekly summary (with the Excel report attached) to the
+ * recipients in email_report_settings. Skips when disabled, without
+ * recipients, or when already sent within the last 6 days unless `force`.
+ */
+export async function runWeeklySummary(
+  options: WeeklySummaryOptions = {}
+): Promise<WeeklySummaryResult> {
+  const now = options.now ?? new Date();
+  const year = options.year ?? now.getFullYear();
+
+  const supabase = createAdminClient();
+  if (!supabase) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY belum dikonfigurasi");
+  }
+
+  const stored = await fetchEmailReportSettings(supabase);
+  const settings = stored?.settings;
+  const recipients = settings?.recipients ?? [];
+  const skip = (reason: string): WeeklySummaryResult => ({
+    status: "skipped",
+    reason,
+    year,
+    recipients,
+  });
+
+  if (!settings?.enabled || !settings.sendWeeklySummary) {
+    return skip("Ringkasan mingguan tidak aktif");
+  }
+  if (recipients.length === 0) {
+    return skip("Belum ada email penerima");
+  }
+  if (
+    !options.force &&
+    stored?.lastWeeklySummaryAt &&
+    now.getTime() - new Date(stored.lastWeeklySummaryAt).getTime() <
+      WEEKLY_SUMMARY_MIN_INTERVAL_MS
+  ) {
+    return skip(`Sudah dikirim pada ${stored.lastWeeklySummaryAt}`);
+  }
+
+  const data = (await fetchDashboardData(year, supabase)).map((customer) => ({
+    ...customer,
+    areas: customer.areas.map((area) => ({
+      ...area,
+      contracts: area.contracts.map((contract) => ({
+        ...contract,
+        yearly_status: calculateYearlyStatus(contract),
+      })),
+    })),
+  }));
+
+  const email = buildWeeklySummaryEmail(data, year, now);
+  if (options.dryRun) {
+    return { status: "dry_run", year, recipients, subject: email.subject };
+  }
+
+  const workbook = await generateExcelBuffer(data);
+  const datePart = now.toISOString().slice(0, 10).replace(/-/g, "");
+  const messageId = await sendEmail({
+    to: recipients,
+    ...email,
+    attachments: [
+      {
+        filename: `BAPP_Report_TA_${year}_${datePart}.xlsx`,
+        content: Buffer.from(workbook),
+        contentType:
+          "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      },
+    ],
+  });
+
+  await recordWeeklySummarySent(supabase, now.toISOString());
+
+  return {
+    status: "sent",
+    year,
+    recipients,
+    subject: email.subject,
+    messageId,
+  };
+}
+
+export interface NotificationEmailsResult {
+  sent: number;
+  failed: number;
+}
+
+/**
+ * Deliver queued emails from notification rules with channel "email"
+ * (notification_emails, SUPABASE_SETUP.md §21). Each email is sent
+ * separately so one rejected address does not block the rest.
+ */
+export async function runNotificationEmails(): Promise<NotificationEmailsResult> {
+  const supabase = createAdminClient();
+  if (!supabase) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY belum dikonfigurasi");
+  }
+
+  const queued = await fetchQueuedNotificationEmails(
+    supabase,
+    NOTIFICATION_EMAIL_MAX_ATTEMPTS,
+    NOTIFICATION_EMAIL_BATCH_SIZE
+  );
+
+  const result: NotificationEmailsResult = { sent: 0, failed: 0 };
+  for (const email of queued) {
+    try {
+      await sendEmail({
+        to: [email.email],
+        subject: email.subject,
+        text: email.message,
+        html: `<div style="font-family:Arial,sans-serif;font-size:14px;color:#333"><p>${escapeHtml(email.message)}</p><p style="color:#6b7280;font-size:12px">Dikirim oleh aturan notifikasi Dashboard BAPP.</p></div>`,
+      });
+      await recordNotificationEmailAttempt(supabase, email, null);
+      result.sent++;
+    } catch (error) {
+      console.error("Notification email failed:", error);
+      await recordNotificationEmailAttempt(
+        supabase,
+        email,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      result.failed++;
+    }
+  }
+
+  return result;
+}
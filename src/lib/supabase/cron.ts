@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from "crypto";
+
+// Vercel Cron (dan crontab biasa) mengirim "Authorization: Bearer <CRON_SECRET>".
+// Server-only, dipakai oleh route /api/cron/*.
+export function isCronAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  // Hash dulu agar panjang sama (syarat timingSafeEqual) dan tidak bocor lewat waktu
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(
+    digest(request.headers.get("authorization") ?? ""),
+    digest(`Bearer ${secret}`)
+  );
+}
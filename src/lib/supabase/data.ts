@@ -4,14 +4,169 @@ import type {
   Customer,
   Area,
   BAPPContract,
+  Signature,
+  MonthlyProgress,
+  SignatureProgress,
   CustomerWithAreas,
   ContractWithProgress,
   ContractSummary,
+  InvoiceType,
   MonthlyProgressDetail,
+  MonthlyProgressSnapshot,
+  PeriodInvoice,
+  PeriodInvoiceInput,
+  ProgressAuditLog,
   SignatureDetail,
   UserProfile,
+  UserRole,
+  UserScope,
+  Permission,
+  TrashItem,
+  TrashItemType,
+  BeritaAcaraTemplate,
+  BeritaAcaraTemplateContent,
+  ReminderChannel,
+  ReminderLog,
+  ReminderTemplate,
+  ReminderTemplateContent,
+  Signatory,
+  SignatoryInput,
+  SignatoryReplacementResult,
 } from "@/types/database";
-import { isHalfMonthPeriod } from "@/types/database";
+import {
+  isHalfMonthPeriod,
+  hasPermission,
+  percentageToCompletion,
+  DEFAULT_DEADLINE_DAYS,
+  TRASH_RETENTION_DAYS,
+  getDefaultContractDates,
+} from "@/types/database";
+import type { WorkbookImportRow } from "@/lib/import";
+import type {
+  EmailNotificationSettings,
+  EmailReportSettings,
+  NewNotification,
+  Notification,
+  NotificationPriority,
+  NotificationRule,
+  NotificationRuleInput,
+  NotificationType,
+} from "@/lib/notifications";
+import type {
+  BackupTable,
+  BackupTables,
+  RestoreMode,
+  RestoreResult,
+} from "@/lib/backup";
+import { ConflictError, ForbiddenError } from "@/lib/error-translator";
+
+// ===================
+// PERMISSION HELPERS
+// ===================
+
+type SupabaseBrowserClient = NonNullable<ReturnType<typeof createClient>>;
+
+// Cache role user yang login agar tidak query profiles di setiap operasi
+let roleCache: { userId: string; role: UserRole; expiresAt: number } | null = null;
+const ROLE_CACHE_TTL = 60 * 1000; // 1 menit
+
+/**
+ * Get the logged-in user's id and role (role is cached for ROLE_CACHE_TTL).
+ */
+async function getCurrentUserRole(
+  supabase: SupabaseBrowserClient
+): Promise<{ userId: string; role: UserRole } | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  if (roleCache && roleCache.userId === user.id && roleCache.expiresAt > Date.now()) {
+    return { userId: user.id, role: roleCache.role };
+  }
+
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .single();
+
+  if (error || !profile) {
+    console.error("Error fetching user role:", error);
+    return null;
+  }
+
+  const role = profile.role as UserRole;
+  roleCache = { userId: user.id, role, expiresAt: Date.now() + ROLE_CACHE_TTL };
+  return { userId: user.id, role };
+}
+
+/**
+ * Ensure the logged-in user's role grants `permission`, returns the user id.
+ * RLS policies in the database enforce the same rules; this gives the UI a
+ * typed ForbiddenError instead of a silent no-op update.
+ */
+async function requirePermission(
+  supabase: SupabaseBrowserClient,
+  permission: Permission
+): Promise<string> {
+  const current = await getCurrentUserRole(supabase);
+  if (!current) throw new ForbiddenError(permission);
+
+  if (!hasPermission(current.role, permission)) {
+    logger.warning(
+      "Akses ditolak",
+      `Role "${current.role}" tidak memiliki izin "${permission}"`
+    );
+    throw new ForbiddenError(permission);
+  }
+
+  return current.userId;
+}
+
+// Customer/area yang boleh diakses user; null = tidak dibatasi
+interface ScopeFilter {
+  customerIds: Set<string>;
+  areaIds: Set<string>;
+}
+
+/**
+ * Resolve the logged-in user's customer/area assignments.
+ * Super admins and users without any assignment are unrestricted (null).
+ * Throws if the assignments can't be read, so a failed query never
+ * falls back to unrestricted access.
+ */
+async function getCurrentUserScope(
+  supabase: SupabaseBrowserClient
+): Promise<ScopeFilter | null> {
+  const current = await getCurrentUserRole(supabase);
+  if (!current || current.role === "super_admin") return null;
+
+  const { data, error } = await supabase
+    .from("user_scopes")
+    .select("customer_id, area_id")
+    .eq("user_id", current.userId);
+
+  if (error) {
+    console.error("Error fetching user scopes:", error);
+    throw new Error(error.message);
+  }
+  if (!data || data.length === 0) return null;
+
+  return {
+    customerIds: new Set(data.map((s) => s.customer_id).filter(Boolean)),
+    areaIds: new Set(data.map((s) => s.area_id).filter(Boolean)),
+  };
+}
+
+function isInScope(
+  scope: ScopeFilter | null,
+  customerId: string,
+  areaId: string | null
+): boolean {
+  if (!scope) return true;
+  return scope.customerIds.has(customerId) || (!!areaId && scope.areaIds.has(areaId));
+}
 
 // ===================
 // FETCH FUNCTIONS
@@ -24,6 +179,7 @@ export async function fetchCustomers(): Promise<Customer[]> {
   const { data, error } = await supabase
     .from("customers")
     .select("*")
+    .is("deleted_at", null)
     .order("name");
 
   if (error) {
@@ -41,6 +197,7 @@ export async function fetchCustomersWithAreas(): Promise<CustomerWithAreas[]> {
   const { data: customers, error: customersError } = await supabase
     .from("customers")
     .select("*")
+    .is("deleted_at", null)
     .order("name");
 
   if (customersError) {
@@ -51,6 +208,7 @@ export async function fetchCustomersWithAreas(): Promise<CustomerWithAreas[]> {
   const { data: areas, error: areasError } = await supabase
     .from("areas")
     .select("*")
+    .is("deleted_at", null)
     .order("code");
 
   if (areasError) {
@@ -74,7 +232,11 @@ export async function fetchAreas(customerId?: string): Promise<Area[]> {
   const supabase = createClient();
   if (!supabase) return [];
 
-  let query = supabase.from("areas").select("*").order("code");
+  let query = supabase
+    .from("areas")
+    .select("*")
+    .is("deleted_at", null)
+    .order("code");
 
   if (customerId) {
     query = query.eq("customer_id", customerId);
@@ -97,6 +259,7 @@ export async function fetchUniqueContractNames(): Promise<string[]> {
   const { data, error } = await supabase
     .from("bapp_contracts")
     .select("name")
+    .is("deleted_at", null)
     .order("name");
 
   if (error) {
@@ -116,6 +279,7 @@ export async function fetchUniqueAreaNames(): Promise<string[]> {
   const { data, error } = await supabase
     .from("areas")
     .select("name")
+    .is("deleted_at", null)
     .order("name");
 
   if (error) {
@@ -135,6 +299,7 @@ export async function fetchUniqueCustomerNames(): Promise<string[]> {
   const { data, error } = await supabase
     .from("customers")
     .select("name")
+    .is("deleted_at", null)
     .order("name");
 
   if (error) {
@@ -163,15 +328,47 @@ export async function fetchUserProfile(userId: string): Promise<UserProfile | nu
   return data;
 }
 
-export async function fetchDashboardData(year: number): Promise<CustomerWithAreas[]> {
+export async function fetchUserProfiles(): Promise<UserProfile[]> {
   const supabase = createClient();
   if (!supabase) return [];
 
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .order("full_name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching user profiles:", error);
+    throw new Error(error.message);
+  }
+
+  return data || [];
+}
+
+/**
+ * Dashboard tree for a year: every contract whose start/end dates overlap it,
+ * with the progress of that year's months. Pass a service-role client
+ * (lib/supabase/admin.ts) from server jobs; it has no user, so no
+ * customer/area scope is applied.
+ */
+export async function fetchDashboardData(
+  year: number,
+  client?: SupabaseBrowserClient
+): Promise<CustomerWithAreas[]> {
+  const supabase = client ?? createClient();
+  if (!supabase) return [];
+
   // OPTIMIZED: Fetch all data in parallel using Promise.all
   const [customersResult, areasResult, contractsResult] = await Promise.all([
-    supabase.from("customers").select("*").order("name"),
-    supabase.from("areas").select("*").order("code"),
-    supabase.from("bapp_contracts").select("*").eq("year", year).order("name"),
+    supabase.from("customers").select("*").is("deleted_at", null).order("name"),
+    supabase.from("areas").select("*").is("deleted_at", null).order("code"),
+    supabase
+      .from("bapp_contracts")
+      .select("*")
+      .lte("start_date", `${year}-12-31`)
+      .gte("end_date", `${year}-01-01`)
+      .is("deleted_at", null)
+      .order("name"),
   ]);
 
   if (customersResult.error) {
@@ -189,7 +386,12 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
 
   const customers = customersResult.data || [];
   const areas = areasResult.data || [];
-  const contracts = contractsResult.data || [];
+
+  // Hanya kontrak dalam customer/area yang ditugaskan ke user
+  const scope = await getCurrentUserScope(supabase);
+  const contracts = (contractsResult.data || []).filter((c) =>
+    isInScope(scope, c.customer_id, c.area_id)
+  );
 
   // Early return if no contracts
   if (contracts.length === 0) {
@@ -237,6 +439,29 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
     signatureProgress = sigProgressResult.data || [];
   }
 
+  // Resolve completed_by → nama penandatangan (satu query untuk semua user)
+  const completedByNames = new Map<string, string>();
+  const completedByIds = [
+    ...new Set(
+      signatureProgress
+        .map((sp) => sp.completed_by as string | null)
+        .filter((id): id is string => !!id)
+    ),
+  ];
+  if (completedByIds.length > 0) {
+    const profilesResult = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", completedByIds);
+
+    if (profilesResult.error) {
+      console.error("Error fetching signer profiles:", profilesResult.error);
+    }
+    for (const profile of profilesResult.data || []) {
+      completedByNames.set(profile.id, profile.full_name || profile.email);
+    }
+  }
+
   // OPTIMIZED: Create lookup Maps for O(1) access instead of O(n) array.filter
   const areasByCustomerId = new Map<string, typeof areas>();
   for (const area of areas) {
@@ -317,13 +542,19 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
                     (sp) => sp.signature_id === sig.id
                   );
 
+                  // Progress yang dikunci saat penggantian penandatangan
+                  // tetap menampilkan penandatangan lamanya
                   return {
                     id: sig.id,
-                    name: sig.name,
-                    role: sig.role,
+                    name: sigProgress?.signer_name || sig.name,
+                    role: sigProgress?.signer_role ?? sig.role,
                     order: sig.order,
                     is_completed: sigProgress?.is_completed || false,
                     completed_at: sigProgress?.completed_at || null,
+                    completed_by: sigProgress?.completed_by || null,
+                    completed_by_name: sigProgress?.completed_by
+                      ? completedByNames.get(sigProgress.completed_by) || null
+                      : null,
                   };
                 });
 
@@ -375,6 +606,12 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
             period: contract.period,
             invoice_type: contract.invoice_type,
             notes: contract.notes,
+            deadline_days: contract.deadline_days ?? DEFAULT_DEADLINE_DAYS,
+            contract_value: contract.contract_value ?? null,
+            period_amount: contract.period_amount ?? null,
+            start_date: contract.start_date,
+            end_date: contract.end_date,
+            period_anchor_month: contract.period_anchor_month ?? null,
             total_signatures: contractSignatures.length,
             signatures: contractSignatures,
             monthly_progress: monthlyProgressData,
@@ -382,6 +619,7 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
               | "completed"
               | "in_progress"
               | "not_started",
+            updated_at: contract.updated_at || null,
           };
         }
       );
@@ -407,6 +645,55 @@ export async function fetchDashboardData(year: number): Promise<CustomerWithArea
   );
 }
 
+/**
+ * Fetch audit trail perubahan progress untuk satu kontrak (terbaru dulu).
+ * Baris audit ditulis oleh trigger database, lihat SUPABASE_SETUP.md langkah 8.
+ */
+export async function fetchProgressAuditLog(
+  contractId: string,
+  year?: number
+): Promise<ProgressAuditLog[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  let query = supabase
+    .from("progress_audit_log")
+    .select("*")
+    .eq("contract_id", contractId);
+
+  if (year !== undefined) {
+    query = query.eq("year", year);
+  }
+
+  const { data, error } = await query
+    .order("changed_at", { ascending: false })
+    .limit(500);
+
+  if (error) {
+    console.error("Error fetching progress audit log:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
+export async function fetchUserScopes(): Promise<UserScope[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("user_scopes")
+    .select("*")
+    .order("created_at");
+
+  if (error) {
+    console.error("Error fetching user scopes:", error);
+    return [];
+  }
+
+  return data || [];
+}
+
 // ===================
 // CREATE FUNCTIONS
 // ===================
@@ -427,11 +714,20 @@ export async function getOrCreateCustomer(name: string): Promise<Customer | null
     throw new Error(findError.message);
   }
 
+  if (existing?.deleted_at) {
+    // Nama customer unik, jadi customer di Sampah harus dipulihkan dulu
+    throw new Error(
+      `Customer "${existing.name}" ada di Sampah. Hubungi Super Admin untuk memulihkannya.`
+    );
+  }
+
   if (existing) {
     return existing;
   }
 
   // Create new customer if not found
+  await requirePermission(supabase, "contract:create");
+
   const { data, error } = await supabase
     .from("customers")
     .insert({ name: name.trim() })
@@ -459,6 +755,7 @@ export async function getOrCreateArea(
     .select("*")
     .eq("customer_id", customerId)
     .ilike("name", name.trim())
+    .is("deleted_at", null)
     .maybeSingle();
 
   if (findError) {
@@ -470,6 +767,8 @@ export async function getOrCreateArea(
     return existing;
   }
 
+  await requirePermission(supabase, "contract:create");
+
   // Generate a unique code from name + timestamp to avoid collisions
   const baseCode = name.trim().substring(0, 8).toUpperCase().replace(/\s+/g, "_");
   const uniqueSuffix = Date.now().toString(36).toUpperCase().slice(-4);
@@ -493,6 +792,8 @@ export async function createCustomer(name: string): Promise<Customer | null> {
   const supabase = createClient();
   if (!supabase) return null;
 
+  await requirePermission(supabase, "contract:create");
+
   const { data, error } = await supabase
     .from("customers")
     .insert({ name })
@@ -515,6 +816,8 @@ export async function createArea(
   const supabase = createClient();
   if (!supabase) return null;
 
+  await requirePermission(supabase, "contract:create");
+
   const { data, error } = await supabase
     .from("areas")
     .insert({ customer_id: customerId, name, code })
@@ -537,13 +840,21 @@ export async function createContract(
     period: string;
     invoice_type: string;
     notes?: string;
+    deadline_days?: number;
+    contract_value?: number | null;
+    period_amount?: number | null;
+    start_date?: string; // Default: 1 Jan - 31 Des tahun `year`
+    end_date?: string;
+    period_anchor_month?: number | null;
     year: number;
   },
-  signatures: { name: string; role: string }[]
+  signatures: { name: string; role: string; signatory_id?: string | null }[]
 ): Promise<BAPPContract | null> {
   const supabase = createClient();
   if (!supabase) return null;
 
+  await requirePermission(supabase, "contract:create");
+
   // Create the contract
   const { data: contract, error: contractError } = await supabase
     .from("bapp_contracts")
@@ -554,6 +865,12 @@ export async function createContract(
       period: contractData.period,
       invoice_type: contractData.invoice_type,
       notes: contractData.notes || null,
+      deadline_days: contractData.deadline_days ?? DEFAULT_DEADLINE_DAYS,
+      contract_value: contractData.contract_value ?? null,
+      period_amount: contractData.period_amount ?? null,
+      start_date: contractData.start_date ?? getDefaultContractDates(contractData.year).start_date,
+      end_date: contractData.end_date ?? getDefaultContractDates(contractData.year).end_date,
+      period_anchor_month: contractData.period_anchor_month ?? null,
       year: contractData.year,
     })
     .select()
@@ -571,6 +888,7 @@ export async function createContract(
       contract_id: contract.id,
       name: sig.name,
       role: sig.role,
+      signatory_id: sig.signatory_id ?? null,
       order: index + 1,
     }));
 
@@ -581,8 +899,12 @@ export async function createContract(
     if (sigError) {
       console.error("Error creating signatures:", sigError);
       logger.error("Gagal membuat tanda tangan", sigError.message);
-      // Rollback contract creation
-      await supabase.from("bapp_contracts").delete().eq("id", contract.id);
+      // Rollback contract creation - hapus permanen hanya untuk super admin,
+      // jadi kontrak yang gagal dipindahkan ke Sampah
+      await supabase
+        .from("bapp_contracts")
+        .update({ deleted_at: new Date().toISOString() })
+        .eq("id", contract.id);
       throw new Error(sigError.message);
     }
   }
@@ -595,35 +917,61 @@ export async function createContract(
 // UPDATE FUNCTIONS
 // ===================
 
+/**
+ * Update contract fields. When `expectedUpdatedAt` is given, the update only
+ * applies if the contract is unchanged since then; otherwise ConflictError.
+ */
 export async function updateContract(
   contractId: string,
-  updates: Partial<BAPPContract>
+  updates: Partial<BAPPContract>,
+  expectedUpdatedAt?: string | null
 ): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
-  const { error } = await supabase
+  await requirePermission(supabase, "contract:edit");
+
+  let query = supabase
     .from("bapp_contracts")
     .update({ ...updates, updated_at: new Date().toISOString() })
     .eq("id", contractId);
+  if (expectedUpdatedAt) {
+    query = query.eq("updated_at", expectedUpdatedAt);
+  }
+
+  const { data: updated, error } = await query.select("id");
 
   if (error) {
     console.error("Error updating contract:", error);
     throw new Error(error.message);
   }
+
+  // Tidak ada baris yang cocok = kontrak sudah diubah orang lain
+  if (expectedUpdatedAt && (!updated || updated.length === 0)) {
+    const { data: current } = await supabase
+      .from("bapp_contracts")
+      .select("*")
+      .eq("id", contractId)
+      .maybeSingle();
+
+    logger.warning("Konflik edit kontrak", `Contract ID: ${contractId}`);
+    throw new ConflictError<BAPPContract>("bapp_contracts", current);
+  }
 }
 
 export async function updateContractSignatures(
   contractId: string,
-  signatures: { id?: string; name: string; role: string }[]
+  signatures: { id?: string; name: string; role: string; signatory_id?: string | null }[]
 ): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
+  await requirePermission(supabase, "contract:edit");
+
   // Get existing signatures for this contract
   const { data: existingSignatures, error: fetchError } = await supabase
     .from("signatures")
-    .select("id, name, role, order")
+    .select("id, name, role, order, signatory_id")
     .eq("contract_id", contractId)
     .order("order");
 
@@ -639,22 +987,42 @@ export async function updateContractSignatures(
   const toDelete = (existingSignatures || []).filter((s) => !newSignatureIds.has(s.id));
   
   // Signatures to update (exist in both, check if changed)
-  const toUpdate: { id: string; name: string; role: string; order: number }[] = [];
+  const toUpdate: {
+    id: string;
+    name: string;
+    role: string;
+    signatory_id: string | null;
+    order: number;
+  }[] = [];
   
   // Signatures to create (new ones without valid existing ID)
-  const toCreate: { contract_id: string; name: string; role: string; order: number }[] = [];
+  const toCreate: {
+    contract_id: string;
+    name: string;
+    role: string;
+    signatory_id: string | null;
+    order: number;
+  }[] = [];
 
   signatures.forEach((sig, index) => {
     const order = index + 1;
+    const signatoryId = sig.signatory_id ?? null;
     
     if (sig.id && existingIds.has(sig.id)) {
       // Existing signature - check if needs update
       const existing = existingSignatures?.find((e) => e.id === sig.id);
-      if (existing && (existing.name !== sig.name || existing.role !== sig.role || existing.order !== order)) {
+      if (
+        existing &&
+        (existing.name !== sig.name ||
+          existing.role !== sig.role ||
+          (existing.signatory_id ?? null) !== signatoryId ||
+          existing.order !== order)
+      ) {
         toUpdate.push({
           id: sig.id,
           name: sig.name,
           role: sig.role,
+          signatory_id: signatoryId,
           order,
         });
       }
@@ -664,6 +1032,7 @@ export async function updateContractSignatures(
         contract_id: contractId,
         name: sig.name,
         role: sig.role,
+        signatory_id: signatoryId,
         order,
       });
     }
@@ -687,7 +1056,12 @@ export async function updateContractSignatures(
     const updatePromises = toUpdate.map((sig) =>
       supabase
         .from("signatures")
-        .update({ name: sig.name, role: sig.role, order: sig.order })
+        .update({
+          name: sig.name,
+          role: sig.role,
+          signatory_id: sig.signatory_id,
+          order: sig.order,
+        })
         .eq("id", sig.id)
     );
     
@@ -712,6 +1086,70 @@ export async function updateContractSignatures(
   }
 }
 
+/**
+ * Build a ConflictError carrying the latest progress on the server and the
+ * name of the user who changed it last (from the audit trail).
+ */
+async function createProgressConflict(
+  supabase: SupabaseBrowserClient,
+  contractId: string,
+  month: number,
+  year: number,
+  subPeriod: number
+): Promise<ConflictError<MonthlyProgressSnapshot>> {
+  const { data: progress } = await supabase
+    .from("monthly_progress")
+    .select("id, updated_at, upload_link, is_upload_completed, notes")
+    .eq("contract_id", contractId)
+    .eq("month", month)
+    .eq("year", year)
+    .eq("sub_period", subPeriod)
+    .maybeSingle();
+
+  let snapshot: MonthlyProgressSnapshot | null = null;
+  let changedBy: string | null = null;
+
+  if (progress) {
+    const [sigResult, auditResult] = await Promise.all([
+      supabase
+        .from("signature_progress")
+        .select("signature_id, is_completed")
+        .eq("monthly_progress_id", progress.id),
+      supabase
+        .from("progress_audit_log")
+        .select("changed_by_name")
+        .eq("monthly_progress_id", progress.id)
+        .order("changed_at", { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+    ]);
+
+    snapshot = {
+      updated_at: progress.updated_at,
+      upload_link: progress.upload_link,
+      is_upload_completed: progress.is_upload_completed,
+      notes: progress.notes,
+      signatures: Object.fromEntries(
+        (sigResult.data || []).map((sp) => [sp.signature_id, sp.is_completed])
+      ),
+    };
+    changedBy = auditResult.data?.changed_by_name || null;
+  }
+
+  logger.warning(
+    "Konflik edit progress",
+    `Contract ID: ${contractId}, bulan ${month}/${year} periode ${subPeriod}`
+  );
+  return new ConflictError("monthly_progress", snapshot, changedBy);
+}
+
+/**
+ * Save progress for one month/sub-period atomically via the
+ * `save_monthly_progress` RPC (see SUPABASE_SETUP.md langkah 13).
+ * `expectedUpdatedAt` is the updated_at the editor loaded (null = no record
+ * yet); if the record changed since then a ConflictError is thrown.
+ * Pass undefined to skip the check (last write wins).
+ */
 export async function updateMonthlyProgress(
   contractId: string,
   month: number,
@@ -720,131 +1158,96 @@ export async function updateMonthlyProgress(
   isUploadCompleted: boolean,
   notes: string | null,
   signatureStatuses: { signatureId: string; isCompleted: boolean }[],
-  subPeriod: number = 1
+  subPeriod: number = 1,
+  expectedUpdatedAt?: string | null
 ): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
-  // Get or create monthly progress record
-  let { data: progress } = await supabase
-    .from("monthly_progress")
-    .select("id")
-    .eq("contract_id", contractId)
-    .eq("month", month)
-    .eq("year", year)
-    .eq("sub_period", subPeriod)
-    .single();
-
-  if (!progress) {
-    // Create new monthly progress
-    const { data: newProgress, error: createError } = await supabase
-      .from("monthly_progress")
-      .insert({
-        contract_id: contractId,
-        month,
-        year,
-        sub_period: subPeriod,
-        upload_link: uploadLink,
-        is_upload_completed: isUploadCompleted,
-        notes: notes,
-      })
-      .select()
-      .single();
+  await requirePermission(supabase, "progress:edit");
+  const checkVersion = expectedUpdatedAt !== undefined;
+
+  // Satu transaksi di server: monthly_progress + semua signature_progress.
+  // completed_by diisi dari auth.uid() oleh function.
+  const { error } = await supabase.rpc("save_monthly_progress", {
+    p_contract_id: contractId,
+    p_month: month,
+    p_year: year,
+    p_sub_period: subPeriod,
+    p_upload_link: uploadLink,
+    p_is_upload_completed: isUploadCompleted,
+    p_notes: notes,
+    p_signatures: signatureStatuses.map((s) => ({
+      signature_id: s.signatureId,
+      is_completed: s.isCompleted,
+    })),
+    p_check_version: checkVersion,
+    p_expected_updated_at: expectedUpdatedAt ?? null,
+  });
 
-    if (createError) {
-      console.error("Error creating monthly progress:", createError);
-      throw new Error(createError.message);
+  if (error) {
+    // 40001 = versi berubah, 23505 = record dibuat user lain bersamaan
+    if (checkVersion && (error.code === "40001" || error.code === "23505")) {
+      throw await createProgressConflict(supabase, contractId, month, year, subPeriod);
     }
+    console.error("Error saving monthly progress:", error);
+    throw new Error(error.message);
+  }
 
-    progress = newProgress;
-  } else {
-    // Update existing monthly progress
-    const { error: updateError } = await supabase
-      .from("monthly_progress")
-      .update({
-        upload_link: uploadLink,
-        is_upload_completed: isUploadCompleted,
-        notes: notes,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", progress.id);
+  const monthNames = ["Januari", "Februari", "Maret", "April", "Mei", "Juni", "Juli", "Agustus", "September", "Oktober", "November", "Desember"];
+  logger.info(`Progress ${monthNames[month - 1]} ${year} diperbarui`, `Contract ID: ${contractId}`);
+}
 
-    if (updateError) {
-      console.error("Error updating monthly progress:", updateError);
-      throw new Error(updateError.message);
-    }
-  }
+export async function updateUserRole(
+  userId: string,
+  role: UserRole
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
 
-  // Safety check - progress should now be defined
-  if (!progress) {
-    throw new Error("Failed to create or update monthly progress");
-  }
+  await requirePermission(supabase, "user:manage");
 
-  // OPTIMIZED: Batch fetch existing signature progress in single query
-  const { data: existingSigProgress } = await supabase
-    .from("signature_progress")
-    .select("id, signature_id")
-    .eq("monthly_progress_id", progress.id);
+  const { error } = await supabase
+    .from("profiles")
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq("id", userId);
 
-  const existingSigMap = new Map(
-    (existingSigProgress || []).map((sp) => [sp.signature_id, sp.id])
-  );
+  if (error) {
+    console.error("Error updating user role:", error);
+    throw new Error(error.message);
+  }
 
-  // Separate into updates and inserts
-  const toUpdate: { id: string; is_completed: boolean; completed_at: string | null }[] = [];
-  const toInsert: { monthly_progress_id: string; signature_id: string; is_completed: boolean; completed_at: string | null }[] = [];
+  logger.info(`Role pengguna diubah menjadi ${role}`, `User ID: ${userId}`);
+}
 
-  for (const sigStatus of signatureStatuses) {
-    const existingId = existingSigMap.get(sigStatus.signatureId);
-    const completedAt = sigStatus.isCompleted ? new Date().toISOString() : null;
+/**
+ * Replace all customer/area assignments of a user in one transaction
+ * (RPC `set_user_scopes`, SUPABASE_SETUP.md §11).
+ * An empty list removes the restriction (user sees all data).
+ */
+export async function setUserScopes(
+  userId: string,
+  scopes: { customer_id: string | null; area_id: string | null }[]
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
 
-    if (existingId) {
-      toUpdate.push({
-        id: existingId,
-        is_completed: sigStatus.isCompleted,
-        completed_at: completedAt,
-      });
-    } else {
-      toInsert.push({
-        monthly_progress_id: progress.id,
-        signature_id: sigStatus.signatureId,
-        is_completed: sigStatus.isCompleted,
-        completed_at: completedAt,
-      });
-    }
-  }
+  await requirePermission(supabase, "user:manage");
 
-  // OPTIMIZED: Batch insert new signature progress
-  if (toInsert.length > 0) {
-    const { error: insertError } = await supabase
-      .from("signature_progress")
-      .insert(toInsert);
+  const { error } = await supabase.rpc("set_user_scopes", {
+    p_user_id: userId,
+    p_scopes: scopes,
+  });
 
-    if (insertError) {
-      console.error("Error inserting signature progress:", insertError);
-      throw new Error(insertError.message);
-    }
+  if (error) {
+    console.error("Error saving user scopes:", error);
+    throw new Error(error.message);
   }
 
-  // OPTIMIZED: Batch update existing signature progress using upsert alternative
-  // Since Supabase doesn't support batch update with different values easily,
-  // we use Promise.all for parallel execution
-  if (toUpdate.length > 0) {
-    await Promise.all(
-      toUpdate.map((update) =>
-        supabase
-          .from("signature_progress")
-          .update({
-            is_completed: update.is_completed,
-            completed_at: update.completed_at,
-          })
-          .eq("id", update.id)
-      )
-    );
-  }
-  
-  const monthNames = ["Januari", "Februari", "Maret", "April", "Mei", "Juni", "Juli", "Agustus", "September", "Oktober", "November", "Desember"];
-  logger.info(`Progress ${monthNames[month - 1]} ${year} diperbarui`, `Contract ID: ${contractId}`);
+  logger.info(
+    "Akses customer/area pengguna diperbarui",
+    `User ID: ${userId}, ${scopes.length} penugasan`
+  );
 }
 
 // ===================
@@ -853,7 +1256,7 @@ export async function updateMonthlyProgress(
 
 export interface PeriodMigrationConfig {
   contractId: string;
-  year: number;
+  year: number; // Tahun yang dibuka di dialog; mergeConfig/splitConfig berlaku untuk tahun ini
   newPeriod: number;
   // For merge (converting UP): which data to use for each target period
   mergeConfig?: {
@@ -868,353 +1271,149 @@ export interface PeriodMigrationConfig {
   }[];
   // For half-month conversion: how to handle P2
   halfMonthMode?: "duplicate" | "empty";
+  // Other years of the contract are migrated on the server with these modes
+  mergeMode?: "highest" | "last";
+  splitMode?: "duplicate" | "last";
+  // New contract dates/anchor, saved by the same transaction; progress at the
+  // old period end months moves to the new ones
+  schedule?: Pick<BAPPContract, "start_date" | "end_date" | "period_anchor_month">;
 }
 
-export async function migrateContractPeriod(
-  config: PeriodMigrationConfig
-): Promise<void> {
-  const supabase = createClient();
-  if (!supabase) return;
+// Satu cell progress dalam snapshot migrasi (lihat contract_progress_snapshot)
+export interface PeriodMigrationCell {
+  year: number;
+  month: number;
+  sub_period: number;
+  upload_link: string | null;
+  is_upload_completed: boolean;
+  notes: string | null;
+  completed_signatures: number;
+}
 
-  const { contractId, year, newPeriod, mergeConfig, splitConfig, halfMonthMode = "duplicate" } = config;
+export interface PeriodMigrationChange {
+  year: number;
+  month: number;
+  subPeriod: number;
+  before: PeriodMigrationCell;
+  after: PeriodMigrationCell;
+}
 
-  // First, get all existing monthly progress and signature progress
-  const { data: existingProgress } = await supabase
-    .from("monthly_progress")
-    .select("*, signature_progress(*)")
-    .eq("contract_id", contractId)
-    .eq("year", year);
+export interface PeriodMigrationPreview {
+  periodBefore: string;
+  periodAfter: string;
+  changes: PeriodMigrationChange[]; // Hanya cell yang berubah
+}
 
-  // Get contract signatures for reference
-  const { data: signatures } = await supabase
-    .from("signatures")
-    .select("*")
-    .eq("contract_id", contractId)
-    .order("order");
+interface PeriodMigrationResult {
+  period_before: string;
+  period_after: string;
+  before: PeriodMigrationCell[];
+  after: PeriodMigrationCell[];
+}
 
-  if (!signatures) return;
+/**
+ * Run the `migrate_contract_period` RPC (SUPABASE_SETUP.md langkah 28) for
+ * every year of the contract. The whole migration is one transaction; with
+ * `dryRun` it is rolled back and only the before/after snapshots are returned.
+ */
+async function runPeriodMigration(
+  supabase: SupabaseBrowserClient,
+  config: PeriodMigrationConfig,
+  dryRun: boolean
+): Promise<PeriodMigrationResult> {
+  await requirePermission(supabase, "contract:migrate");
+
+  const { data, error } = await supabase.rpc("migrate_contract_period", {
+    p_contract_id: config.contractId,
+    p_year: config.year,
+    p_new_period: config.newPeriod,
+    p_merge_config: config.mergeConfig || [],
+    p_split_config: config.splitConfig || [],
+    p_half_month_mode: config.halfMonthMode || "duplicate",
+    p_dry_run: dryRun,
+    p_merge_mode: config.mergeMode || "highest",
+    p_split_mode: config.splitMode || "duplicate",
+    p_schedule: config.schedule ?? null,
+  });
 
-  // Handle MERGE (converting UP - e.g., 1 month to 4 months)
-  if (mergeConfig && mergeConfig.length > 0) {
-    for (const merge of mergeConfig) {
-      const sourceProgress = existingProgress?.find(
-        (p) => p.month === merge.sourceMonth
-      );
+  if (error) {
+    console.error("Error migrating contract period:", error);
+    throw new Error(error.message);
+  }
 
-      if (sourceProgress) {
-        // Get or create target month progress
-        let { data: targetProgress } = await supabase
-          .from("monthly_progress")
-          .select("id")
-          .eq("contract_id", contractId)
-          .eq("month", merge.targetMonth)
-          .eq("year", year)
-          .single();
+  return data as PeriodMigrationResult;
+}
 
-        const combinedNotes = merge.notes.length > 0 
-          ? merge.notes.join("\n---\n") 
-          : sourceProgress.notes;
-
-        if (!targetProgress) {
-          // Create new progress for target month
-          const { data: newProgress } = await supabase
-            .from("monthly_progress")
-            .insert({
-              contract_id: contractId,
-              month: merge.targetMonth,
-              year,
-              upload_link: sourceProgress.upload_link,
-              is_upload_completed: sourceProgress.is_upload_completed,
-              notes: combinedNotes,
-            })
-            .select()
-            .single();
-
-          targetProgress = newProgress;
-        } else {
-          // Update target month with source data
-          await supabase
-            .from("monthly_progress")
-            .update({
-              upload_link: sourceProgress.upload_link,
-              is_upload_completed: sourceProgress.is_upload_completed,
-              notes: combinedNotes,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", targetProgress.id);
-        }
+function diffMigrationSnapshots(
+  result: PeriodMigrationResult
+): PeriodMigrationChange[] {
+  const emptyCell = (year: number, month: number, subPeriod: number): PeriodMigrationCell => ({
+    year,
+    month,
+    sub_period: subPeriod,
+    upload_link: null,
+    is_upload_completed: false,
+    notes: null,
+    completed_signatures: 0,
+  });
+  const key = (cell: PeriodMigrationCell) => `${cell.year}:${cell.month}:${cell.sub_period}`;
 
-        // Copy signature progress
-        if (targetProgress && sourceProgress.signature_progress) {
-          // Delete existing signature progress for target
-          await supabase
-            .from("signature_progress")
-            .delete()
-            .eq("monthly_progress_id", targetProgress.id);
-
-          // OPTIMIZED: Batch insert signature progress from source
-          const sigProgressInserts = sourceProgress.signature_progress.map((sigProgress: any) => ({
-            monthly_progress_id: targetProgress.id,
-            signature_id: sigProgress.signature_id,
-            is_completed: sigProgress.is_completed,
-            completed_at: sigProgress.completed_at,
-          }));
+  const beforeByKey = new Map(result.before.map((cell) => [key(cell), cell]));
+  const afterByKey = new Map(result.after.map((cell) => [key(cell), cell]));
+  const keys = [...new Set([...beforeByKey.keys(), ...afterByKey.keys()])];
 
-          if (sigProgressInserts.length > 0) {
-            await supabase.from("signature_progress").insert(sigProgressInserts);
-          }
-        }
+  return keys
+    .map((k) => {
+      const [year, month, subPeriod] = k.split(":").map(Number);
+      return {
+        year,
+        month,
+        subPeriod,
+        before: beforeByKey.get(k) || emptyCell(year, month, subPeriod),
+        after: afterByKey.get(k) || emptyCell(year, month, subPeriod),
+      };
+    })
+    .filter(
+      ({ before, after }) =>
+        before.upload_link !== after.upload_link ||
+        before.is_upload_completed !== after.is_upload_completed ||
+        (before.notes || null) !== (after.notes || null) ||
+        before.completed_signatures !== after.completed_signatures
+    )
+    .sort((a, b) => a.year - b.year || a.month - b.month || a.subPeriod - b.subPeriod);
+}
 
-        // Clear source month if different from target
-        if (merge.sourceMonth !== merge.targetMonth) {
-          const sourceRecord = existingProgress?.find(
-            (p) => p.month === merge.sourceMonth
-          );
-          if (sourceRecord) {
-            await supabase
-              .from("signature_progress")
-              .delete()
-              .eq("monthly_progress_id", sourceRecord.id);
-
-            await supabase
-              .from("monthly_progress")
-              .update({
-                upload_link: null,
-                is_upload_completed: false,
-                notes: null,
-                updated_at: new Date().toISOString(),
-              })
-              .eq("id", sourceRecord.id);
-          }
-        }
-      }
-    }
-  }
+/**
+ * Dry-run a period migration and return the cells it would change.
+ * Returns null in placeholder mode.
+ */
+export async function previewPeriodMigration(
+  config: PeriodMigrationConfig
+): Promise<PeriodMigrationPreview | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
 
-  // Handle SPLIT (converting DOWN - e.g., 4 months to 1 month)
-  if (splitConfig && splitConfig.length > 0) {
-    for (const split of splitConfig) {
-      const sourceProgress = existingProgress?.find(
-        (p) => p.month === split.sourceMonth
-      );
+  const result = await runPeriodMigration(supabase, config, true);
 
-      if (sourceProgress) {
-        for (const target of split.targetMonths) {
-          // Get or create target month progress
-          let { data: targetProgress } = await supabase
-            .from("monthly_progress")
-            .select("id")
-            .eq("contract_id", contractId)
-            .eq("month", target.month)
-            .eq("year", year)
-            .single();
-
-          // Calculate how many signatures should be completed based on percentage
-          const totalItems = signatures.length + 1;
-          const completedItems = Math.round((target.percentage / 100) * totalItems);
-          const completedSigs = Math.max(0, completedItems - 1); // -1 for upload
-
-          if (!targetProgress) {
-            const { data: newProgress } = await supabase
-              .from("monthly_progress")
-              .insert({
-                contract_id: contractId,
-                month: target.month,
-                year,
-                upload_link: completedItems >= totalItems ? sourceProgress.upload_link : null,
-                is_upload_completed: completedItems >= totalItems,
-                notes: sourceProgress.notes,
-              })
-              .select()
-              .single();
-
-            targetProgress = newProgress;
-          } else {
-            await supabase
-              .from("monthly_progress")
-              .update({
-                upload_link: completedItems >= totalItems ? sourceProgress.upload_link : null,
-                is_upload_completed: completedItems >= totalItems,
-                notes: sourceProgress.notes,
-                updated_at: new Date().toISOString(),
-              })
-              .eq("id", targetProgress.id);
-          }
+  return {
+    periodBefore: result.period_before,
+    periodAfter: result.period_after,
+    changes: diffMigrationSnapshots(result),
+  };
+}
 
-          // Create signature progress for target
-          if (targetProgress) {
-            await supabase
-              .from("signature_progress")
-              .delete()
-              .eq("monthly_progress_id", targetProgress.id);
-
-            // OPTIMIZED: Batch insert signature progress
-            const sigProgressInserts = signatures.map((sig, i) => ({
-              monthly_progress_id: targetProgress.id,
-              signature_id: sig.id,
-              is_completed: i < completedSigs,
-              completed_at: i < completedSigs ? new Date().toISOString() : null,
-            }));
-
-            if (sigProgressInserts.length > 0) {
-              await supabase.from("signature_progress").insert(sigProgressInserts);
-            }
-          }
-        }
-      }
-    }
-  }
+export async function migrateContractPeriod(
+  config: PeriodMigrationConfig
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
 
-  // Calculate which months should be ACTIVE in the new period
-  const activeMonths = new Set<number>();
-  
-  if (newPeriod === 0.5) {
-    // Per 1/2 Bulan: all months 1-12 are active (with 2 sub_periods each)
-    for (let i = 1; i <= 12; i++) activeMonths.add(i);
-  } else if (newPeriod === 1) {
-    // Per 1 Bulan: all months 1-12 are active
-    for (let i = 1; i <= 12; i++) activeMonths.add(i);
-  } else if (newPeriod === 2) {
-    // Per 2 Bulan: 2, 4, 6, 8, 10, 12
-    for (let i = 2; i <= 12; i += 2) activeMonths.add(i);
-  } else if (newPeriod === 3) {
-    // Per 3 Bulan (Triwulan): 3, 6, 9, 12
-    for (let i = 3; i <= 12; i += 3) activeMonths.add(i);
-  } else if (newPeriod === 4) {
-    // Per 4 Bulan (Caturwulan): 4, 8, 12
-    for (let i = 4; i <= 12; i += 4) activeMonths.add(i);
-  } else if (newPeriod === 6) {
-    // Per 6 Bulan (Semester): 6, 12
-    for (let i = 6; i <= 12; i += 6) activeMonths.add(i);
-  } else if (newPeriod === 12) {
-    // Per 12 Bulan (Tahunan): 12
-    activeMonths.add(12);
-  }
-
-  // Clear ALL months that are NOT active in the new period
-  // This ensures notes don't appear in wrong months after merge
-  if (existingProgress) {
-    for (const progress of existingProgress) {
-      if (!activeMonths.has(progress.month)) {
-        // This month should not have data in the new period - clear it
-        await supabase
-          .from("signature_progress")
-          .delete()
-          .eq("monthly_progress_id", progress.id);
-
-        await supabase
-          .from("monthly_progress")
-          .update({
-            upload_link: null,
-            is_upload_completed: false,
-            notes: null,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", progress.id);
-      }
-    }
-  }
-
-  // Update contract period - special handling for 0.5 (half-month)
-  const periodString = newPeriod === 0.5 ? "Per 1/2 Bulan" : `Per ${newPeriod} Bulan`;
-  
-  await supabase
-    .from("bapp_contracts")
-    .update({
-      period: periodString,
-      updated_at: new Date().toISOString(),
-    })
-    .eq("id", contractId);
-
-  // For half-month period, create sub_period entries for all months
-  if (newPeriod === 0.5) {
-    for (let month = 1; month <= 12; month++) {
-      // Get existing data (from previous period, might have sub_period = 1, null, or not exist)
-      const existingData = existingProgress?.find(
-        (p) => p.month === month && (p.sub_period === 1 || !p.sub_period || p.sub_period === null)
-      );
-
-      // Check if P1 entry exists with sub_period = 1
-      const { data: existingP1 } = await supabase
-        .from("monthly_progress")
-        .select("id, sub_period")
-        .eq("contract_id", contractId)
-        .eq("month", month)
-        .eq("year", year)
-        .eq("sub_period", 1)
-        .maybeSingle();
-
-      // Check if P2 entry exists
-      const { data: existingP2 } = await supabase
-        .from("monthly_progress")
-        .select("id")
-        .eq("contract_id", contractId)
-        .eq("month", month)
-        .eq("year", year)
-        .eq("sub_period", 2)
-        .maybeSingle();
-
-      // Handle P1 entry
-      if (!existingP1 && existingData) {
-        // Update existing entry to be P1 (set sub_period = 1)
-        await supabase
-          .from("monthly_progress")
-          .update({
-            sub_period: 1,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", existingData.id);
-      } else if (!existingP1) {
-        // Create new P1 entry if no existing data
-        await supabase
-          .from("monthly_progress")
-          .insert({
-            contract_id: contractId,
-            month,
-            year,
-            sub_period: 1,
-            upload_link: null,
-            is_upload_completed: false,
-            notes: null,
-          });
-      }
-
-      // Handle P2 entry
-      if (!existingP2) {
-        // Determine if we should duplicate from existing data
-        const shouldDuplicate = halfMonthMode === "duplicate" && existingData;
-        
-        // Create P2 entry
-        const { data: newP2Progress } = await supabase
-          .from("monthly_progress")
-          .insert({
-            contract_id: contractId,
-            month,
-            year,
-            sub_period: 2,
-            upload_link: shouldDuplicate ? existingData.upload_link : null,
-            is_upload_completed: shouldDuplicate ? existingData.is_upload_completed : false,
-            notes: shouldDuplicate ? existingData.notes : null,
-          })
-          .select()
-          .single();
-
-        // OPTIMIZED: Batch insert signature progress if duplicating
-        if (newP2Progress && shouldDuplicate && existingData.signature_progress) {
-          const sigProgressInserts = existingData.signature_progress.map((sigProgress: any) => ({
-            monthly_progress_id: newP2Progress.id,
-            signature_id: sigProgress.signature_id,
-            is_completed: sigProgress.is_completed,
-            completed_at: sigProgress.completed_at,
-          }));
+  const result = await runPeriodMigration(supabase, config, false);
 
-          if (sigProgressInserts.length > 0) {
-            await supabase.from("signature_progress").insert(sigProgressInserts);
-          }
-        }
-      }
-    }
-  }
+  logger.info(
+    `Periode kontrak diubah: ${result.period_before} → ${result.period_after}`,
+    `Contract ID: ${config.contractId}, seluruh tahun kontrak`
+  );
 }
 
 // ===================
@@ -1226,7 +1425,7 @@ export async function fetchContractsForYear(year: number): Promise<ContractSumma
   if (!supabase) return [];
 
   // Fetch contracts with related data
-  const { data, error } = await supabase
+  const { data: yearContracts, error } = await supabase
     .from("bapp_contracts")
     .select(`
       id,
@@ -1237,7 +1436,9 @@ export async function fetchContractsForYear(year: number): Promise<ContractSumma
       customer_id,
       area_id
     `)
-    .eq("year", year)
+    .lte("start_date", `${year}-12-31`)
+    .gte("end_date", `${year}-01-01`)
+    .is("deleted_at", null)
     .order("created_at", { ascending: false });
 
   if (error) {
@@ -1245,7 +1446,12 @@ export async function fetchContractsForYear(year: number): Promise<ContractSumma
     return [];
   }
 
-  if (!data || data.length === 0) {
+  const scope = await getCurrentUserScope(supabase);
+  const data = (yearContracts || []).filter((c) =>
+    isInScope(scope, c.customer_id, c.area_id)
+  );
+
+  if (data.length === 0) {
     return [];
   }
 
@@ -1285,6 +1491,13 @@ export async function fetchContractsForYear(year: number): Promise<ContractSumma
   }));
 }
 
+// YYYY-MM-DD shifted by whole years (29 Feb becomes 1 Mar in non-leap years)
+function shiftDateByYears(date: string, years: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year + years, month - 1, day));
+  return shifted.toISOString().slice(0, 10);
+}
+
 export async function importContractsFromYear(
   sourceYear: number,
   targetYear: number,
@@ -1293,6 +1506,8 @@ export async function importContractsFromYear(
   const supabase = createClient();
   if (!supabase) return { success: 0, failed: 0, skipped: 0, errors: ["Database connection failed"], skippedNames: [] };
 
+  await requirePermission(supabase, "contract:import");
+
   const result = { success: 0, failed: 0, skipped: 0, errors: [] as string[], skippedNames: [] as string[] };
 
   // Process in batches to avoid rate limiting
@@ -1320,23 +1535,34 @@ export async function importContractsFromYear(
         }
 
         const contractName = sourceContract.name || contractId;
+        const targetDates = getDefaultContractDates(targetYear);
 
-        // Check if contract already exists for target year (same customer + area + name + invoice_type)
-        const { data: existingContract } = await supabase
+        // Kontrak multi-tahun yang sudah berjalan sampai tahun target tidak disalin
+        if (sourceContract.end_date >= targetDates.start_date) {
+          return { status: "skipped", name: contractName };
+        }
+
+        // Check if contract already runs in target year (same customer + area + name + invoice_type)
+        const { data: existingContracts } = await supabase
           .from("bapp_contracts")
           .select("id")
           .eq("customer_id", sourceContract.customer_id)
           .eq("area_id", sourceContract.area_id)
           .eq("name", sourceContract.name)
           .eq("invoice_type", sourceContract.invoice_type)
-          .eq("year", targetYear)
-          .maybeSingle();
+          .lte("start_date", targetDates.end_date)
+          .gte("end_date", targetDates.start_date)
+          .is("deleted_at", null)
+          .limit(1);
 
-        if (existingContract) {
+        if (existingContracts && existingContracts.length > 0) {
           // Return special marker for skipped contracts
           return { status: "skipped", name: contractName };
         }
 
+        // Tanggal kontrak digeser ke tahun target dengan durasi yang sama
+        const yearShift = targetYear - sourceContract.year;
+
         // Create new contract for target year
         const { data: newContract, error: createError } = await supabase
           .from("bapp_contracts")
@@ -1347,6 +1573,12 @@ export async function importContractsFromYear(
             period: sourceContract.period,
             invoice_type: sourceContract.invoice_type,
             notes: sourceContract.notes,
+            deadline_days: sourceContract.deadline_days ?? DEFAULT_DEADLINE_DAYS,
+            contract_value: sourceContract.contract_value ?? null,
+            period_amount: sourceContract.period_amount ?? null,
+            start_date: shiftDateByYears(sourceContract.start_date, yearShift),
+            end_date: shiftDateByYears(sourceContract.end_date, yearShift),
+            period_anchor_month: sourceContract.period_anchor_month ?? null,
             year: targetYear,
           })
           .select()
@@ -1359,10 +1591,11 @@ export async function importContractsFromYear(
         // Copy signatures (without progress)
         const signatures = sourceContract.signatures || [];
         if (signatures.length > 0) {
-          const signatureInserts = signatures.map((sig: { name: string; role: string; order: number }) => ({
+          const signatureInserts = signatures.map((sig: Signature) => ({
             contract_id: newContract.id,
             name: sig.name,
             role: sig.role,
+            signatory_id: sig.signatory_id ?? null,
             order: sig.order,
           }));
 
@@ -1425,50 +1658,1675 @@ export async function importContractsFromYear(
 }
 
 // ===================
-// DELETE FUNCTIONS
+// IMPORT FROM EXCEL FUNCTIONS
 // ===================
 
-export async function deleteContract(contractId: string): Promise<void> {
+/**
+ * Commit rows parsed by parseImportWorkbook (lib/import.ts). Rows with
+ * validation errors are ignored; contracts that already exist for the year
+ * are skipped. Signature names are unknown in the workbook, so placeholder
+ * signatories are created and can be renamed via Edit Kontrak.
+ * Each row, including a new customer or area, is saved in one transaction
+ * (RPC `import_workbook_contract`, SUPABASE_SETUP.md §27), so a failed row
+ * leaves nothing behind.
+ */
+export async function importContractsFromWorkbook(
+  year: number,
+  rows: WorkbookImportRow[],
+  invoiceType: BAPPContract["invoice_type"],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ success: number; failed: number; skipped: number; errors: string[]; skippedNames: string[] }> {
+  const supabase = createClient();
+  if (!supabase) return { success: 0, failed: 0, skipped: 0, errors: ["Database connection failed"], skippedNames: [] };
+
+  await requirePermission(supabase, "contract:import");
+
+  const result = { success: 0, failed: 0, skipped: 0, errors: [] as string[], skippedNames: [] as string[] };
+  const validRows = rows.filter((row) => row.errors.length === 0);
+
+  // Sequential: baris dengan customer/area yang sama tidak boleh membuat duplikat
+  for (const [index, row] of validRows.entries()) {
+    try {
+      // NULL = kontrak dengan nama yang sama sudah ada di tahun ini
+      const { data: contractId, error: importError } = await supabase.rpc(
+        "import_workbook_contract",
+        {
+          p_contract: {
+            customer_name: row.customerName,
+            area_name: row.areaName,
+            name: row.contractName,
+            period: row.period,
+            invoice_type: invoiceType,
+            ...getDefaultContractDates(year),
+            period_anchor_month: row.periodAnchorMonth,
+            year,
+          },
+          p_signature_count: row.signatureCount,
+          p_progress: row.progress.map((entry) => {
+            const completion = percentageToCompletion(entry.percentage, row.signatureCount);
+            return {
+              month: entry.month,
+              sub_period: entry.subPeriod,
+              is_upload_completed: completion.isUploadCompleted,
+              completed_signatures: completion.completedSignatures,
+            };
+          }),
+        }
+      );
+
+      if (importError) {
+        console.error("Error importing workbook row:", importError);
+        throw new Error(importError.message);
+      }
+
+      if (contractId) {
+        result.success++;
+      } else {
+        result.skipped++;
+        result.skippedNames.push(row.contractName);
+      }
+    } catch (error) {
+      result.failed++;
+      result.errors.push(
+        `Baris ${row.rowNumber} (${row.contractName}): ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+
+    onProgress?.(index + 1, validRows.length);
+  }
+
+  if (result.success > 0) {
+    logger.success(
+      `Import Excel berhasil`,
+      `${result.success} kontrak diimport ke tahun ${year}`
+    );
+  }
+  if (result.skipped > 0) {
+    logger.info(
+      `Beberapa kontrak dilewati`,
+      `${result.skipped} kontrak sudah ada di tahun ${year}`
+    );
+  }
+  if (result.failed > 0) {
+    logger.warning(
+      `Sebagian import Excel gagal`,
+      result.errors.slice(0, 5).join("; ")
+    );
+  }
+
+  return result;
+}
+
+// ===================
+// INVOICE TYPE FUNCTIONS
+// ===================
+
+// Semua tipe invoice termasuk yang diarsipkan (kontrak lama masih memakainya)
+export async function fetchInvoiceTypes(): Promise<InvoiceType[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("invoice_types")
+    .select("*")
+    .order("sort_order")
+    .order("name");
+
+  if (error) {
+    console.error("Error fetching invoice types:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as InvoiceType[];
+}
+
+export async function createInvoiceType(name: string): Promise<InvoiceType | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  await requirePermission(supabase, "invoice_type:manage");
+
+  // Tipe baru ditaruh di akhir urutan
+  const { data: last } = await supabase
+    .from("invoice_types")
+    .select("sort_order")
+    .order("sort_order", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const { data, error } = await supabase
+    .from("invoice_types")
+    .insert({ name: name.trim(), sort_order: (last?.sort_order ?? 0) + 1 })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error creating invoice type:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success("Tipe invoice ditambahkan", name.trim());
+  return data as InvoiceType;
+}
+
+/**
+ * Rename an invoice type. Contracts and notification rules store the name
+ * and follow the rename through ON UPDATE CASCADE (SUPABASE_SETUP.md §22).
+ */
+export async function renameInvoiceType(id: string, name: string): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
+  await requirePermission(supabase, "invoice_type:manage");
+
   const { error } = await supabase
-    .from("bapp_contracts")
-    .delete()
-    .eq("id", contractId);
+    .from("invoice_types")
+    .update({ name: name.trim(), updated_at: new Date().toISOString() })
+    .eq("id", id);
 
   if (error) {
-    console.error("Error deleting contract:", error);
-    logger.error("Gagal menghapus kontrak", error.message);
+    console.error("Error renaming invoice type:", error);
     throw new Error(error.message);
   }
-  
-  logger.success("Kontrak berhasil dihapus", `ID: ${contractId}`);
+
+  logger.success("Tipe invoice diganti nama", name.trim());
 }
 
-export async function deleteCustomer(customerId: string): Promise<void> {
+// Arsip menyembunyikan tipe dari form kontrak baru; data lama tidak berubah
+export async function setInvoiceTypeArchived(id: string, archived: boolean): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
+  await requirePermission(supabase, "invoice_type:manage");
+
+  const now = new Date().toISOString();
   const { error } = await supabase
-    .from("customers")
-    .delete()
-    .eq("id", customerId);
+    .from("invoice_types")
+    .update({ archived_at: archived ? now : null, updated_at: now })
+    .eq("id", id);
 
   if (error) {
-    console.error("Error deleting customer:", error);
+    console.error("Error archiving invoice type:", error);
     throw new Error(error.message);
   }
+
+  logger.info(archived ? "Tipe invoice diarsipkan" : "Tipe invoice diaktifkan", `ID: ${id}`);
 }
 
-export async function deleteArea(areaId: string): Promise<void> {
+// Simpan urutan tampil sesuai urutan id
+export async function reorderInvoiceTypes(ids: string[]): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "invoice_type:manage");
+
+  const results = await Promise.all(
+    ids.map((id, index) =>
+      supabase.from("invoice_types").update({ sort_order: index + 1 }).eq("id", id)
+    )
+  );
+  const failed = results.find((result) => result.error);
+
+  if (failed?.error) {
+    console.error("Error reordering invoice types:", failed.error);
+    throw new Error(failed.error.message);
+  }
+}
+
+// ===================
+// EMAIL REPORT SETTINGS FUNCTIONS
+// ===================
+
+interface EmailReportSettingsRow {
+  enabled: boolean;
+  recipients: string[];
+  send_deadline_warnings: boolean;
+  send_weekly_summary: boolean;
+  send_progress_alerts: boolean;
+  deadline_warning_days: number;
+  last_weekly_summary_at: string | null;
+}
+
+/**
+ * Email settings shared with the server-side scheduler (single row in
+ * email_report_settings, SUPABASE_SETUP.md §17). Pass a service-role client
+ * from server jobs. Returns null if the settings were never saved.
+ */
+export async function fetchEmailReportSettings(
+  client?: SupabaseBrowserClient
+): Promise<EmailReportSettings | null> {
+  const supabase = client ?? createClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from("email_report_settings")
+    .select("*")
+    .eq("id", 1)
+    .maybeSingle<EmailReportSettingsRow>();
+
+  if (error) {
+    console.error("Error fetching email report settings:", error);
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  return {
+    settings: {
+      enabled: data.enabled,
+      recipients: data.recipients || [],
+      sendDeadlineWarnings: data.send_deadline_warnings,
+      sendWeeklySummary: data.send_weekly_summary,
+      sendProgressAlerts: data.send_progress_alerts,
+      deadlineWarningDays: data.deadline_warning_days,
+    },
+    lastWeeklySummaryAt: data.last_weekly_summary_at,
+  };
+}
+
+export async function saveEmailReportSettings(
+  settings: EmailNotificationSettings
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  const userId = await requirePermission(supabase, "report:manage");
+
+  const { error } = await supabase.from("email_report_settings").upsert(
+    {
+      id: 1,
+      enabled: settings.enabled,
+      recipients: settings.recipients,
+      send_deadline_warnings: settings.sendDeadlineWarnings,
+      send_weekly_summary: settings.sendWeeklySummary,
+      send_progress_alerts: settings.sendProgressAlerts,
+      deadline_warning_days: settings.deadlineWarningDays,
+      updated_by: userId,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "id" }
+  );
+
+  if (error) {
+    console.error("Error saving email report settings:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success(
+    "Pengaturan email disimpan",
+    `${settings.recipients.length} penerima`
+  );
+}
+
+// Dipanggil scheduler setelah ringkasan mingguan terkirim
+export async function recordWeeklySummarySent(
+  client: SupabaseBrowserClient,
+  sentAt: string
+): Promise<void> {
+  const { error } = await client
+    .from("email_report_settings")
+    .update({ last_weekly_summary_at: sentAt })
+    .eq("id", 1);
+
+  if (error) {
+    console.error("Error recording weekly summary:", error);
+    throw new Error(error.message);
+  }
+}
+
+// ===================
+// NOTIFICATION FUNCTIONS
+// ===================
+
+// Sama dengan batas localStorage di lib/notifications.ts
+const NOTIFICATION_LIMIT = 100;
+
+// Baris tabel notifications (SUPABASE_SETUP.md §18)
+interface NotificationRow {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  priority: NotificationPriority;
+  title: string;
+  message: string;
+  action_url: string | null;
+  metadata: Record<string, unknown> | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+function toNotification(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    priority: row.priority,
+    title: row.title,
+    message: row.message,
+    timestamp: row.created_at,
+    read: row.read_at !== null,
+    actionUrl: row.action_url ?? undefined,
+    metadata: row.metadata ?? undefined,
+  };
+}
+
+/**
+ * Latest notifications of the logged-in user. Rows are created by database
+ * triggers (contract created/deleted, progress saved) and the daily deadline
+ * job; RLS limits the query to the user's own rows.
+ */
+export async function fetchNotifications(): Promise<Notification[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("*")
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) {
+    console.error("Error fetching notifications:", error);
+    throw new Error(error.message);
+  }
+
+  return ((data as NotificationRow[]) || []).map(toNotification);
+}
+
+// Notifikasi untuk diri sendiri (mis. hasil proses di browser)
+export async function createNotification(
+  notification: NewNotification
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  const current = await getCurrentUserRole(supabase);
+  if (!current) return;
+
+  const { error } = await supabase.from("notifications").insert({
+    user_id: current.userId,
+    type: notification.type,
+    priority: notification.priority,
+    title: notification.title,
+    message: notification.message,
+    action_url: notification.actionUrl ?? null,
+    metadata: notification.metadata ?? {},
+  });
+
+  if (error) {
+    console.error("Error creating notification:", error);
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Mark one notification (or all when `id` is omitted) as read.
+ */
+export async function markNotificationsRead(id?: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  const current = await getCurrentUserRole(supabase);
+  if (!current) return;
+
+  let query = supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", current.userId)
+    .is("read_at", null);
+  if (id) query = query.eq("id", id);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error("Error marking notifications as read:", error);
+    throw new Error(error.message);
+  }
+}
+
+/**
+ * Delete one notification (or all when `id` is omitted) of the logged-in user.
+ */
+export async function deleteNotifications(id?: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  const current = await getCurrentUserRole(supabase);
+  if (!current) return;
+
+  let query = supabase.from("notifications").delete().eq("user_id", current.userId);
+  if (id) query = query.eq("id", id);
+
+  const { error } = await query;
+
+  if (error) {
+    console.error("Error deleting notifications:", error);
+    throw new Error(error.message);
+  }
+}
+
+// ===================
+// NOTIFICATION RULE FUNCTIONS
+// ===================
+
+// Aturan dievaluasi oleh trigger database (SUPABASE_SETUP.md §21); RLS
+// membatasi tabel ini untuk admin
+export async function fetchNotificationRules(): Promise<NotificationRule[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("notification_rules")
+    .select("*")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching notification rules:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as NotificationRule[];
+}
+
+/**
+ * Create a rule, or update it when `id` is given.
+ */
+export async function saveNotificationRule(
+  rule: NotificationRuleInput,
+  id?: string
+): Promise<NotificationRule | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  const userId = await requirePermission(supabase, "notification:manage");
+
+  const values = {
+    ...rule,
+    name: rule.name.trim(),
+    // Batas & tanggal hanya berlaku untuk aturan progress_below
+    threshold: rule.event === "progress_below" ? rule.threshold : null,
+    after_day: rule.event === "progress_below" ? rule.after_day : null,
+  };
+
+  const { data, error } = id
+    ? await supabase
+        .from("notification_rules")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+    : await supabase
+        .from("notification_rules")
+        .insert({ ...values, created_by: userId })
+        .select()
+        .single();
+
+  if (error) {
+    console.error("Error saving notification rule:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success(id ? "Aturan notifikasi diperbarui" : "Aturan notifikasi ditambahkan", values.name);
+  return data as NotificationRule;
+}
+
+export async function deleteNotificationRule(id: string): Promise<void> {
   const supabase = createClient();
   if (!supabase) return;
 
-  const { error } = await supabase.from("areas").delete().eq("id", areaId);
+  await requirePermission(supabase, "notification:manage");
+
+  const { error } = await supabase.from("notification_rules").delete().eq("id", id);
+
+  if (error) {
+    console.error("Error deleting notification rule:", error);
+    throw new Error(error.message);
+  }
+
+  logger.info("Aturan notifikasi dihapus", `Rule ID: ${id}`);
+}
+
+// Antrean email dari aturan ber-kanal email; hanya bisa dibaca service role
+export interface QueuedNotificationEmail {
+  id: string;
+  email: string;
+  subject: string;
+  message: string;
+  attempts: number;
+}
+
+export async function fetchQueuedNotificationEmails(
+  client: SupabaseBrowserClient,
+  maxAttempts: number,
+  limit: number
+): Promise<QueuedNotificationEmail[]> {
+  const { data, error } = await client
+    .from("notification_emails")
+    .select("id, email, subject, message, attempts")
+    .is("sent_at", null)
+    .lt("attempts", maxAttempts)
+    .order("created_at", { ascending: true })
+    .limit(limit);
 
   if (error) {
-    console.error("Error deleting area:", error);
+    console.error("Error fetching notification emails:", error);
     throw new Error(error.message);
   }
+
+  return (data || []) as QueuedNotificationEmail[];
+}
+
+// Tandai terkirim, atau catat kegagalan agar dicoba lagi pada run berikutnya
+export async function recordNotificationEmailAttempt(
+  client: SupabaseBrowserClient,
+  email: QueuedNotificationEmail,
+  errorMessage: string | null
+): Promise<void> {
+  const { error } = await client
+    .from("notification_emails")
+    .update(
+      errorMessage
+        ? { attempts: email.attempts + 1, last_error: errorMessage }
+        : { attempts: email.attempts + 1, sent_at: new Date().toISOString(), last_error: null }
+    )
+    .eq("id", email.id);
+
+  if (error) {
+    console.error("Error updating notification email:", error);
+    throw new Error(error.message);
+  }
+}
+
+// ===================
+// BACKUP & RESTORE FUNCTIONS
+// ===================
+
+// Batas baris per request PostgREST dan jumlah nilai per filter .in()
+const BACKUP_PAGE_SIZE = 1000;
+const BACKUP_IN_CHUNK = 100;
+const RESTORE_BATCH_SIZE = 500;
+
+/**
+ * Select every row of `table` whose `column` is one of `values`, using
+ * chunked .in() filters and paging past the PostgREST row limit.
+ */
+async function selectAllIn<T extends { id: string }>(
+  supabase: SupabaseBrowserClient,
+  table: string,
+  column: string,
+  values: (string | number)[]
+): Promise<T[]> {
+  const rows: T[] = [];
+  const unique = [...new Set(values)];
+
+  for (let i = 0; i < unique.length; i += BACKUP_IN_CHUNK) {
+    const chunk = unique.slice(i, i + BACKUP_IN_CHUNK);
+    for (let from = 0; ; from += BACKUP_PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .in(column, chunk)
+        .order("id")
+        .range(from, from + BACKUP_PAGE_SIZE - 1);
+
+      if (error) {
+        console.error(`Error fetching ${table}:`, error);
+        throw new Error(error.message);
+      }
+      rows.push(...((data || []) as T[]));
+      if (!data || data.length < BACKUP_PAGE_SIZE) break;
+    }
+  }
+
+  return rows.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Every contract whose start/end dates overlap `year` (including those in
+ * Sampah), paging past the PostgREST row limit.
+ */
+async function selectContractsInYear(
+  supabase: SupabaseBrowserClient,
+  year: number
+): Promise<BAPPContract[]> {
+  const rows: BAPPContract[] = [];
+
+  for (let from = 0; ; from += BACKUP_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("bapp_contracts")
+      .select("*")
+      .lte("start_date", `${year}-12-31`)
+      .gte("end_date", `${year}-01-01`)
+      .order("id")
+      .range(from, from + BACKUP_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching bapp_contracts:", error);
+      throw new Error(error.message);
+    }
+    rows.push(...((data || []) as BAPPContract[]));
+    if (!data || data.length < BACKUP_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * All rows of one year with their original IDs: contracts running in that
+ * year (including those in Sampah), their customers with every area, the
+ * signatory directory entries they use or own, signatures, monthly_progress,
+ * signature_progress and period_invoices. reminder_log and progress_audit_log
+ * are not included: both are written by server triggers and cannot be replayed
+ * from the client. Wrap with createBackupDump.
+ */
+export async function fetchBackupTables(year: number): Promise<BackupTables> {
+  const supabase = createClient();
+  if (!supabase) throw new Error("Database connection failed");
+
+  const contracts = await selectContractsInYear(supabase, year);
+  const contractIds = contracts.map((c) => c.id);
+  const customerIds = contracts.map((c) => c.customer_id);
+
+  const [customers, areas, signatures, monthlyProgress, periodInvoices, customerSignatories] =
+    await Promise.all([
+      selectAllIn<Customer>(supabase, "customers", "id", customerIds),
+      selectAllIn<Area>(supabase, "areas", "customer_id", customerIds),
+      selectAllIn<Signature>(supabase, "signatures", "contract_id", contractIds),
+      selectAllIn<MonthlyProgress>(supabase, "monthly_progress", "contract_id", contractIds),
+      selectAllIn<PeriodInvoice>(supabase, "period_invoices", "contract_id", contractIds),
+      selectAllIn<Signatory>(supabase, "signatories", "customer_id", customerIds),
+    ]);
+  const [signatureProgress, linkedSignatories] = await Promise.all([
+    selectAllIn<SignatureProgress>(
+      supabase,
+      "signature_progress",
+      "monthly_progress_id",
+      monthlyProgress.map((p) => p.id)
+    ),
+    selectAllIn<Signatory>(
+      supabase,
+      "signatories",
+      "id",
+      signatures.map((s) => s.signatory_id).filter((id): id is string => !!id)
+    ),
+  ]);
+  // Entri umum (tanpa customer) yang dirujuk ikut disimpan; tanpa duplikat
+  const signatories = [
+    ...new Map(
+      [...customerSignatories, ...linkedSignatories].map((s) => [s.id, s])
+    ).values(),
+  ].sort((a, b) => a.id.localeCompare(b.id));
+
+  logger.info(
+    `Backup tahun ${year} dibuat`,
+    `${customers.length} customer, ${contracts.length} kontrak, ${monthlyProgress.length} progress, ${periodInvoices.length} invoice`
+  );
+
+  return {
+    customers,
+    signatories,
+    areas,
+    bapp_contracts: contracts,
+    signatures,
+    monthly_progress: monthlyProgress,
+    signature_progress: signatureProgress,
+    period_invoices: periodInvoices,
+  };
+}
+
+// Cara mencocokkan baris backup dengan data yang sudah ada di database
+// selain lewat id: kolom induk untuk query + kunci alami (setelah remap id)
+const RESTORE_MATCHERS: Record<
+  BackupTable,
+  {
+    parentColumn: string;
+    foreignKeys: string[];
+    naturalKey: (row: Record<string, unknown>) => string;
+  }
+> = {
+  customers: {
+    parentColumn: "name",
+    foreignKeys: [],
+    naturalKey: (row) => String(row.name),
+  },
+  signatories: {
+    parentColumn: "name",
+    foreignKeys: ["customer_id"],
+    naturalKey: (row) => `${row.customer_id}|${row.name}|${row.position}`,
+  },
+  areas: {
+    parentColumn: "customer_id",
+    foreignKeys: ["customer_id"],
+    naturalKey: (row) => `${row.customer_id}|${row.name}`,
+  },
+  bapp_contracts: {
+    parentColumn: "customer_id",
+    foreignKeys: ["customer_id", "area_id"],
+    // Kontrak bisa melewati pergantian tahun (langkah 24); backup lama tanpa
+    // start_date memakai 1 Januari tahun kontrak seperti migrasi langkah 24
+    naturalKey: (row) =>
+      `${row.customer_id}|${row.area_id}|${row.name}|${row.invoice_type}|${
+        row.start_date ?? `${row.year}-01-01`
+      }`,
+  },
+  signatures: {
+    parentColumn: "contract_id",
+    foreignKeys: ["contract_id", "signatory_id"],
+    naturalKey: (row) => `${row.contract_id}|${row.order}`,
+  },
+  monthly_progress: {
+    parentColumn: "contract_id",
+    foreignKeys: ["contract_id"],
+    naturalKey: (row) => `${row.contract_id}|${row.month}|${row.year}|${row.sub_period}`,
+  },
+  signature_progress: {
+    parentColumn: "monthly_progress_id",
+    foreignKeys: ["monthly_progress_id", "signature_id"],
+    naturalKey: (row) => `${row.monthly_progress_id}|${row.signature_id}`,
+  },
+  period_invoices: {
+    parentColumn: "contract_id",
+    foreignKeys: ["contract_id"],
+    naturalKey: (row) => `${row.contract_id}|${row.year}|${row.month}|${row.sub_period}`,
+  },
+};
+
+// Kolom yang merujuk ke profiles; dikosongkan jika user tidak ada di instance tujuan
+const PROFILE_COLUMNS = ["deleted_by", "completed_by", "updated_by"];
+// Backup lama tidak menyimpan direktori penandatangan; tautan ke entri yang
+// tidak ada di backup maupun instance tujuan dilepas (nama & jabatan tetap
+// tersimpan di signatures)
+const SIGNATORY_COLUMN = "signatory_id";
+
+/**
+ * Create the invoice types used by the backup's contracts that don't exist in
+ * the target instance (bapp_contracts.invoice_type is a foreign key to
+ * invoice_types, SUPABASE_SETUP.md §22). New types go to the end of the order.
+ */
+async function ensureInvoiceTypes(
+  supabase: SupabaseBrowserClient,
+  contracts: BAPPContract[]
+): Promise<void> {
+  const names = [...new Set(contracts.map((c) => c.invoice_type).filter(Boolean))];
+  if (names.length === 0) return;
+
+  const { data: existing, error } = await supabase
+    .from("invoice_types")
+    .select("name, sort_order")
+    .order("sort_order", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching invoice types:", error);
+    throw new Error(`invoice_types: ${error.message}`);
+  }
+
+  const existingNames = new Set((existing || []).map((t) => t.name));
+  const missing = names.filter((name) => !existingNames.has(name));
+  if (missing.length === 0) return;
+
+  const lastOrder = existing?.[0]?.sort_order ?? 0;
+  const { error: insertError } = await supabase
+    .from("invoice_types")
+    .insert(missing.map((name, i) => ({ name, sort_order: lastOrder + i + 1 })));
+
+  if (insertError) {
+    console.error("Error restoring invoice types:", insertError);
+    throw new Error(`invoice_types: ${insertError.message}`);
+  }
+
+  logger.info("Tipe invoice dari backup ditambahkan", missing.join(", "));
+}
+
+/**
+ * Replay a backup into the connected instance, table by table in foreign
+ * key order. Invoice types used by the contracts but missing in the
+ * instance are created first. Rows are matched by id first, then by natural key (e.g. a
+ * customer with the same name) so restoring into an existing instance
+ * merges instead of duplicating; new rows keep their original IDs.
+ * Not transactional, but safe to run again after a failure.
+ */
+export async function restoreBackupTables(
+  tables: BackupTables,
+  mode: RestoreMode,
+  onProgress?: (table: BackupTable, done: number, total: number) => void
+): Promise<RestoreResult> {
+  const supabase = createClient();
+  if (!supabase) throw new Error("Database connection failed");
+
+  await requirePermission(supabase, "contract:import");
+
+  const tableNames = Object.keys(RESTORE_MATCHERS) as BackupTable[];
+  const result = Object.fromEntries(
+    tableNames.map((table) => [table, { inserted: 0, updated: 0, skipped: 0 }])
+  ) as RestoreResult;
+
+  // id di backup -> id di database (berbeda jika dicocokkan lewat kunci alami)
+  const idMap = new Map<string, string>();
+  const mapId = (id: unknown) =>
+    typeof id === "string" ? idMap.get(id) ?? id : id;
+
+  const profileIds = tableNames.flatMap((table) =>
+    (tables[table] as unknown as Record<string, unknown>[]).flatMap((row) =>
+      PROFILE_COLUMNS.map((col) => row[col]).filter(
+        (id): id is string => typeof id === "string"
+      )
+    )
+  );
+  const existingProfiles = new Set(
+    (await selectAllIn<{ id: string }>(supabase, "profiles", "id", profileIds)).map(
+      (p) => p.id
+    )
+  );
+  const signatoryIds = tables.signatures
+    .map((row) => row.signatory_id)
+    .filter((id): id is string => typeof id === "string");
+  const existingSignatories = new Set([
+    ...tables.signatories.map((s) => s.id),
+    ...(await selectAllIn<{ id: string }>(supabase, "signatories", "id", signatoryIds)).map(
+      (s) => s.id
+    ),
+  ]);
+
+  await ensureInvoiceTypes(supabase, tables.bapp_contracts);
+
+  for (const table of tableNames) {
+    const { parentColumn, foreignKeys, naturalKey } = RESTORE_MATCHERS[table];
+    const rows = (tables[table] as unknown as Record<string, unknown>[]).map((source) => {
+      const row = { ...source };
+      if (
+        typeof row[SIGNATORY_COLUMN] === "string" &&
+        !existingSignatories.has(row[SIGNATORY_COLUMN] as string)
+      ) {
+        row[SIGNATORY_COLUMN] = null;
+      }
+      foreignKeys.forEach((col) => {
+        row[col] = mapId(row[col]);
+      });
+      PROFILE_COLUMNS.forEach((col) => {
+        if (typeof row[col] === "string" && !existingProfiles.has(row[col] as string)) {
+          row[col] = null;
+        }
+      });
+      return row;
+    });
+    if (rows.length === 0) continue;
+
+    const [byId, byParent] = await Promise.all([
+      selectAllIn<{ id: string }>(supabase, table, "id", rows.map((r) => r.id as string)),
+      selectAllIn<{ id: string }>(
+        supabase,
+        table,
+        parentColumn,
+        rows.map((r) => r[parentColumn] as string)
+      ),
+    ]);
+    const existingIds = new Set(byId.map((r) => r.id));
+    const existingByKey = new Map(
+      byParent.map((r) => [naturalKey(r as Record<string, unknown>), r.id])
+    );
+
+    const toWrite: Record<string, unknown>[] = [];
+    rows.forEach((row) => {
+      const sourceId = row.id as string;
+      const matchedId = existingIds.has(sourceId)
+        ? sourceId
+        : existingByKey.get(naturalKey(row));
+
+      if (!matchedId) {
+        result[table].inserted++;
+        toWrite.push(row);
+        return;
+      }
+
+      idMap.set(sourceId, matchedId);
+      if (mode === "merge") {
+        result[table].updated++;
+        toWrite.push({ ...row, id: matchedId });
+      } else {
+        result[table].skipped++;
+      }
+    });
+
+    for (let i = 0; i < toWrite.length; i += RESTORE_BATCH_SIZE) {
+      const batch = toWrite.slice(i, i + RESTORE_BATCH_SIZE);
+      const { error } = await supabase.from(table).upsert(batch, { onConflict: "id" });
+
+      if (error) {
+        console.error(`Error restoring ${table}:`, error);
+        logger.error(`Restore ${table} gagal`, error.message);
+        throw new Error(`${table}: ${error.message}`);
+      }
+      onProgress?.(table, Math.min(i + RESTORE_BATCH_SIZE, toWrite.length), toWrite.length);
+    }
+  }
+
+  const inserted = tableNames.reduce((sum, t) => sum + result[t].inserted, 0);
+  const updated = tableNames.reduce((sum, t) => sum + result[t].updated, 0);
+  logger.success(
+    "Restore backup berhasil",
+    `${inserted} baris baru, ${updated} baris diperbarui`
+  );
+
+  return result;
+}
+
+// ===================
+// BERITA ACARA TEMPLATE FUNCTIONS
+// ===================
+
+/**
+ * Template Berita Acara for a customer, falling back to the default
+ * template (customer_id null). Returns null if neither exists, in which
+ * case DEFAULT_BERITA_ACARA_TEMPLATE (lib/berita-acara.ts) is used.
+ */
+export async function fetchBeritaAcaraTemplate(
+  customerId: string
+): Promise<BeritaAcaraTemplate | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase
+    .from("berita_acara_templates")
+    .select("*")
+    .or(`customer_id.eq.${customerId},customer_id.is.null`);
+
+  if (error) {
+    console.error("Error fetching berita acara template:", error);
+    throw new Error(error.message);
+  }
+
+  const templates = (data || []) as BeritaAcaraTemplate[];
+  return (
+    templates.find((t) => t.customer_id === customerId) ||
+    templates.find((t) => t.customer_id === null) ||
+    null
+  );
+}
+
+// customerId null = simpan sebagai template default
+export async function saveBeritaAcaraTemplate(
+  customerId: string | null,
+  content: BeritaAcaraTemplateContent
+): Promise<BeritaAcaraTemplate | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  await requirePermission(supabase, "contract:edit");
+
+  let query = supabase.from("berita_acara_templates").select("id");
+  query = customerId ? query.eq("customer_id", customerId) : query.is("customer_id", null);
+  const { data: existing, error: findError } = await query.maybeSingle();
+
+  if (findError) {
+    console.error("Error finding berita acara template:", findError);
+    throw new Error(findError.message);
+  }
+
+  const { data, error } = existing
+    ? await supabase
+        .from("berita_acara_templates")
+        .update({ ...content, updated_at: new Date().toISOString() })
+        .eq("id", existing.id)
+        .select()
+        .single()
+    : await supabase
+        .from("berita_acara_templates")
+        .insert({ ...content, customer_id: customerId })
+        .select()
+        .single();
+
+  if (error) {
+    console.error("Error saving berita acara template:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success(
+    customerId ? "Template Berita Acara customer disimpan" : "Template Berita Acara default disimpan",
+    customerId ? `Customer ID: ${customerId}` : undefined
+  );
+  return data;
+}
+
+// Hapus template khusus customer sehingga kembali memakai template default
+export async function resetBeritaAcaraTemplate(customerId: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "contract:edit");
+
+  const { error } = await supabase
+    .from("berita_acara_templates")
+    .delete()
+    .eq("customer_id", customerId);
+
+  if (error) {
+    console.error("Error resetting berita acara template:", error);
+    throw new Error(error.message);
+  }
+
+  logger.info("Template Berita Acara customer direset ke default", `Customer ID: ${customerId}`);
+}
+
+// ===================
+// REMINDER FUNCTIONS
+// ===================
+
+// Template per kanal; kanal tanpa baris memakai DEFAULT_REMINDER_TEMPLATES
+// (lib/reminders.ts)
+export async function fetchReminderTemplates(): Promise<ReminderTemplate[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase.from("reminder_templates").select("*");
+
+  if (error) {
+    console.error("Error fetching reminder templates:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as ReminderTemplate[];
+}
+
+export async function saveReminderTemplate(
+  channel: ReminderChannel,
+  content: ReminderTemplateContent
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "contract:edit");
+
+  const { error } = await supabase.from("reminder_templates").upsert(
+    {
+      channel,
+      subject: content.subject,
+      body: content.body,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "channel" }
+  );
+
+  if (error) {
+    console.error("Error saving reminder template:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success("Template pengingat disimpan", `Kanal: ${channel}`);
+}
+
+/**
+ * Reminder history of the given contracts for one year, newest first.
+ */
+export async function fetchReminderLog(
+  contractIds: string[],
+  year: number
+): Promise<ReminderLog[]> {
+  const supabase = createClient();
+  if (!supabase || contractIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("reminder_log")
+    .select("*")
+    .in("contract_id", contractIds)
+    .eq("year", year)
+    .order("sent_at", { ascending: false });
+
+  if (error) {
+    console.error("Error fetching reminder log:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as ReminderLog[];
+}
+
+export type NewReminderLog = Omit<
+  ReminderLog,
+  "id" | "sent_by" | "sent_by_name" | "sent_at"
+>;
+
+/**
+ * Record copied/sent reminders. sent_by and sent_by_name default to the
+ * logged-in user in the database; pass the request-scoped server client
+ * from /api/reminders.
+ */
+export async function logReminders(
+  entries: NewReminderLog[],
+  client?: SupabaseBrowserClient
+): Promise<void> {
+  const supabase = client ?? createClient();
+  if (!supabase || entries.length === 0) return;
+
+  await requirePermission(supabase, "reminder:send");
+
+  const { error } = await supabase.from("reminder_log").insert(entries);
+
+  if (error) {
+    console.error("Error logging reminders:", error);
+    throw new Error(error.message);
+  }
+
+  logger.info(
+    entries[0].action === "sent" ? "Pengingat dikirim" : "Pengingat disalin",
+    `${entries.length} penandatangan`
+  );
+}
+
+// ===================
+// PERIOD INVOICE FUNCTIONS
+// ===================
+
+/**
+ * Period invoices of one year, optionally limited to the given contracts.
+ * Rows outside the user's customer/area scope are hidden by RLS.
+ */
+export async function fetchPeriodInvoices(
+  year: number,
+  contractIds?: string[]
+): Promise<PeriodInvoice[]> {
+  const supabase = createClient();
+  if (!supabase || contractIds?.length === 0) return [];
+
+  let query = supabase.from("period_invoices").select("*").eq("year", year);
+  if (contractIds) {
+    query = query.in("contract_id", contractIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error("Error fetching period invoices:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as PeriodInvoice[];
+}
+
+/**
+ * Record or update the invoice of one contract period. The database rejects
+ * periods whose BAPP progress is below 100% (SUPABASE_SETUP.md §23).
+ */
+export async function savePeriodInvoice(
+  contractId: string,
+  period: Pick<MonthlyProgressDetail, "month" | "year" | "sub_period">,
+  input: PeriodInvoiceInput
+): Promise<PeriodInvoice | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  const userId = await requirePermission(supabase, "billing:manage");
+
+  const { data, error } = await supabase
+    .from("period_invoices")
+    .upsert(
+      {
+        contract_id: contractId,
+        month: period.month,
+        year: period.year,
+        sub_period: period.sub_period,
+        invoice_number: input.invoice_number.trim(),
+        invoice_date: input.invoice_date,
+        amount: input.amount,
+        payment_status: input.payment_status,
+        paid_at: input.payment_status === "paid" ? input.paid_at : null,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "contract_id,year,month,sub_period" }
+    )
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving period invoice:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success("Invoice periode disimpan", input.invoice_number.trim());
+  return data as PeriodInvoice;
+}
+
+export async function deletePeriodInvoice(id: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "billing:manage");
+
+  const { error } = await supabase.from("period_invoices").delete().eq("id", id);
+
+  if (error) {
+    console.error("Error deleting period invoice:", error);
+    throw new Error(error.message);
+  }
+
+  logger.info("Invoice periode dihapus", `ID: ${id}`);
+}
+
+// ===================
+// SIGNATORY FUNCTIONS
+// ===================
+
+// Direktori penandatangan (SUPABASE_SETUP.md §26); semua user bisa membaca
+export async function fetchSignatories(): Promise<Signatory[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from("signatories")
+    .select("*")
+    .order("name", { ascending: true });
+
+  if (error) {
+    console.error("Error fetching signatories:", error);
+    throw new Error(error.message);
+  }
+
+  return (data || []) as Signatory[];
+}
+
+/**
+ * Number of contract signature slots (not in the trash) linked to each
+ * directory entry, keyed by signatory id.
+ */
+export async function fetchSignatoryUsage(): Promise<Record<string, number>> {
+  const supabase = createClient();
+  if (!supabase) return {};
+
+  const { data, error } = await supabase
+    .from("signatures")
+    .select("signatory_id, bapp_contracts!inner(deleted_at)")
+    .not("signatory_id", "is", null)
+    .is("bapp_contracts.deleted_at", null);
+
+  if (error) {
+    console.error("Error fetching signatory usage:", error);
+    throw new Error(error.message);
+  }
+
+  const usage: Record<string, number> = {};
+  (data || []).forEach((row) => {
+    const id = row.signatory_id as string;
+    usage[id] = (usage[id] || 0) + 1;
+  });
+  return usage;
+}
+
+/**
+ * Create a directory entry, or update it when `id` is given. A database
+ * trigger copies name/position changes to the linked contract signatures.
+ */
+export async function saveSignatory(
+  input: SignatoryInput,
+  id?: string
+): Promise<Signatory | null> {
+  const supabase = createClient();
+  if (!supabase) return null;
+
+  await requirePermission(supabase, "signatory:manage");
+
+  const values = {
+    ...input,
+    name: input.name.trim(),
+    position: input.position.trim(),
+  };
+
+  const { data, error } = id
+    ? await supabase
+        .from("signatories")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", id)
+        .select()
+        .single()
+    : await supabase.from("signatories").insert(values).select().single();
+
+  if (error) {
+    console.error("Error saving signatory:", error);
+    throw new Error(error.message);
+  }
+
+  logger.success(id ? "Penandatangan diperbarui" : "Penandatangan ditambahkan", values.name);
+  return data as Signatory;
+}
+
+// Kontrak yang merujuk tetap menyimpan nama & jabatan terakhir (tanpa tautan)
+export async function deleteSignatory(id: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "signatory:manage");
+
+  const { error } = await supabase.from("signatories").delete().eq("id", id);
+
+  if (error) {
+    console.error("Error deleting signatory:", error);
+    throw new Error(error.message);
+  }
+
+  logger.info("Penandatangan dihapus", `ID: ${id}`);
+}
+
+/**
+ * Replace signatory `fromId` with `toId` on every contract still running in
+ * `month`/`year`, as one RPC (`replace_signatory`). Periods before that month
+ * and periods already signed keep showing the old signatory.
+ */
+export async function replaceSignatory(
+  fromId: string,
+  toId: string,
+  year: number,
+  month: number
+): Promise<SignatoryReplacementResult> {
+  const supabase = createClient();
+  if (!supabase) return { contracts: 0, pinned: 0 };
+
+  await requirePermission(supabase, "signatory:manage");
+
+  const { data, error } = await supabase.rpc("replace_signatory", {
+    p_from_id: fromId,
+    p_to_id: toId,
+    p_year: year,
+    p_month: month,
+  });
+
+  if (error) {
+    console.error("Error replacing signatory:", error);
+    throw new Error(error.message);
+  }
+
+  const result = data as SignatoryReplacementResult;
+  logger.success(
+    "Penandatangan diganti",
+    `${result.contracts} kontrak mulai ${month}/${year}`
+  );
+  return result;
+}
+
+// ===================
+// DELETE FUNCTIONS
+// ===================
+
+// Hapus = pindahkan ke Sampah (soft delete). Anak dari customer/area ikut
+// terhapus/terpulihkan lewat trigger cascade_soft_delete (SUPABASE_SETUP.md langkah 15).
+const TRASH_TABLES: Record<TrashItemType, "customers" | "areas" | "bapp_contracts"> = {
+  customer: "customers",
+  area: "areas",
+  contract: "bapp_contracts",
+};
+
+const TRASH_LABELS: Record<TrashItemType, string> = {
+  customer: "customer",
+  area: "area",
+  contract: "kontrak",
+};
+
+async function moveToTrash(
+  supabase: SupabaseBrowserClient,
+  type: TrashItemType,
+  id: string
+): Promise<void> {
+  const label = TRASH_LABELS[type];
+
+  try {
+    const userId = await requirePermission(supabase, "contract:delete");
+
+    const { error } = await supabase
+      .from(TRASH_TABLES[type])
+      .update({ deleted_at: new Date().toISOString(), deleted_by: userId })
+      .eq("id", id);
+
+    if (error) {
+      console.error(`Error deleting ${type}:`, error);
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    logger.error(`Gagal menghapus ${label}`, (error as Error).message);
+    throw error;
+  }
+
+  logger.success(
+    `${label.charAt(0).toUpperCase()}${label.slice(1)} dipindahkan ke Sampah`,
+    `ID: ${id}`
+  );
+}
+
+export async function deleteContract(contractId: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await moveToTrash(supabase, "contract", contractId);
+}
+
+export async function deleteCustomer(customerId: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await moveToTrash(supabase, "customer", customerId);
+}
+
+export async function deleteArea(areaId: string): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await moveToTrash(supabase, "area", areaId);
+}
+
+/**
+ * Restore an item from the trash (also used for the "Batalkan" undo toast).
+ * Children deleted together with a customer/area are restored with it.
+ */
+export async function restoreTrashItem(
+  type: TrashItemType,
+  id: string
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "contract:delete");
+
+  // Item tetap tersembunyi jika customer/area induknya masih di Sampah
+  if (type !== "customer") {
+    const { data: row, error: rowError } = await supabase
+      .from(TRASH_TABLES[type])
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (rowError) {
+      console.error("Error fetching trash item:", rowError);
+      throw new Error(rowError.message);
+    }
+
+    const parentResults = await Promise.all([
+      supabase
+        .from("customers")
+        .select("name, deleted_at")
+        .eq("id", row.customer_id)
+        .maybeSingle(),
+      ...(type === "contract"
+        ? [
+            supabase
+              .from("areas")
+              .select("name, deleted_at")
+              .eq("id", row.area_id)
+              .maybeSingle(),
+          ]
+        : []),
+    ]);
+
+    const deletedParent = parentResults
+      .map((result) => result.data)
+      .find((parent) => parent?.deleted_at);
+    if (deletedParent) {
+      throw new Error(
+        `"${deletedParent.name}" masih di Sampah. Pulihkan item induknya terlebih dahulu.`
+      );
+    }
+  }
+
+  const { error } = await supabase
+    .from(TRASH_TABLES[type])
+    .update({ deleted_at: null, deleted_by: null })
+    .eq("id", id);
+
+  if (error) {
+    console.error(`Error restoring ${type}:`, error);
+    throw new Error(error.message);
+  }
+
+  logger.success("Data dipulihkan dari Sampah", `${type} ID: ${id}`);
+}
+
+// ===================
+// TRASH FUNCTIONS (Super Admin)
+// ===================
+
+/**
+ * Fetch everything in the trash, newest first. Items deleted as part of a
+ * customer/area deletion are folded into their parent entry.
+ */
+export async function fetchTrash(): Promise<TrashItem[]> {
+  const supabase = createClient();
+  if (!supabase) return [];
+
+  await requirePermission(supabase, "trash:manage");
+
+  // Customer & area aktif juga diambil untuk nama induk
+  const [customersResult, areasResult, contractsResult] = await Promise.all([
+    supabase.from("customers").select("id, name, deleted_at, deleted_by"),
+    supabase.from("areas").select("id, name, customer_id, deleted_at, deleted_by"),
+    supabase
+      .from("bapp_contracts")
+      .select("id, name, year, customer_id, area_id, deleted_at, deleted_by")
+      .not("deleted_at", "is", null),
+  ]);
+
+  const fetchError = customersResult.error || areasResult.error || contractsResult.error;
+  if (fetchError) {
+    console.error("Error fetching trash:", fetchError);
+    throw new Error(fetchError.message);
+  }
+
+  const customers = customersResult.data || [];
+  const areas = areasResult.data || [];
+  const customerById = new Map(customers.map((c) => [c.id, c]));
+  const areaById = new Map(areas.map((a) => [a.id, a]));
+
+  const items: Omit<TrashItem, "deleted_by_name">[] = [
+    ...customers
+      .filter((c) => c.deleted_at)
+      .map((c) => ({
+        id: c.id,
+        type: "customer" as const,
+        name: c.name,
+        parent_name: null,
+        year: null,
+        deleted_at: c.deleted_at,
+        deleted_by: c.deleted_by,
+      })),
+    ...areas
+      .filter(
+        (a) =>
+          a.deleted_at &&
+          customerById.get(a.customer_id)?.deleted_at !== a.deleted_at
+      )
+      .map((a) => ({
+        id: a.id,
+        type: "area" as const,
+        name: a.name,
+        parent_name: customerById.get(a.customer_id)?.name || null,
+        year: null,
+        deleted_at: a.deleted_at,
+        deleted_by: a.deleted_by,
+      })),
+    ...(contractsResult.data || [])
+      .filter(
+        (c) =>
+          customerById.get(c.customer_id)?.deleted_at !== c.deleted_at &&
+          areaById.get(c.area_id)?.deleted_at !== c.deleted_at
+      )
+      .map((c) => ({
+        id: c.id,
+        type: "contract" as const,
+        name: c.name,
+        parent_name:
+          [customerById.get(c.customer_id)?.name, areaById.get(c.area_id)?.name]
+            .filter(Boolean)
+            .join(" - ") || null,
+        year: c.year,
+        deleted_at: c.deleted_at,
+        deleted_by: c.deleted_by,
+      })),
+  ];
+
+  // Resolve deleted_by → nama user
+  const deletedByIds = [
+    ...new Set(items.map((i) => i.deleted_by).filter((id): id is string => !!id)),
+  ];
+  const deletedByNames = new Map<string, string>();
+  if (deletedByIds.length > 0) {
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", deletedByIds);
+    for (const profile of profiles || []) {
+      deletedByNames.set(profile.id, profile.full_name || profile.email);
+    }
+  }
+
+  return items
+    .map((item) => ({
+      ...item,
+      deleted_by_name: item.deleted_by
+        ? deletedByNames.get(item.deleted_by) || null
+        : null,
+    }))
+    .sort((a, b) => b.deleted_at.localeCompare(a.deleted_at));
+}
+
+/**
+ * Permanently delete one trashed item (cascades to signatures & progress).
+ */
+export async function purgeTrashItem(
+  type: TrashItemType,
+  id: string
+): Promise<void> {
+  const supabase = createClient();
+  if (!supabase) return;
+
+  await requirePermission(supabase, "trash:manage");
+
+  const { error } = await supabase
+    .from(TRASH_TABLES[type])
+    .delete()
+    .eq("id", id)
+    .not("deleted_at", "is", null); // Hanya item yang sudah di Sampah
+
+  if (error) {
+    console.error(`Error purging ${type}:`, error);
+    throw new Error(error.message);
+  }
+
+  logger.warning("Data dihapus permanen dari Sampah", `${type} ID: ${id}`);
+}
+
+/**
+ * Permanently delete everything that has been in the trash longer than
+ * `days`. Returns the number of purged rows.
+ */
+export async function purgeExpiredTrash(
+  days: number = TRASH_RETENTION_DAYS
+): Promise<number> {
+  const supabase = createClient();
+  if (!supabase) return 0;
+
+  await requirePermission(supabase, "trash:manage");
+
+  const { data, error } = await supabase.rpc("purge_deleted_records", {
+    p_days: days,
+  });
+
+  if (error) {
+    console.error("Error purging trash:", error);
+    throw new Error(error.message);
+  }
+
+  logger.warning("Sampah lama dikosongkan", `${data} data lebih dari ${days} hari`);
+  return data as number;
 }
@@ -41,7 +41,8 @@ export async function updateSession(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Define public routes that don't require authentication
-  const publicRoutes = ["/login", "/auth/callback"];
+  // /api/cron checks CRON_SECRET itself instead of a user session
+  const publicRoutes = ["/login", "/auth/callback", "/api/cron"];
   const isPublicRoute = publicRoutes.some((route) =>
     request.nextUrl.pathname.startsWith(route)
   );
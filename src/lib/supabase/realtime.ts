@@ -0,0 +1,423 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { createClient } from "@/lib/supabase/client";
+import { calculateYearlyStatus } from "@/lib/placeholder-data";
+import type {
+  BAPPContract,
+  ContractWithProgress,
+  CustomerWithAreas,
+  MonthlyProgress,
+  MonthlyProgressDetail,
+  SignatureProgress,
+} from "@/types/database";
+import { calculateProgress } from "@/types/database";
+
+export type DashboardChange =
+  | {
+      table: "monthly_progress";
+      payload: RealtimePostgresChangesPayload<MonthlyProgress>;
+    }
+  | {
+      table: "signature_progress";
+      payload: RealtimePostgresChangesPayload<SignatureProgress>;
+      completedByName: string | null; // Nama user completed_by, dicari saat event diterima
+    }
+  | {
+      table: "bapp_contracts";
+      payload: RealtimePostgresChangesPayload<BAPPContract>;
+    };
+
+export interface DashboardPatchResult {
+  data: CustomerWithAreas[];
+  changedCells: string[]; // getCellKey() dari cell yang berubah
+  needsReload: boolean; // Perubahan struktur - perlu fetchDashboardData ulang
+}
+
+// Key unik untuk satu cell progress di BAPPTable
+export function getCellKey(
+  contractId: string,
+  month: number,
+  subPeriod: number
+): string {
+  return `${contractId}:${month}:${subPeriod}`;
+}
+
+/**
+ * Subscribe to realtime changes on the dashboard tables.
+ * Returns an unsubscribe function (no-op in placeholder mode).
+ * Requires the tables to be in the `supabase_realtime` publication,
+ * see SUPABASE_SETUP.md langkah 12.
+ */
+export function subscribeToDashboardChanges(
+  year: number,
+  onChange: (change: DashboardChange) => void
+): () => void {
+  const supabase = createClient();
+  if (!supabase) return () => {};
+
+  // Nama penandatangan per user id; event diteruskan berurutan walaupun
+  // lookup nama berjalan async
+  const names = new Map<string, Promise<string | null>>();
+  let queue = Promise.resolve();
+  let closed = false;
+
+  const lookupName = (userId: string | null): Promise<string | null> => {
+    if (!userId) return Promise.resolve(null);
+    if (!names.has(userId)) {
+      names.set(
+        userId,
+        Promise.resolve(
+          supabase
+            .from("profiles")
+            .select("full_name, email")
+            .eq("id", userId)
+            .maybeSingle()
+        ).then(({ data, error }) => {
+          if (error) console.error("Error fetching signer profile:", error);
+          return data ? data.full_name || data.email : null;
+        })
+      );
+    }
+    return names.get(userId)!;
+  };
+
+  const emit = (change: DashboardChange | Promise<DashboardChange>) => {
+    queue = queue
+      .then(async () => {
+        const resolved = await change;
+        if (!closed) onChange(resolved);
+      })
+      .catch((error) => console.error("Realtime change error:", error));
+  };
+
+  const channel = supabase
+    .channel(`bapp-dashboard-${year}`)
+    .on<MonthlyProgress>(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "monthly_progress",
+        filter: `year=eq.${year}`,
+      },
+      (payload) => emit({ table: "monthly_progress", payload })
+    )
+    .on<SignatureProgress>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "signature_progress" },
+      (payload) => {
+        const userId = payload.eventType === "DELETE" ? null : payload.new.completed_by;
+        emit(
+          lookupName(userId).then((completedByName): DashboardChange => ({
+            table: "signature_progress",
+            payload,
+            completedByName,
+          }))
+        );
+      }
+    )
+    // DELETE tidak bisa difilter, jadi kontrak di-subscribe tanpa filter tahun
+    .on<BAPPContract>(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "bapp_contracts" },
+      (payload) => emit({ table: "bapp_contracts", payload })
+    )
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        console.error("Realtime subscription error:", status, err);
+      }
+    });
+
+  return () => {
+    closed = true;
+    supabase.removeChannel(channel);
+  };
+}
+
+// INSERT/UPDATE: list perlu dimuat ulang; DELETE: cukup buang id dari list
+export type NotificationChange =
+  | { event: "upsert" }
+  | { event: "delete"; id: string };
+
+/**
+ * Subscribe to the logged-in user's rows in `notifications` (SUPABASE_SETUP.md
+ * §18) so the notification list stays in sync across devices.
+ * Returns an unsubscribe function (no-op in placeholder mode).
+ */
+export function subscribeToNotifications(
+  userId: string,
+  onChange: (change: NotificationChange) => void
+): () => void {
+  const supabase = createClient();
+  if (!supabase) return () => {};
+
+  const filter = `user_id=eq.${userId}`;
+  const channel = supabase
+    .channel(`bapp-notifications-${userId}`)
+    .on(
+      "postgres_changes",
+      { event: "INSERT", schema: "public", table: "notifications", filter },
+      () => onChange({ event: "upsert" })
+    )
+    .on(
+      "postgres_changes",
+      { event: "UPDATE", schema: "public", table: "notifications", filter },
+      () => onChange({ event: "upsert" })
+    )
+    // DELETE tidak bisa difilter; id yang bukan milik user diabaikan provider
+    .on<{ id: string }>(
+      "postgres_changes",
+      { event: "DELETE", schema: "public", table: "notifications" },
+      (payload) => {
+        if (payload.old.id) onChange({ event: "delete", id: payload.old.id });
+      }
+    )
+    .subscribe((status, err) => {
+      if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        console.error("Notification subscription error:", status, err);
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// Map only the contract(s) matching `predicate`, keeping other references intact
+function updateContracts(
+  data: CustomerWithAreas[],
+  predicate: (contract: ContractWithProgress) => boolean,
+  update: (contract: ContractWithProgress) => ContractWithProgress
+): { data: CustomerWithAreas[]; found: boolean } {
+  let found = false;
+
+  const next = data.map((customer) => {
+    let customerChanged = false;
+    const areas = customer.areas.map((area) => {
+      let areaChanged = false;
+      const contracts = area.contracts.map((contract) => {
+        if (!predicate(contract)) return contract;
+        const updated = update(contract);
+        if (updated !== contract) {
+          found = true;
+          areaChanged = true;
+        }
+        return updated;
+      });
+      if (!areaChanged) return area;
+      customerChanged = true;
+      return { ...area, contracts };
+    });
+    return customerChanged ? { ...customer, areas } : customer;
+  });
+
+  return { data: found ? next : data, found };
+}
+
+function recalculate(progress: MonthlyProgressDetail): MonthlyProgressDetail {
+  const completedSigs = progress.signatures.filter((s) => s.is_completed).length;
+  const { percentage, totalItems, completedItems } = calculateProgress(
+    completedSigs,
+    progress.signatures.length,
+    progress.is_upload_completed
+  );
+  return {
+    ...progress,
+    percentage,
+    total_items: totalItems,
+    completed_items: completedItems,
+  };
+}
+
+function withMonthlyProgress(
+  contract: ContractWithProgress,
+  monthlyProgress: MonthlyProgressDetail[]
+): ContractWithProgress {
+  const next = { ...contract, monthly_progress: monthlyProgress };
+  return { ...next, yearly_status: calculateYearlyStatus(next) };
+}
+
+function hasContract(
+  data: CustomerWithAreas[],
+  predicate: (contract: ContractWithProgress) => boolean
+): boolean {
+  return data.some((customer) =>
+    customer.areas.some((area) => area.contracts.some(predicate))
+  );
+}
+
+// Kontrak (tidak di Sampah) yang masa berlakunya menyentuh tahun dashboard
+function isContractInYear(row: BAPPContract, year: number): boolean {
+  return !row.deleted_at && row.start_date <= `${year}-12-31` && row.end_date >= `${year}-01-01`;
+}
+
+// DELETE hanya berarti jika barisnya ada di data yang sedang dimuat
+function isLoadedDelete(data: CustomerWithAreas[], change: DashboardChange): boolean {
+  switch (change.table) {
+    case "bapp_contracts": {
+      const old = change.payload.old as Partial<BAPPContract>;
+      return hasContract(data, (c) => c.id === old.id);
+    }
+    case "monthly_progress": {
+      const old = change.payload.old as Partial<MonthlyProgress>;
+      return hasContract(
+        data,
+        (c) => c.id === old.contract_id || c.monthly_progress.some((p) => p.id === old.id)
+      );
+    }
+    case "signature_progress": {
+      const old = change.payload.old as Partial<SignatureProgress>;
+      // Tanpa REPLICA IDENTITY FULL baris lama tidak bisa dicocokkan
+      if (!old.monthly_progress_id) return true;
+      return hasContract(data, (c) =>
+        c.monthly_progress.some((p) => p.id === old.monthly_progress_id)
+      );
+    }
+  }
+}
+
+/**
+ * Apply one realtime change to the in-memory dashboard data.
+ * Changes that can't be patched locally (deletes, new contracts, period
+ * changes) set `needsReload` so the caller can refetch silently. Changes to
+ * contracts outside the loaded data (other years, other users' scope) are
+ * ignored.
+ */
+export function applyDashboardChange(
+  data: CustomerWithAreas[],
+  change: DashboardChange,
+  year: number
+): DashboardPatchResult {
+  const unchanged = { data, changedCells: [], needsReload: false };
+
+  if (change.payload.eventType === "DELETE") {
+    return { ...unchanged, needsReload: isLoadedDelete(data, change) };
+  }
+
+  switch (change.table) {
+    case "monthly_progress": {
+      const row = change.payload.new;
+      const subPeriod = row.sub_period || 1;
+      let cellKey: string | null = null;
+
+      const result = updateContracts(
+        data,
+        (c) => c.id === row.contract_id,
+        (contract) => {
+          const index = contract.monthly_progress.findIndex(
+            (p) => p.month === row.month && p.sub_period === subPeriod
+          );
+          if (index === -1) return contract;
+
+          const monthlyProgress = [...contract.monthly_progress];
+          monthlyProgress[index] = recalculate({
+            ...monthlyProgress[index],
+            id: row.id,
+            upload_link: row.upload_link,
+            is_upload_completed: row.is_upload_completed,
+            notes: row.notes,
+            notes_updated_at: row.notes_updated_at,
+            updated_at: row.updated_at,
+          });
+          cellKey = getCellKey(contract.id, row.month, subPeriod);
+          return withMonthlyProgress(contract, monthlyProgress);
+        }
+      );
+
+      if (!result.found || !cellKey) {
+        // Progress kontrak yang tidak dimuat diabaikan
+        return {
+          ...unchanged,
+          needsReload: hasContract(data, (c) => c.id === row.contract_id),
+        };
+      }
+      return { data: result.data, changedCells: [cellKey], needsReload: false };
+    }
+
+    case "signature_progress": {
+      const row = change.payload.new;
+      let cellKey: string | null = null;
+
+      const result = updateContracts(
+        data,
+        (c) => c.monthly_progress.some((p) => p.id === row.monthly_progress_id),
+        (contract) => {
+          const monthlyProgress = contract.monthly_progress.map((progress) => {
+            if (progress.id !== row.monthly_progress_id) return progress;
+
+            cellKey = getCellKey(contract.id, progress.month, progress.sub_period);
+            return recalculate({
+              ...progress,
+              signatures: progress.signatures.map((sig) =>
+                sig.id === row.signature_id
+                  ? {
+                      ...sig,
+                      name: row.signer_name || sig.name,
+                      role: row.signer_role ?? sig.role,
+                      is_completed: row.is_completed,
+                      completed_at: row.completed_at,
+                      completed_by: row.completed_by,
+                      completed_by_name: row.completed_by ? change.completedByName : null,
+                    }
+                  : sig
+              ),
+            });
+          });
+          return withMonthlyProgress(contract, monthlyProgress);
+        }
+      );
+
+      // Progress yang tidak dimuat (kontrak tahun lain / di luar akses) diabaikan
+      if (!result.found || !cellKey) return unchanged;
+      return { data: result.data, changedCells: [cellKey], needsReload: false };
+    }
+
+    case "bapp_contracts": {
+      const row = change.payload.new;
+      const isLoaded = hasContract(data, (c) => c.id === row.id);
+
+      // Kontrak yang tidak dimuat hanya perlu reload jika kini masuk tahun ini
+      // (kontrak baru, dipulihkan dari Sampah, atau tanggalnya digeser)
+      if (!isLoaded) {
+        return { ...unchanged, needsReload: isContractInYear(row, year) };
+      }
+
+      // Dipindah ke Sampah atau perubahan periode mengubah struktur cell
+      if (change.payload.eventType === "INSERT" || row.deleted_at) {
+        return { ...unchanged, needsReload: true };
+      }
+
+      let periodChanged = false;
+      const result = updateContracts(
+        data,
+        (c) => c.id === row.id,
+        (contract) => {
+          // Tanggal kontrak dan bulan awal periode menggeser jadwal, sama seperti perubahan periode
+          if (
+            contract.period !== row.period ||
+            contract.start_date !== row.start_date ||
+            contract.end_date !== row.end_date ||
+            contract.period_anchor_month !== (row.period_anchor_month ?? null)
+          ) {
+            periodChanged = true;
+            return contract;
+          }
+          return {
+            ...contract,
+            name: row.name,
+            invoice_type: row.invoice_type,
+            notes: row.notes,
+            deadline_days: row.deadline_days ?? contract.deadline_days,
+            contract_value: row.contract_value ?? null,
+            period_amount: row.period_amount ?? null,
+            updated_at: row.updated_at,
+          };
+        }
+      );
+
+      if (periodChanged) {
+        return { ...unchanged, needsReload: true };
+      }
+      return { data: result.data, changedCells: [], needsReload: false };
+    }
+  }
+}
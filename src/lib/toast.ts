@@ -7,6 +7,7 @@ interface ToastOptions {
   description?: string;
   duration?: number;
   force?: boolean; // Show even if notifications are disabled
+  action?: { label: string; onClick: () => void }; // e.g. "Batalkan" (undo)
 }
 
 /**
@@ -29,6 +30,7 @@ export function showSuccessToast(message: string, options?: ToastOptions) {
     description: options?.description,
     duration: options?.duration || 4000,
     position: "top-right",
+    action: options?.action,
   });
 }
 
@@ -6,6 +6,8 @@ export interface Customer {
   name: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null; // Soft delete - ada di Sampah jika terisi
+  deleted_by?: string | null;
 }
 
 export interface Area {
@@ -15,6 +17,52 @@ export interface Area {
   code: string;
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
+
+// Tipe invoice (unit penagihan) dikelola admin sebagai data referensi.
+// Kontrak menyimpan nama tipe; mengganti nama ikut memperbarui kontrak.
+export interface InvoiceType {
+  id: string;
+  name: string;
+  sort_order: number;
+  archived_at: string | null; // Diarsipkan: tidak bisa dipilih untuk kontrak baru
+  created_at: string;
+  updated_at: string;
+}
+
+// Dipakai pada mode placeholder dan sebagai isi awal tabel invoice_types
+export const DEFAULT_INVOICE_TYPES = ["Pusat", "Regional 2", "Regional 3"];
+
+/**
+ * Invoice type names a contract can be saved with: active types, plus the
+ * contract's current type when it has been archived since.
+ */
+export function getSelectableInvoiceTypes(
+  invoiceTypes: InvoiceType[],
+  current?: string | null
+): string[] {
+  const names = invoiceTypes.filter((type) => !type.archived_at).map((type) => type.name);
+  return current && !names.includes(current) ? [...names, current] : names;
+}
+
+// Dashboard data with only the contracts of one invoice type
+export function filterByInvoiceType(
+  data: CustomerWithAreas[],
+  invoiceType: string
+): CustomerWithAreas[] {
+  return data
+    .map((customer) => ({
+      ...customer,
+      areas: customer.areas
+        .map((area) => ({
+          ...area,
+          contracts: area.contracts.filter((contract) => contract.invoice_type === invoiceType),
+        }))
+        .filter((area) => area.contracts.length > 0),
+    }))
+    .filter((customer) => customer.areas.length > 0);
 }
 
 export interface BAPPContract {
@@ -23,11 +71,19 @@ export interface BAPPContract {
   area_id: string;
   name: string;
   period: string; // e.g., "1 bulan", "3 bulan"
-  invoice_type: "Pusat" | "Regional 2" | "Regional 3";
+  invoice_type: string;
   notes: string | null;
-  year: number;
+  deadline_days: number; // Batas waktu = N hari setelah akhir periode
+  contract_value: number | null; // Nilai kontrak setahun (Rp)
+  period_amount: number | null; // Nilai tagihan per periode (Rp); null = nilai kontrak dibagi jumlah periode
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, boleh melewati akhir tahun
+  period_anchor_month: number | null; // Bulan awal jadwal periode (1-12); null = bulan start_date
+  year: number; // Tahun mulai kontrak (dari start_date)
   created_at: string;
   updated_at: string;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
 }
 
 export interface Signature {
@@ -36,6 +92,7 @@ export interface Signature {
   name: string;
   role: string;
   order: number;
+  signatory_id?: string | null; // Direktori penandatangan; name/role ikut disinkronkan
   created_at: string;
 }
 
@@ -60,16 +117,55 @@ export interface SignatureProgress {
   is_completed: boolean;
   completed_at: string | null;
   completed_by: string | null;
+  // Penandatangan periode ini jika berbeda dari signatures (dikunci saat penggantian)
+  signer_name?: string | null;
+  signer_role?: string | null;
+}
+
+// Audit trail - ditulis oleh trigger database, bukan dari client
+export type ProgressAuditField =
+  | "upload_link"
+  | "is_upload_completed"
+  | "notes"
+  | "signature";
+
+export interface ProgressAuditLog {
+  id: string;
+  contract_id: string | null; // null = kontrak sudah dihapus permanen
+  contract_name: string | null; // Snapshot nama kontrak
+  monthly_progress_id: string | null;
+  month: number;
+  year: number;
+  sub_period: number;
+  field: ProgressAuditField;
+  signature_id: string | null;
+  signature_name: string | null; // Snapshot nama saat perubahan
+  old_value: string | null;
+  new_value: string | null;
+  changed_by: string | null; // profiles.id
+  changed_by_name: string | null; // Snapshot nama/email saat perubahan
+  changed_at: string;
+}
+
+// Data progress terbaru di server saat terjadi konflik edit
+export interface MonthlyProgressSnapshot {
+  updated_at: string | null;
+  upload_link: string | null;
+  is_upload_completed: boolean;
+  notes: string | null;
+  signatures: Record<string, boolean>; // signature_id -> is_completed
 }
 
 // Computed/View Types for Frontend
 export interface SignatureDetail {
   id: string;
-  name: string;
+  name: string; // Penandatangan periode ini (signer_name, atau nama di signatures)
   role: string;
   order: number;
   is_completed: boolean;
   completed_at: string | null;
+  completed_by: string | null; // profiles.id
+  completed_by_name: string | null;
 }
 
 export interface MonthlyProgressDetail {
@@ -94,12 +190,19 @@ export interface ContractWithProgress {
   area_id: string;
   name: string;
   period: string;
-  invoice_type: "Pusat" | "Regional 2" | "Regional 3";
+  invoice_type: string;
   notes: string | null;
+  deadline_days: number;
+  contract_value: number | null;
+  period_amount: number | null;
+  start_date: string;
+  end_date: string;
+  period_anchor_month: number | null;
   total_signatures: number;
   signatures: Signature[];
   monthly_progress: MonthlyProgressDetail[];
   yearly_status: "completed" | "in_progress" | "not_started";
+  updated_at: string | null; // Versi kontrak untuk deteksi konflik edit
 }
 
 export interface AreaWithContracts {
@@ -118,6 +221,52 @@ export interface CustomerWithAreas {
 // Auth Types
 export type UserRole = "user" | "admin" | "super_admin";
 
+// Permission yang dicek oleh data layer (dan RLS di database)
+export type Permission =
+  | "progress:edit"
+  | "contract:create"
+  | "contract:edit"
+  | "contract:delete"
+  | "contract:migrate"
+  | "contract:import"
+  | "user:manage"
+  | "trash:manage"
+  | "report:manage"
+  | "reminder:send"
+  | "notification:manage"
+  | "invoice_type:manage"
+  | "billing:manage"
+  | "signatory:manage";
+
+const ADMIN_PERMISSIONS: Permission[] = [
+  "progress:edit",
+  "contract:create",
+  "contract:edit",
+  "contract:delete",
+  "contract:migrate",
+  "contract:import",
+  "report:manage",
+  "reminder:send",
+  "notification:manage",
+  "invoice_type:manage",
+  "billing:manage",
+  "signatory:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [], // Hanya melihat & export
+  admin: ADMIN_PERMISSIONS,
+  super_admin: [...ADMIN_PERMISSIONS, "user:manage", "trash:manage"],
+};
+
+// Helper function to check if a role has a permission
+export function hasPermission(
+  role: UserRole | null | undefined,
+  permission: Permission
+): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
 export interface UserProfile {
   id: string;
   email: string;
@@ -127,6 +276,129 @@ export interface UserProfile {
   updated_at?: string;
 }
 
+// Penugasan user ke customer atau area tertentu.
+// User tanpa penugasan (dan super_admin) dapat melihat semua data.
+export interface UserScope {
+  id: string;
+  user_id: string;
+  customer_id: string | null;
+  area_id: string | null;
+  created_at: string;
+}
+
+// Sampah (soft delete) - item dihapus permanen setelah masa retensi
+export const TRASH_RETENTION_DAYS = 30;
+
+export type TrashItemType = "customer" | "area" | "contract";
+
+export interface TrashItem {
+  id: string;
+  type: TrashItemType;
+  name: string;
+  parent_name: string | null; // Customer / area induk
+  year: number | null; // Hanya untuk kontrak
+  deleted_at: string;
+  deleted_by: string | null;
+  deleted_by_name: string | null;
+}
+
+// Template dokumen Berita Acara (BAPP). customer_id null = template default.
+// Teks boleh berisi placeholder {{customer}}, {{kontrak}}, dst (lihat lib/berita-acara.ts)
+export interface BeritaAcaraTemplate {
+  id: string;
+  customer_id: string | null;
+  title: string;
+  number_format: string;
+  opening_text: string;
+  closing_text: string;
+  place: string;
+  updated_at: string;
+}
+
+export type BeritaAcaraTemplateContent = Pick<
+  BeritaAcaraTemplate,
+  "title" | "number_format" | "opening_text" | "closing_text" | "place"
+>;
+
+// Template pesan pengingat penandatangan, satu per kanal.
+// Placeholder {{penandatangan}}, {{kontrak}}, dst (lihat lib/reminders.ts)
+export type ReminderChannel = "email" | "whatsapp";
+
+export interface ReminderTemplate {
+  channel: ReminderChannel;
+  subject: string; // Hanya dipakai kanal email
+  body: string;
+  updated_at: string;
+}
+
+export type ReminderTemplateContent = Pick<ReminderTemplate, "subject" | "body">;
+
+// Riwayat pengingat per kontrak/bulan. copied = teks disalin untuk dikirim
+// manual (WhatsApp, dsb), sent = terkirim lewat SMTP
+export type ReminderAction = "copied" | "sent";
+
+export interface ReminderLog {
+  id: string;
+  contract_id: string;
+  month: number;
+  year: number;
+  sub_period: number;
+  signature_id: string | null;
+  signature_name: string; // Snapshot nama penandatangan
+  channel: ReminderChannel;
+  action: ReminderAction;
+  recipient: string | null; // Alamat email untuk action "sent"
+  sent_by: string | null; // profiles.id
+  sent_by_name: string | null;
+  sent_at: string;
+}
+
+// Penagihan per periode; hanya bisa dicatat setelah progress periode 100%
+export type PaymentStatus = "unpaid" | "paid";
+
+export interface PeriodInvoice {
+  id: string;
+  contract_id: string;
+  month: number;
+  year: number;
+  sub_period: number;
+  invoice_number: string;
+  invoice_date: string; // YYYY-MM-DD
+  amount: number | null; // null = nilai tagihan per periode dari kontrak
+  payment_status: PaymentStatus;
+  paid_at: string | null; // YYYY-MM-DD
+  updated_by: string | null; // profiles.id
+  updated_at: string;
+}
+
+export type PeriodInvoiceInput = Pick<
+  PeriodInvoice,
+  "invoice_number" | "invoice_date" | "amount" | "payment_status" | "paid_at"
+>;
+
+// Direktori penandatangan; kontrak merujuk lewat signatures.signatory_id
+export interface Signatory {
+  id: string;
+  customer_id: string | null; // null = bisa dipakai semua customer
+  name: string;
+  position: string;
+  active_from: string | null; // YYYY-MM-DD
+  active_until: string | null; // YYYY-MM-DD
+  created_at: string;
+  updated_at: string;
+}
+
+export type SignatoryInput = Pick<
+  Signatory,
+  "customer_id" | "name" | "position" | "active_from" | "active_until"
+>;
+
+// Hasil "ganti penandatangan X dengan Y mulai bulan M"
+export interface SignatoryReplacementResult {
+  contracts: number; // Kontrak yang slot tanda tangannya dialihkan ke Y
+  pinned: number; // Progress lama yang tetap menampilkan X
+}
+
 // Filter Types
 export interface DashboardFilters {
   year: number;
@@ -144,10 +416,16 @@ export interface ContractFormData {
   area_id: string;
   name: string;
   period: string;
-  invoice_type: "Pusat" | "Regional 2" | "Regional 3";
+  invoice_type: string;
   notes: string;
+  deadline_days: number;
+  contract_value: number | null;
+  period_amount: number | null;
+  start_date: string;
+  end_date: string;
+  period_anchor_month: number | null;
   year: number;
-  signatures: { name: string; role: string }[];
+  signatures: { name: string; role: string; signatory_id?: string | null }[];
 }
 
 // Month names in Indonesian
@@ -174,8 +452,10 @@ export const PERIOD_OPTIONS = [
 
 export type PeriodValue = typeof PERIOD_OPTIONS[number]["value"];
 
-// Helper function to get period months (which months are active for a period)
-export function getPeriodMonths(periodValue: number): number[] {
+// Helper function to get period months (which months are active for a period).
+// Periods start at `startMonth`, so a quarterly contract starting in February
+// ends its periods in APR, JUL, OKT and JAN -> [1, 4, 7, 10]
+export function getPeriodMonths(periodValue: number, startMonth: number = 1): number[] {
   // Handle half-month period - return all 12 months
   if (periodValue === 0.5) {
     return Array.from({ length: 12 }, (_, i) => i + 1);
@@ -183,9 +463,28 @@ export function getPeriodMonths(periodValue: number): number[] {
   
   const months: number[] = [];
   for (let i = periodValue; i <= 12; i += periodValue) {
-    months.push(Math.round(i)); // Use Math.round to avoid floating point issues
+    // Use Math.round to avoid floating point issues
+    months.push(((Math.round(i) + startMonth - 2) % 12) + 1);
   }
-  return months;
+  return months.sort((a, b) => a - b);
+}
+
+// First month of the period ending in `endMonth`; wraps to the previous year
+// for anchored schedules (a 3-month period ending in JAN starts in NOV)
+export function getPeriodStartMonth(endMonth: number, periodValue: number): number {
+  return ((endMonth - Math.max(periodValue, 1) + 12) % 12) + 1;
+}
+
+// Month ranges of one calendar year, one per active end month. A period that
+// started in the previous year is clipped to January, as the table shows it
+export function getPeriodRanges(
+  activeMonths: number[],
+  periodValue: number
+): { start: number; end: number }[] {
+  return activeMonths.map((end) => ({
+    start: Math.max(end - Math.max(periodValue, 1) + 1, 1),
+    end,
+  }));
 }
 
 // Helper function to parse period string to number
@@ -203,6 +502,219 @@ export function isHalfMonthPeriod(period: string): boolean {
   return period.includes("1/2") || parsePeriodToNumber(period) === 0.5;
 }
 
+// Sub-period label for half-month contracts, shared by exports
+export function getSubPeriodLabel(subPeriod: number): string {
+  return subPeriod === 1 ? "P1 (1-20)" : "P2 (21-30)";
+}
+
+// ===================
+// CONTRACT DATE HELPERS
+// ===================
+
+// Fields that decide which months of a year a contract schedules
+export type ContractSchedule = Pick<
+  ContractWithProgress,
+  "period" | "start_date" | "end_date" | "period_anchor_month"
+>;
+
+// Year and month of a YYYY-MM-DD contract date
+function parseContractDate(date: string): { year: number; month: number } {
+  const [year, month] = date.split("-").map(Number);
+  return { year, month };
+}
+
+// Date range of a contract that runs for one calendar year (the old model)
+export function getDefaultContractDates(year: number): { start_date: string; end_date: string } {
+  return { start_date: `${year}-01-01`, end_date: `${year}-12-31` };
+}
+
+// Month the period schedule starts from: the anchor month if set, otherwise
+// the contract's start month
+export function getPeriodAnchorMonth(
+  contract: Pick<ContractSchedule, "start_date" | "period_anchor_month">
+): number {
+  return contract.period_anchor_month ?? parseContractDate(contract.start_date).month;
+}
+
+// Whether a month of a year lies between the contract's start and end month
+export function isMonthInContract(
+  contract: Pick<ContractSchedule, "start_date" | "end_date">,
+  year: number,
+  month: number
+): boolean {
+  const start = parseContractDate(contract.start_date);
+  const end = parseContractDate(contract.end_date);
+  const value = year * 12 + month;
+  return value >= start.year * 12 + start.month && value <= end.year * 12 + end.month;
+}
+
+// Months (1-12) of `year` covered by the contract, in order
+export function getContractMonthsInYear(
+  contract: Pick<ContractSchedule, "start_date" | "end_date">,
+  year: number
+): number[] {
+  return Array.from({ length: 12 }, (_, i) => i + 1).filter((month) =>
+    isMonthInContract(contract, year, month)
+  );
+}
+
+// Active period end months of the contract (getPeriodMonths from its anchor month)
+export function getContractPeriodMonths(contract: ContractSchedule): number[] {
+  return getPeriodMonths(parsePeriodToNumber(contract.period), getPeriodAnchorMonth(contract));
+}
+
+// Progress entries the table shows for a contract: only the active months of
+// its period schedule that fall within the contract dates, with both
+// sub-periods for half-month contracts
+export function getActiveProgress(
+  contract: ContractSchedule & Pick<ContractWithProgress, "monthly_progress">
+): MonthlyProgressDetail[] {
+  const activeMonths = getContractPeriodMonths(contract);
+  const isHalfMonth = isHalfMonthPeriod(contract.period);
+
+  return contract.monthly_progress
+    .filter(
+      (p) =>
+        activeMonths.includes(p.month) &&
+        (isHalfMonth || p.sub_period === 1) &&
+        isMonthInContract(contract, p.year, p.month)
+    )
+    .sort((a, b) => a.month - b.month || a.sub_period - b.sub_period);
+}
+
+// Average percentage over the active progress entries (0 if none)
+export function getAverageProgress(
+  contract: ContractSchedule & Pick<ContractWithProgress, "monthly_progress">
+): number {
+  const entries = getActiveProgress(contract);
+  if (entries.length === 0) return 0;
+  return entries.reduce((sum, p) => sum + p.percentage, 0) / entries.length;
+}
+
+// ===================
+// DEADLINE HELPERS
+// ===================
+
+// Default batas waktu kontrak: tepat di akhir periode
+export const DEFAULT_DEADLINE_DAYS = 0;
+export const MAX_DEADLINE_DAYS = 365;
+
+// Sub-periode P1 kontrak per 1/2 bulan berakhir tanggal 20
+export const HALF_MONTH_P1_END_DAY = 20;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Last day of a progress period: day 20 for half-month P1, otherwise the last
+// day of the period's end month (progress is stored at the end month)
+export function getPeriodEndDate(
+  year: number,
+  month: number,
+  subPeriod: number,
+  isHalfMonth: boolean
+): Date {
+  if (isHalfMonth && subPeriod === 1) {
+    return new Date(year, month - 1, HALF_MONTH_P1_END_DAY);
+  }
+  return new Date(year, month, 0);
+}
+
+// Due date of one progress entry: contract.deadline_days after the period end
+export function getProgressDueDate(
+  contract: Pick<ContractWithProgress, "period" | "deadline_days">,
+  progress: Pick<MonthlyProgressDetail, "month" | "year" | "sub_period">
+): Date {
+  const dueDate = getPeriodEndDate(
+    progress.year,
+    progress.month,
+    progress.sub_period,
+    isHalfMonthPeriod(contract.period)
+  );
+  dueDate.setDate(dueDate.getDate() + (contract.deadline_days ?? DEFAULT_DEADLINE_DAYS));
+  return dueDate;
+}
+
+// Whole days from `dueDate` to `today` (negative = still days left)
+export function getDaysPastDue(dueDate: Date, today: Date = new Date()): number {
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((startOfToday.getTime() - dueDate.getTime()) / MS_PER_DAY);
+}
+
+export interface OverdueProgress {
+  progress: MonthlyProgressDetail;
+  dueDate: Date;
+  daysOverdue: number;
+}
+
+// Active progress entries below 100% whose due date has passed, across all
+// past periods of the contract
+export function getOverdueProgress(
+  contract: ContractSchedule & Pick<ContractWithProgress, "deadline_days" | "monthly_progress">,
+  today: Date = new Date()
+): OverdueProgress[] {
+  return getActiveProgress(contract).flatMap((progress) => {
+    if (progress.percentage >= 100) return [];
+    const dueDate = getProgressDueDate(contract, progress);
+    const daysOverdue = getDaysPastDue(dueDate, today);
+    return daysOverdue > 0 ? [{ progress, dueDate, daysOverdue }] : [];
+  });
+}
+
+// ===================
+// SIGNATORY HELPERS
+// ===================
+
+// Whether a directory entry is active on `date` (YYYY-MM-DD, default today)
+export function isSignatoryActive(
+  signatory: Pick<Signatory, "active_from" | "active_until">,
+  date: string = new Date().toISOString().slice(0, 10)
+): boolean {
+  return (
+    (!signatory.active_from || signatory.active_from <= date) &&
+    (!signatory.active_until || signatory.active_until >= date)
+  );
+}
+
+// ===================
+// BILLING HELPERS
+// ===================
+
+// Number of billable periods in a year (two per month for half-month contracts)
+export function getPeriodsPerYear(period: string): number {
+  const periodValue = parsePeriodToNumber(period);
+  return periodValue === 0.5 ? 24 : getPeriodMonths(periodValue).length;
+}
+
+// Billable amount of one period: the invoice's own amount, else the contract's
+// per-period amount, else the contract value split evenly over the year.
+// Null when the contract has no value recorded.
+export function getBillableAmount(
+  contract: Pick<ContractWithProgress, "period" | "contract_value" | "period_amount">,
+  invoice?: Pick<PeriodInvoice, "amount"> | null
+): number | null {
+  if (invoice?.amount != null) return invoice.amount;
+  if (contract.period_amount != null) return contract.period_amount;
+  if (contract.contract_value != null) {
+    return Math.round(contract.contract_value / getPeriodsPerYear(contract.period));
+  }
+  return null;
+}
+
+// Parse a Rupiah amount typed by the user ("1.500.000", "Rp 1500000"):
+// null for an empty input, NaN when it is not a whole number
+export function parseAmountInput(value: string): number | null {
+  const digits = value.replace(/^\s*rp/i, "").replace(/[.\s]/g, "");
+  if (digits === "") return null;
+  return /^\d+$/.test(digits) ? Number(digits) : NaN;
+}
+
+export function formatRupiah(amount: number): string {
+  return new Intl.NumberFormat("id-ID", {
+    style: "currency",
+    currency: "IDR",
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
+
 // Helper function to calculate percentage dynamically
 export function calculateProgress(
   completedSignatures: number,
@@ -215,6 +727,21 @@ export function calculateProgress(
   return { percentage, totalItems, completedItems };
 }
 
+// Inverse of calculateProgress - used when importing percentages from Excel.
+// The first N signatures are completed; upload only once everything else is.
+export function percentageToCompletion(
+  percentage: number,
+  signatureCount: number
+): { completedSignatures: number; isUploadCompleted: boolean; percentage: number } {
+  const totalItems = signatureCount + 1;
+  const completedItems = Math.round((percentage / 100) * totalItems);
+  return {
+    completedSignatures: Math.min(completedItems, signatureCount),
+    isUploadCompleted: completedItems >= totalItems,
+    percentage: Math.round((completedItems / totalItems) * 100),
+  };
+}
+
 // Contract summary for import functionality
 export interface ContractSummary {
   id: string;